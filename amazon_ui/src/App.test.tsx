@@ -0,0 +1,344 @@
+// @vitest-environment jsdom
+import '@testing-library/jest-dom/vitest';
+import { act, cleanup, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import App from './App';
+import { CATALOG } from './data/catalog';
+import { SIDEBAR_FACETS } from './data/sidebarFacets';
+import { createFilterState, priceRangeLabel, type FacetConfig } from './utils/facets';
+import { filterProducts } from './utils/products';
+import { loadSectionExpanded } from './utils/sectionState';
+import { formatSearchState, parseSearchState, type SearchState } from './utils/urlState';
+
+beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+});
+
+afterEach(() => {
+    cleanup();
+    localStorage.clear();
+});
+
+const resultCount = () => Number(/of (\d+) results/.exec(screen.getByRole('status').textContent ?? '')?.[1] ?? 0);
+
+const chipLabels = () => {
+    const list = screen.queryByRole('list', { name: 'Active filters' });
+    return list ? within(list).getAllByRole('button', { name: /^Remove filter / }).map(chip => chip.textContent?.replace(' ×', '')) : [];
+};
+
+const countWhere = (test: (product: (typeof CATALOG)[number]) => boolean) => CATALOG.filter(test).length;
+
+describe('FilterComponent', () => {
+    // Sections snap open and shut instead of sliding, which jsdom cannot lay out anyway
+    beforeEach(() => {
+        vi.stubGlobal('matchMedia', () => ({ matches: true }));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const section = (id: string) => document.getElementById(`filter-section-${id}`)!;
+    const brandBoxes = () => within(section('brand')).getAllByRole('checkbox').map(box => box.id.replace('brand-', ''));
+
+    it('collapses and expands from its heading, by mouse or keyboard', async () => {
+        const user = userEvent.setup();
+        render(<App />);
+        const heading = screen.getByRole('button', { name: 'Condition' });
+        expect(heading).toHaveAttribute('aria-expanded', 'true');
+        expect(heading).toHaveAttribute('aria-controls', 'filter-section-condition');
+        expect(section('condition')).toBeVisible();
+
+        await user.click(heading);
+        expect(heading).toHaveAttribute('aria-expanded', 'false');
+        expect(section('condition')).not.toBeVisible();
+
+        heading.focus();
+        await user.keyboard('{Enter}');
+        expect(heading).toHaveAttribute('aria-expanded', 'true');
+        expect(section('condition')).toBeVisible();
+        await user.keyboard(' ');
+        expect(heading).toHaveAttribute('aria-expanded', 'false');
+    });
+
+    it('remembers each section on its own across reloads', async () => {
+        const user = userEvent.setup();
+        render(<App />);
+        await user.click(screen.getByRole('button', { name: 'Condition' }));
+        expect(loadSectionExpanded('condition', true)).toBe(false);
+        expect(loadSectionExpanded('brand', false)).toBe(false);
+
+        cleanup();
+        render(<App />);
+        expect(screen.getByRole('button', { name: 'Condition' })).toHaveAttribute('aria-expanded', 'false');
+        expect(section('condition')).not.toBeVisible();
+        expect(screen.getByRole('button', { name: 'Brands' })).toHaveAttribute('aria-expanded', 'true');
+    });
+
+    it('shows the first few brands until "Show N more"', async () => {
+        const user = userEvent.setup();
+        render(<App />);
+        expect(brandBoxes()).toEqual(['sony', 'bose', 'jbl', 'anker', 'canon']);
+
+        const more = within(section('brand')).getByRole('button', { name: 'Show 5 more' });
+        expect(more).toHaveAttribute('aria-expanded', 'false');
+        await user.click(more);
+        expect(brandBoxes()).toHaveLength(10);
+        expect(more).toHaveAttribute('aria-expanded', 'true');
+        expect(more).toHaveTextContent('Show less');
+
+        await user.click(more);
+        expect(brandBoxes()).toHaveLength(5);
+    });
+
+    it('keeps a ticked brand in view past the first few', async () => {
+        const user = userEvent.setup();
+        window.history.replaceState(null, '', '/?brand=penguin');
+        render(<App />);
+        expect(brandBoxes()).toEqual(['sony', 'bose', 'jbl', 'anker', 'canon', 'penguin']);
+        expect(screen.getByRole('checkbox', { name: 'Penguin Books' })).toBeChecked();
+        expect(within(section('brand')).getByRole('button', { name: 'Show 4 more' })).toBeInTheDocument();
+
+        await user.click(screen.getByRole('checkbox', { name: 'Penguin Books' }));
+        expect(brandBoxes()).toHaveLength(5);
+        expect(within(section('brand')).getByRole('button', { name: 'Show 5 more' })).toBeInTheDocument();
+    });
+});
+
+describe('RatingFacet', () => {
+    it('selects one level at a time and clears it when picked again', async () => {
+        const user = userEvent.setup();
+        render(<App />);
+        const four = screen.getByRole('button', { name: '4 stars & up' });
+        const three = screen.getByRole('button', { name: '3 stars & up' });
+        expect(four).toHaveAttribute('aria-pressed', 'false');
+
+        await user.click(four);
+        expect(four).toHaveAttribute('aria-pressed', 'true');
+        expect(chipLabels()).toEqual(['4 Stars & Up']);
+        expect(resultCount()).toBe(countWhere(product => product.rating >= 4));
+
+        await user.click(three);
+        expect(four).toHaveAttribute('aria-pressed', 'false');
+        expect(three).toHaveAttribute('aria-pressed', 'true');
+        expect(chipLabels()).toEqual(['3 Stars & Up']);
+
+        await user.click(three);
+        expect(three).toHaveAttribute('aria-pressed', 'false');
+        expect(chipLabels()).toEqual([]);
+        expect(resultCount()).toBe(CATALOG.length);
+    });
+
+    it('clears from the filter chip', async () => {
+        const user = userEvent.setup();
+        render(<App />);
+        await user.click(screen.getByRole('button', { name: '2 stars & up' }));
+        await user.click(screen.getByRole('button', { name: 'Remove filter 2 Stars & Up' }));
+        expect(screen.getByRole('button', { name: '2 stars & up' })).toHaveAttribute('aria-pressed', 'false');
+    });
+});
+
+describe('PriceFacet', () => {
+    const boxes = () => ({
+        min: screen.getByRole('textbox', { name: 'Price minimum' }),
+        max: screen.getByRole('textbox', { name: 'Price maximum' })
+    });
+
+    it('applies a preset bracket, shows it in the boxes and clears it when picked again', async () => {
+        const user = userEvent.setup();
+        render(<App />);
+        const bracket = screen.getByRole('button', { name: '$25 to $50' });
+
+        await user.click(bracket);
+        expect(bracket).toHaveAttribute('aria-pressed', 'true');
+        expect(chipLabels()).toEqual(['$25 to $50']);
+        expect(resultCount()).toBe(countWhere(product => product.price >= 25 && product.price < 50));
+        expect(boxes().min).toHaveValue('25');
+        expect(boxes().max).toHaveValue('50');
+
+        await user.click(screen.getByRole('button', { name: '$200 & Above' }));
+        expect(bracket).toHaveAttribute('aria-pressed', 'false');
+        expect(boxes().min).toHaveValue('200');
+        expect(boxes().max).toHaveValue('');
+
+        await user.click(screen.getByRole('button', { name: '$200 & Above' }));
+        expect(chipLabels()).toEqual([]);
+        expect(boxes().min).toHaveValue('');
+    });
+
+    it('applies a custom range and lights up the bracket it matches', async () => {
+        const user = userEvent.setup();
+        render(<App />);
+        await user.type(boxes().min, '50');
+        await user.type(boxes().max, '100');
+        await user.click(screen.getByRole('button', { name: 'Go' }));
+
+        expect(chipLabels()).toEqual(['$50 to $100']);
+        expect(screen.getByRole('button', { name: '$50 to $100' })).toHaveAttribute('aria-pressed', 'true');
+        expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
+    it.each([
+        { min: '', max: '', error: 'Enter a min, a max or both' },
+        { min: '-5', max: '', error: 'Min must be a number of dollars, not negative' },
+        { min: '10', max: 'ten', error: 'Max must be a number of dollars, not negative' },
+        { min: '80', max: '20', error: 'Min must be less than max' },
+        { min: '30', max: '30', error: 'Min must be less than max' }
+    ])('refuses min "$min", max "$max" with an error and leaves the filter alone', async ({ min, max, error }) => {
+        const user = userEvent.setup();
+        render(<App />);
+        await user.click(screen.getByRole('button', { name: 'Under $25' }));
+        await user.clear(boxes().min);
+        await user.clear(boxes().max);
+        if (min) await user.type(boxes().min, min);
+        if (max) await user.type(boxes().max, max);
+        await user.click(screen.getByRole('button', { name: 'Go' }));
+
+        expect(screen.getByRole('alert')).toHaveTextContent(error);
+        expect(boxes().min).toHaveAttribute('aria-invalid', 'true');
+        expect(boxes().max).toHaveAttribute('aria-invalid', 'true');
+        expect(chipLabels()).toEqual(['Under $25']);
+    });
+
+    it.each([
+        { price: 24.99, bracket: 'Under $25' },
+        { price: 25, bracket: '$25 to $50' },
+        { price: 50, bracket: '$50 to $100' },
+        { price: 100, bracket: '$100 to $200' },
+        { price: 200, bracket: '$200 & Above' }
+    ])('puts a product priced $price in $bracket and no other bracket', ({ price, bracket }) => {
+        const facet = SIDEBAR_FACETS.find(candidate => candidate.kind === 'price');
+        if (facet?.kind !== 'price') throw new Error('The sidebar has no price facet');
+        const product = { ...CATALOG[0], price };
+        const matching = facet.brackets.filter(range => filterProducts([product], [facet], { [facet.id]: range }).length > 0);
+        expect(matching.map(priceRangeLabel)).toEqual([bracket]);
+    });
+
+    it('follows the value when it changes from outside, dropping a stale error', async () => {
+        const user = userEvent.setup();
+        render(<App />);
+        await user.type(boxes().min, '80');
+        await user.type(boxes().max, '20');
+        await user.click(screen.getByRole('button', { name: 'Go' }));
+        expect(screen.getByRole('alert')).toBeInTheDocument();
+
+        // A preset replaces what was typed
+        await user.click(screen.getByRole('button', { name: '$100 to $200' }));
+        expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+        expect(boxes().min).toHaveValue('100');
+        expect(boxes().max).toHaveValue('200');
+        expect(boxes().min).toHaveAttribute('aria-invalid', 'false');
+
+        // Clearing every filter empties the boxes
+        await user.click(screen.getByRole('button', { name: 'Clear all' }));
+        expect(boxes().min).toHaveValue('');
+        expect(boxes().max).toHaveValue('');
+
+        // So does going back to an address with another price
+        window.history.pushState(null, '', '/?price=10-30');
+        act(() => { window.dispatchEvent(new PopStateEvent('popstate')); });
+        expect(boxes().min).toHaveValue('10');
+        expect(boxes().max).toHaveValue('30');
+    });
+});
+
+describe('address bar', () => {
+    // Twelve results to a page
+    const lastPage = Math.ceil(CATALOG.length / 12);
+
+    it('tidies the address it is sent back to without adding a history entry', async () => {
+        const user = userEvent.setup();
+        render(<App />);
+        await user.click(screen.getByRole('button', { name: '4 stars & up' }));
+        expect(window.location.search).toBe('?rating=4');
+        const entries = window.history.length;
+
+        // An entry written by hand or by an older version, with parameters in another order and a page 1
+        window.history.pushState(null, '', '/?page=1&price=-25&rating=3');
+        const pushed = window.history.length;
+        act(() => { window.dispatchEvent(new PopStateEvent('popstate')); });
+
+        expect(window.location.search).toBe('?rating=3&price=-25');
+        expect(window.history.length).toBe(pushed);
+        expect(pushed).toBe(entries + 1);
+        expect(chipLabels()).toEqual(['3 Stars & Up', 'Under $25']);
+
+        // The next change the user makes is a step of its own again
+        await user.click(screen.getByRole('button', { name: '2 stars & up' }));
+        expect(window.history.length).toBe(pushed + 1);
+    });
+
+    it('stores a page past the end as the last page', async () => {
+        const user = userEvent.setup();
+        window.history.replaceState(null, '', '/?page=99');
+        const entries = window.history.length;
+        render(<App />);
+
+        const pages = screen.getByRole('navigation', { name: 'Pages' });
+        expect(within(pages).getByRole('button', { name: String(lastPage) })).toHaveAttribute('aria-current', 'page');
+        expect(window.location.search).toBe(`?page=${lastPage}`);
+        expect(window.history.length).toBe(entries);
+
+        // Previous goes one page back from the page on screen, not from page 99
+        await user.click(within(pages).getByRole('button', { name: 'Previous' }));
+        expect(within(pages).getByRole('button', { name: String(lastPage - 1) })).toHaveAttribute('aria-current', 'page');
+    });
+});
+
+describe('formatSearchState and parseSearchState', () => {
+    // A facet whose option values hold commas, which also separate values in the address
+    const SIZES: FacetConfig = {
+        kind: 'checkbox',
+        id: 'size',
+        field: 'condition',
+        title: 'Size',
+        options: [{ value: '10,5', label: '10.5' }, { value: '11', label: '11' }, { value: 'a&b=c', label: 'A&B' }]
+    };
+    const facets = [...SIDEBAR_FACETS, SIZES];
+    const empty = createFilterState(facets);
+    const search = (state: Partial<SearchState>): SearchState => ({ filters: empty, sort: 'featured', page: 1, ...state });
+
+    it.each([
+        { name: 'no filters', state: search({}), text: '' },
+        {
+            name: 'every kind of facet, sort and page',
+            state: search({
+                filters: { ...empty, delivery: ['prime'], department: 'headphones', rating: 4, price: { min: 25, max: 50 }, brand: ['sony', 'bose'] },
+                sort: 'price-asc',
+                page: 2
+            }),
+            text: '?delivery=prime&department=headphones&rating=4&price=25-50&brand=sony,bose&sort=price-asc&page=2'
+        },
+        { name: 'values with commas', state: search({ filters: { ...empty, size: ['10,5', '11', 'a&b=c'] } }), text: '?size=10%2C5,11,a%26b%3Dc' },
+        { name: 'a price with no minimum', state: search({ filters: { ...empty, price: { min: null, max: 25 } } }), text: '?price=-25' },
+        { name: 'a price with no maximum', state: search({ filters: { ...empty, price: { min: 200, max: null } } }), text: '?price=200-' }
+    ])('writes $name and reads it back', ({ state, text }) => {
+        expect(formatSearchState(facets, state)).toBe(text);
+        expect(parseSearchState(facets, text)).toEqual(state);
+    });
+
+    it('drops options, departments and ratings the sidebar does not offer', () => {
+        const parsed = parseSearchState(facets, '?brand=sony,acme&condition=broken&department=garden&rating=5&size=10,5&colour=red');
+        expect(parsed.filters).toEqual({ ...empty, brand: ['sony'] });
+        expect(formatSearchState(facets, parsed)).toBe('?brand=sony');
+    });
+
+    it.each([
+        { text: '?price=abc', price: null },
+        { text: '?price=50-25', price: null },
+        { text: '?price=30-30', price: null },
+        { text: '?price=--5', price: null },
+        { text: '?price=-', price: null },
+        { text: '?price=10.5-', price: { min: 10.5, max: null } }
+    ])('reads $text as price $price', ({ text, price }) => {
+        expect(parseSearchState(facets, text).filters.price).toEqual(price);
+    });
+
+    it.each(['?sort=cheapest&page=0', '?sort=&page=-2', '?sort=Price-Asc&page=1.5', '?sort=sort&page=two'])(
+        'falls back to the default sort and the first page for %s',
+        text => {
+            expect(parseSearchState(facets, text)).toEqual(search({}));
+        }
+    );
+});
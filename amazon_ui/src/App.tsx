@@ -1,53 +1,555 @@
-import React, { FC, useState } from 'react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState, type FC } from 'react';
 import { ChevronDown, ChevronUp, Star } from "lucide-react";
+import { CATALOG } from './data/catalog';
+import { SIDEBAR_FACETS } from './data/sidebarFacets';
+import {
+    createFilterState,
+    departmentPath,
+    facetValue,
+    filterChips,
+    formatPrice,
+    parsePriceRange,
+    priceRangeLabel,
+    samePriceRange,
+    type DepartmentNode,
+    type FacetConfig,
+    type FacetOption,
+    type FacetValueOf,
+    type FilterState,
+    type PriceRange
+} from './utils/facets';
+import {
+    SORT_LABELS,
+    filterProducts,
+    pageCount,
+    paginate,
+    sortProducts,
+    type Product,
+    type SortOption
+} from './utils/products';
+import { loadSectionExpanded, storeSectionExpanded } from './utils/sectionState';
+import { formatSearchState, parseSearchState, type SearchState } from './utils/urlState';
 // import './App.css'
 
 
+const RESULTS_PAGE_SIZE = 12;
+
 const App = () => {
-    // const [isPrime, isSetPrime] = useState<boolean>(false);
-    //
-    //
-    // const handlePrimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    //     isSetPrime(e.target.checked);
-    // }
+    // Every facet's selection, the order and the page, in one place the rest of the page can read;
+    // the address bar mirrors it so a search can be bookmarked, shared and walked with back/forward
+    const [search, setSearch] = useState<SearchState>(() => parseSearchState(SIDEBAR_FACETS, window.location.search));
+    const { filters, sort, page } = search;
+    const replaceEntry = useRef(true);
+
+    useEffect(() => {
+        const query = formatSearchState(SIDEBAR_FACETS, search);
+        // The first write, and the first after back/forward, only tidies the address the page is on
+        const replace = replaceEntry.current;
+        replaceEntry.current = false;
+        if (query === window.location.search) return;
+        const url = `${window.location.pathname}${query}${window.location.hash}`;
+        if (replace) window.history.replaceState(null, '', url);
+        else window.history.pushState(null, '', url);
+    }, [search]);
+
+    useEffect(() => {
+        const restore = () => {
+            replaceEntry.current = true;
+            setSearch(parseSearchState(SIDEBAR_FACETS, window.location.search));
+        };
+        window.addEventListener('popstate', restore);
+        return () => window.removeEventListener('popstate', restore);
+    }, []);
+
+    const results = useMemo(
+        () => sortProducts(filterProducts(CATALOG, SIDEBAR_FACETS, filters), sort),
+        [filters, sort]
+    );
+
+    // A page past the end is stored as the last page, so the address names the page on screen
+    const lastPage = pageCount(results.length, RESULTS_PAGE_SIZE);
+    if (page > lastPage) setSearch({ filters, sort, page: lastPage });
+
+    // A different selection or order starts again from the first page
+    const changeFilters = (next: FilterState) => setSearch({ filters: next, sort, page: 1 });
+
+    const changeSort = (next: SortOption) => setSearch({ filters, sort: next, page: 1 });
+
+    const changePage = (next: number) => setSearch({ filters, sort, page: next });
+
+    return (
+        <div style={{ display: 'flex', gap: '20px', alignItems: 'flex-start', textAlign: 'left' }}>
+            <FacetSidebar
+                facets={SIDEBAR_FACETS}
+                value={filters}
+                onChange={changeFilters}
+            />
+            <SearchResults
+                results={results}
+                filters={filters}
+                onFiltersChange={changeFilters}
+                sort={sort}
+                onSortChange={changeSort}
+                page={page}
+                onPageChange={changePage}
+            />
+        </div>
+    )
+}
+
+
+//results: count and sort, active filter chips, the product grid and pages
+type searchResultsItems = {
+    results: Product[];
+    filters: FilterState;
+    onFiltersChange: (value: FilterState) => void;
+    sort: SortOption;
+    onSortChange: (value: SortOption) => void;
+    page: number;
+    onPageChange: (value: number) => void;
+}
+
+const SearchResults: FC<searchResultsItems> = ({ results, filters, onFiltersChange, sort, onSortChange, page, onPageChange }) => {
+    const current = paginate(results, page, RESULTS_PAGE_SIZE);
+    const chips = filterChips(SIDEBAR_FACETS, filters);
+
+    return (
+        <main style={{ flex: 1 }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', borderBottom: '1px solid #ddd', paddingBottom: '5px' }}>
+                <span role="status">
+                    {results.length === 0
+                        ? 'No results'
+                        : `${current.start + 1}-${current.start + current.items.length} of ${results.length} results`}
+                </span>
+                <label>
+                    Sort by:{' '}
+                    <select value={sort} onChange={e => onSortChange(e.target.value as SortOption)}>
+                        {(Object.keys(SORT_LABELS) as SortOption[]).map(option => (
+                            <option key={option} value={option}>{SORT_LABELS[option]}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {chips.length > 0 && (
+                <ul aria-label="Active filters" style={{ listStyle: 'none', display: 'flex', flexWrap: 'wrap', gap: '5px', padding: 0 }}>
+                    {chips.map(chip => (
+                        <li key={chip.key}>
+                            <button type="button" onClick={() => onFiltersChange(chip.without)} aria-label={`Remove filter ${chip.label}`}>
+                                {chip.label} ×
+                            </button>
+                        </li>
+                    ))}
+                    <li>
+                        <button type="button" onClick={() => onFiltersChange(createFilterState(SIDEBAR_FACETS))}>
+                            Clear all
+                        </button>
+                    </li>
+                </ul>
+            )}
+
+            {results.length === 0 ? (
+                <p>No products match these filters. Try removing some of them.</p>
+            ) : (
+                <ul style={{ listStyle: 'none', padding: 0, display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: '15px' }}>
+                    {current.items.map(product => (
+                        <li key={product.id}>
+                            <ProductCard product={product} />
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <Pagination
+                page={current.page}
+                pageCount={pageCount(results.length, RESULTS_PAGE_SIZE)}
+                onChange={onPageChange}
+            />
+        </main>
+    );
+};
+
+
+//one product in the grid
+type productCardItems = {
+    product: Product;
+}
+
+const ProductCard: FC<productCardItems> = ({ product }) => {
+    return (
+        <article style={{ border: '1px solid #ddd', borderRadius: '4px', padding: '10px', height: '100%', boxSizing: 'border-box' }}>
+            <h4 style={{ margin: '0 0 5px 0', fontSize: '15px' }}>{product.title}</h4>
+            <div aria-label={`${product.rating} out of 5 stars, ${product.reviewCount} ratings`}>
+                <StarRating rating={product.rating} size={14} />
+                <span aria-hidden="true" style={{ fontSize: '13px', marginLeft: '5px' }}>{product.reviewCount.toLocaleString()}</span>
+            </div>
+            <div style={{ fontSize: '20px', margin: '5px 0' }}>{formatPrice(product.price)}</div>
+            {product.delivery === 'prime' && <div style={{ color: '#00a8e1', fontWeight: 'bold', fontSize: '13px' }}>prime</div>}
+            {product.condition !== 'new' && <div style={{ fontSize: '13px', color: '#565959' }}>{product.condition === 'used' ? 'Used' : 'Renewed'}</div>}
+        </article>
+    );
+};
+
+
+//page links under the results
+type paginationItems = {
+    page: number;
+    pageCount: number;
+    onChange: (value: number) => void;
+}
+
+const Pagination: FC<paginationItems> = ({ page, pageCount, onChange }) => {
+    if (pageCount <= 1) return null;
+
+    return (
+        <nav aria-label="Pages" style={{ display: 'flex', gap: '5px', justifyContent: 'center', margin: '15px 0' }}>
+            <button type="button" onClick={() => onChange(page - 1)} disabled={page <= 1}>Previous</button>
+            {Array.from({ length: pageCount }, (_, index) => index + 1).map(number => (
+                <button
+                    key={number}
+                    type="button"
+                    onClick={() => onChange(number)}
+                    aria-current={number === page ? 'page' : undefined}
+                    style={{ fontWeight: number === page ? 'bold' : 'normal' }}
+                >
+                    {number}
+                </button>
+            ))}
+            <button type="button" onClick={() => onChange(page + 1)} disabled={page >= pageCount}>Next</button>
+        </nav>
+    );
+};
+
+
+//sidebar generated from the facet config
+type facetSidebarItems = {
+    facets: FacetConfig[];
+    value: FilterState;
+    onChange: (value: FilterState) => void;
+}
+
+const FacetSidebar: FC<facetSidebarItems> = ({ facets, value, onChange }) => {
+    return (
+        <aside aria-label="Filters" style={{ width: '240px', flexShrink: 0 }}>
+            {facets.map(facet => {
+                const change = (facetValue: FilterState[string]) => onChange({ ...value, [facet.id]: facetValue });
+                return (
+                    <FilterComponent
+                        key={facet.id}
+                        id={facet.id}
+                        title={facet.title}
+                        isCollapsible
+                        visibleCount={facet.kind === 'brand' ? facet.visibleCount : undefined}
+                        alwaysVisible={facet.kind === 'brand' ? facet.options.map(option => facetValue(value, facet).includes(option.value)) : undefined}
+                    >
+                        {/* Options are direct children, so the section can shorten long lists */}
+                        {facet.kind === 'checkbox' || facet.kind === 'brand'
+                            ? checkBoxOptions(facet.id, facet.options, facetValue(value, facet), change)
+                            : <FacetControl facet={facet} value={value} onChange={change} />}
+                    </FilterComponent>
+                );
+            })}
+        </aside>
+    );
+};
+
+
+//picks the control for a facet's kind; every control gets its value and reports the next one
+type facetControlItems = {
+    facet: Exclude<FacetConfig, { kind: 'checkbox' | 'brand' }>;
+    value: FilterState;
+    onChange: (value: FilterState[string]) => void;
+}
+
+const FacetControl: FC<facetControlItems> = ({ facet, value, onChange }) => {
+    switch (facet.kind) {
+        case 'rating':
+            return <RatingFacet facet={facet} value={facetValue(value, facet)} onChange={onChange} />;
+        case 'price':
+            return <PriceFacet facet={facet} value={facetValue(value, facet)} onChange={onChange} />;
+        case 'department':
+            return <DepartmentFacet facet={facet} value={facetValue(value, facet)} onChange={onChange} />;
+    }
+};
+
+// The controlled-value contract every facet control follows
+type facetItems<F extends FacetConfig> = {
+    facet: F;
+    value: FacetValueOf<F>;
+    onChange: (value: FacetValueOf<F>) => void;
+}
+
+type Facet<K extends FacetConfig['kind']> = Extract<FacetConfig, { kind: K }>;
+
+
+//checkbox list, one checkbox per option
+const checkBoxOptions = (idPrefix: string, options: FacetOption[], value: string[], onChange: (value: string[]) => void) =>
+    options.map(option => (
+        <CheckBoxComponent
+            key={option.value}
+            id={`${idPrefix}-${option.value}`}
+            label={option.label}
+            checked={value.includes(option.value)}
+            onChange={checked => onChange(checked
+                ? [...value, option.value]
+                : value.filter(selected => selected !== option.value))}
+        />
+    ));
 
 
+//star icons, filled up to the rating
+const MAX_STARS = 5;
+
+type starRatingItems = {
+    rating: number;
+    size?: number;
+}
+
+const StarRating: FC<starRatingItems> = ({ rating, size = 16 }) => {
+    return (
+        <span aria-hidden="true" style={{ display: 'inline-flex', verticalAlign: 'middle' }}>
+            {Array.from({ length: MAX_STARS }, (_, index) => (
+                <Star
+                    key={index}
+                    size={size}
+                    color="#ffa41c"
+                    fill={index < Math.round(rating) ? '#ffa41c' : 'none'}
+                />
+            ))}
+        </span>
+    );
+};
+
+
+//minimum customer rating, "4 stars & up"
+const RatingFacet: FC<facetItems<Facet<'rating'>>> = ({ facet, value, onChange }) => {
+    return (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+            {facet.levels.map(level => (
+                <li key={level}>
+                    {/* Clicking the chosen rating again clears it */}
+                    <button
+                        type="button"
+                        aria-pressed={value === level}
+                        aria-label={`${level} stars & up`}
+                        onClick={() => onChange(value === level ? null : level)}
+                        style={{ fontWeight: value === level ? 'bold' : 'normal' }}
+                    >
+                        <StarRating rating={level} /> & Up
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+
+//price brackets, plus a custom min/max
+const priceDraft = (range: PriceRange | null) => ({
+    min: range && range.min !== null ? String(range.min) : '',
+    max: range && range.max !== null ? String(range.max) : ''
+});
+
+const PriceFacet: FC<facetItems<Facet<'price'>>> = ({ facet, value, onChange }) => {
+    const [draft, setDraft] = useState(() => priceDraft(value));
+    const [error, setError] = useState<string | null>(null);
+    // The boxes follow the value when it changes from outside, like a preset or clearing all filters
+    const [shownValue, setShownValue] = useState(value);
+    if (!samePriceRange(shownValue, value)) {
+        setShownValue(value);
+        setDraft(priceDraft(value));
+        setError(null);
+    }
+
+    const submit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const result = parsePriceRange(draft.min, draft.max);
+        setError(result.error);
+        if (result.range) onChange(result.range);
+    };
+
     return (
         <>
-            <FilterComponent title="Amazon Prime">
-                {/*checbox*/}
-                <CheckBoxComponent 
-                    id="prime"
-                    label="prime"
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+                {facet.brackets.map(bracket => {
+                    const selected = samePriceRange(value, bracket);
+                    return (
+                        <li key={priceRangeLabel(bracket)}>
+                            <button
+                                type="button"
+                                aria-pressed={selected}
+                                onClick={() => onChange(selected ? null : bracket)}
+                                style={{ fontWeight: selected ? 'bold' : 'normal' }}
+                            >
+                                {priceRangeLabel(bracket)}
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+            <form onSubmit={submit} noValidate style={{ display: 'flex', gap: '5px', alignItems: 'center', marginTop: '5px' }}>
+                {/* Text boxes, not number ones: a number box reports text it cannot read as empty, which would
+                    drop the bad bound without a word instead of reaching parsePriceRange */}
+                <input
+                    type="text"
+                    inputMode="decimal"
+                    value={draft.min}
+                    onChange={e => setDraft({ ...draft, min: e.target.value })}
+                    placeholder="$ Min"
+                    aria-label={`${facet.title} minimum`}
+                    aria-invalid={error !== null}
+                    style={{ width: '60px' }}
+                />
+                <input
+                    type="text"
+                    inputMode="decimal"
+                    value={draft.max}
+                    onChange={e => setDraft({ ...draft, max: e.target.value })}
+                    placeholder="$ Max"
+                    aria-label={`${facet.title} maximum`}
+                    aria-invalid={error !== null}
+                    style={{ width: '60px' }}
                 />
-            </FilterComponent>
+                <button type="submit">Go</button>
+            </form>
+            {error && <div role="alert" style={{ color: '#b12704', fontSize: '12px' }}>{error}</div>}
         </>
-    )
-}
+    );
+};
+
+
+//single-select department tree: the path to the chosen department, then its subdepartments
+const DepartmentFacet: FC<facetItems<Facet<'department'>>> = ({ facet, value, onChange }) => {
+    const path = value === null ? [] : departmentPath(facet.departments, value);
+    const current = path[path.length - 1];
+    const choices: DepartmentNode[] = current ? current.children ?? [] : facet.departments;
+
+    return (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+            {current && (
+                <li>
+                    <button type="button" onClick={() => onChange(null)}>‹ Any Department</button>
+                </li>
+            )}
+            {path.map((node, depth) => (
+                <li key={node.value} style={{ paddingLeft: `${depth * 10}px` }}>
+                    <button
+                        type="button"
+                        aria-current={node === current ? 'true' : undefined}
+                        onClick={() => onChange(node.value)}
+                        style={{ fontWeight: node === current ? 'bold' : 'normal' }}
+                    >
+                        {node.label}
+                    </button>
+                </li>
+            ))}
+            {choices.map(node => (
+                <li key={node.value} style={{ paddingLeft: `${path.length * 10}px` }}>
+                    <button type="button" onClick={() => onChange(node.value)}>{node.label}</button>
+                </li>
+            ))}
+        </ul>
+    );
+};
 
 
 //filter component
 type filterComponentItems = {
+    // Keys the remembered expanded state and the panel's element id
+    id: string;
     title: string;
     children: React.ReactNode;
     isCollapsible?: boolean;
+    // Children past this many stay hidden until "Show N more"
+    visibleCount?: number;
+    // By child index, the ones shown even past visibleCount, such as ticked options
+    alwaysVisible?: boolean[];
 }
 
-const FilterComponent: FC<filterComponentItems> = ({ title, children, isCollapsible = false }) => {
-    const [expanded, setExpanded] = useState(true);
+const prefersReducedMotion = () => window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+const FilterComponent: FC<filterComponentItems> = ({ id, title, children, isCollapsible = false, visibleCount, alwaysVisible = [] }) => {
+    const [expanded, setExpanded] = useState(() => !isCollapsible || loadSectionExpanded(id, true));
+    const [showAll, setShowAll] = useState(false);
+    const panelRef = useRef<HTMLDivElement>(null);
+    const panelId = `filter-section-${id}`;
+
+    // The panel's height slides between 0 and its content's height, then goes back to auto so the content can
+    // still grow; collapsed content is hidden once the slide ends, so it cannot be tabbed into
+    useLayoutEffect(() => {
+        const panel = panelRef.current;
+        if (!panel) return;
+        if (panel.style.height === '' || prefersReducedMotion()) {
+            panel.style.height = expanded ? 'auto' : '0px';
+            panel.style.visibility = expanded ? '' : 'hidden';
+            return;
+        }
+        // Already there, as when StrictMode runs the effect a second time
+        if (panel.style.height === (expanded ? 'auto' : '0px')) return;
+        panel.style.visibility = '';
+        if (expanded) {
+            panel.style.height = `${panel.scrollHeight}px`;
+        } else {
+            // From auto there is nothing to animate, so pin the current height first
+            panel.style.height = `${panel.scrollHeight}px`;
+            void panel.offsetHeight;
+            panel.style.height = '0px';
+        }
+    }, [expanded]);
+
+    const handleTransitionEnd = (e: React.TransitionEvent<HTMLDivElement>) => {
+        const panel = panelRef.current;
+        if (!panel || e.target !== panel || e.propertyName !== 'height') return;
+        if (expanded) {
+            panel.style.height = 'auto';
+        } else {
+            panel.style.visibility = 'hidden';
+        }
+    };
+
+    const toggle = () => {
+        setExpanded(!expanded);
+        storeSectionExpanded(id, !expanded);
+    };
+
+    const items = React.Children.toArray(children);
+    const shortList = visibleCount === undefined
+        ? items
+        : items.filter((_, index) => index < visibleCount || alwaysVisible[index]);
+    const overflow = items.length - shortList.length;
 
     return (
-        <div>
+        <section>
+            <h3 style={{ margin: '10px 0 5px 0' }}>
+                {isCollapsible ? (
+                    <button
+                        type="button"
+                        aria-expanded={expanded}
+                        aria-controls={panelId}
+                        onClick={toggle}
+                        style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', width: '100%', padding: 0, border: 'none', background: 'none', font: 'inherit', color: 'inherit', cursor: 'pointer' }}
+                    >
+                        {title}
+                        {expanded ? <ChevronUp size={14} aria-hidden="true" /> : <ChevronDown size={14} aria-hidden="true" />}
+                    </button>
+                ) : title}
+            </h3>
             <div
-                onClick={() => isCollapsible && setExpanded(!expanded)}
+                id={panelId}
+                ref={panelRef}
+                onTransitionEnd={handleTransitionEnd}
+                style={{ overflow: 'hidden', transition: 'height 200ms ease' }}
             >
-                <h3>{title}</h3>
-                {isCollapsible && (
-                    expanded? <ChevronUp size={10} />: <ChevronDown size={10} /> 
+                <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-start' }}>
+                    {showAll ? items : shortList}
+                </div>
+                {overflow > 0 && (
+                    <button type="button" onClick={() => setShowAll(!showAll)} aria-expanded={showAll}>
+                        {showAll ? 'Show less' : `Show ${overflow} more`}
+                    </button>
                 )}
             </div>
-            <div>{children}</div>
-        </div>
+        </section>
     );
 };
 
@@ -55,24 +557,24 @@ const FilterComponent: FC<filterComponentItems> = ({ title, children, isCollapsi
 type checkBoxComponenetItems = {
     id: string;
     label: string;
+    checked: boolean;
+    onChange: (checked: boolean) => void;
     disabled?: boolean;
-    defaultChecked?: boolean;
 }
 
-const CheckBoxComponent: FC<checkBoxComponenetItems> = ({label, id, disabled = false}) => {
-    const [isChecked, setIsChecked] = useState(false);
+const CheckBoxComponent: FC<checkBoxComponenetItems> = ({label, id, checked, onChange, disabled = false}) => {
     return (
         <label>
-            <input 
+            <input
                 type="checkbox"
                 id={id}
                 disabled={disabled}
-                onChange={e => setIsChecked(e.target.checked)}
-                defaultChecked={isChecked}
+                onChange={e => onChange(e.target.checked)}
+                checked={checked}
             />
             {label}
         </label>
-    ) 
+    )
 }
 
 export default App
@@ -0,0 +1,37 @@
+import type { Product } from '../utils/products';
+
+// Mock catalog standing in for a search API, in "Featured" order
+export const CATALOG: Product[] = [
+    { id: 'p01', title: 'Sony WH-1000XM5 Wireless Noise Canceling Headphones', brand: 'sony', department: 'headphones', price: 348, rating: 4.6, reviewCount: 18234, delivery: 'prime', condition: 'new', listedAt: '2024-05-12' },
+    { id: 'p02', title: 'Bose QuietComfort Ultra Earbuds', brand: 'bose', department: 'headphones', price: 279, rating: 4.4, reviewCount: 6120, delivery: 'prime', condition: 'new', listedAt: '2024-09-03' },
+    { id: 'p03', title: 'JBL Flip 6 Portable Bluetooth Speaker', brand: 'jbl', department: 'speakers', price: 99.95, rating: 4.8, reviewCount: 40211, delivery: 'prime', condition: 'new', listedAt: '2023-11-20' },
+    { id: 'p04', title: 'Anker Soundcore 2 Portable Speaker', brand: 'anker', department: 'speakers', price: 39.99, rating: 4.5, reviewCount: 92310, delivery: 'prime', condition: 'new', listedAt: '2022-04-02' },
+    { id: 'p05', title: 'Canon EOS R50 Mirrorless Camera with 18-45mm Lens', brand: 'canon', department: 'cameras', price: 679, rating: 4.7, reviewCount: 2104, delivery: 'standard', condition: 'new', listedAt: '2024-02-14' },
+    { id: 'p06', title: 'Nikon Z fc Mirrorless Camera Body', brand: 'nikon', department: 'cameras', price: 756.95, rating: 4.6, reviewCount: 1489, delivery: 'prime', condition: 'new', listedAt: '2023-08-30' },
+    { id: 'p07', title: "De'Longhi Dedica Espresso Machine", brand: 'delonghi', department: 'coffee', price: 199.95, rating: 4.2, reviewCount: 15502, delivery: 'prime', condition: 'new', listedAt: '2023-03-17' },
+    { id: 'p08', title: 'Nespresso Vertuo Next Coffee and Espresso Maker', brand: 'nespresso', department: 'coffee', price: 159, rating: 4.3, reviewCount: 48770, delivery: 'prime', condition: 'new', listedAt: '2024-07-08' },
+    { id: 'p09', title: 'Tefal Ingenio Cookware Set, 13 Pieces', brand: 'tefal', department: 'cookware', price: 129.99, rating: 4.7, reviewCount: 9833, delivery: 'standard', condition: 'new', listedAt: '2023-10-01' },
+    { id: 'p10', title: 'The Midnight Library (Paperback)', brand: 'penguin', department: 'books', price: 11.49, rating: 4.3, reviewCount: 152004, delivery: 'prime', condition: 'new', listedAt: '2021-09-28' },
+    { id: 'p11', title: 'Sony SRS-XB100 Compact Bluetooth Speaker', brand: 'sony', department: 'speakers', price: 48, rating: 4.5, reviewCount: 7421, delivery: 'prime', condition: 'new', listedAt: '2024-04-22' },
+    { id: 'p12', title: 'Bose SoundLink Flex Bluetooth Speaker (Renewed)', brand: 'bose', department: 'speakers', price: 99, rating: 3.9, reviewCount: 812, delivery: 'standard', condition: 'renewed', listedAt: '2024-06-15' },
+    { id: 'p13', title: 'JBL Tune 510BT Wireless On-Ear Headphones', brand: 'jbl', department: 'headphones', price: 29.95, rating: 4.5, reviewCount: 101872, delivery: 'prime', condition: 'new', listedAt: '2022-01-11' },
+    { id: 'p14', title: 'Anker Soundcore Life Q30 Headphones', brand: 'anker', department: 'headphones', price: 79.99, rating: 4.4, reviewCount: 77345, delivery: 'prime', condition: 'new', listedAt: '2022-08-19' },
+    { id: 'p15', title: 'Canon PowerShot SX740 HS Compact Camera (Used)', brand: 'canon', department: 'cameras', price: 289, rating: 3.6, reviewCount: 341, delivery: 'standard', condition: 'used', listedAt: '2024-01-09' },
+    { id: 'p16', title: 'Nikon Coolpix P950 Bridge Camera (Renewed)', brand: 'nikon', department: 'cameras', price: 649, rating: 4.1, reviewCount: 1203, delivery: 'standard', condition: 'renewed', listedAt: '2023-05-26' },
+    { id: 'p17', title: "De'Longhi Magnifica Evo Bean-to-Cup Machine", brand: 'delonghi', department: 'coffee', price: 549.95, rating: 4.4, reviewCount: 5310, delivery: 'prime', condition: 'new', listedAt: '2024-10-02' },
+    { id: 'p18', title: 'Nespresso Essenza Mini (Used - Like New)', brand: 'nespresso', department: 'coffee', price: 89, rating: 3.4, reviewCount: 207, delivery: 'standard', condition: 'used', listedAt: '2024-03-05' },
+    { id: 'p19', title: 'Tefal Unlimited Non-Stick Frying Pan, 28 cm', brand: 'tefal', department: 'cookware', price: 34.99, rating: 4.6, reviewCount: 21450, delivery: 'prime', condition: 'new', listedAt: '2023-06-12' },
+    { id: 'p20', title: 'Tefal Jamie Oliver Stainless Steel Saucepan Set', brand: 'tefal', department: 'cookware', price: 89.99, rating: 4.1, reviewCount: 3380, delivery: 'prime', condition: 'new', listedAt: '2022-11-30' },
+    { id: 'p21', title: 'Atomic Habits (Hardcover)', brand: 'penguin', department: 'books', price: 14.99, rating: 4.8, reviewCount: 134509, delivery: 'prime', condition: 'new', listedAt: '2020-10-16' },
+    { id: 'p22', title: 'Pride and Prejudice, Penguin Classics (Used)', brand: 'penguin', department: 'books', price: 4.5, rating: 2.8, reviewCount: 96, delivery: 'standard', condition: 'used', listedAt: '2024-08-21' },
+    { id: 'p23', title: 'Sony ZV-1F Vlog Camera', brand: 'sony', department: 'cameras', price: 498, rating: 4.2, reviewCount: 1755, delivery: 'prime', condition: 'new', listedAt: '2024-09-18' },
+    { id: 'p24', title: 'Bose QuietComfort 45 Headphones (Renewed)', brand: 'bose', department: 'headphones', price: 189, rating: 4.0, reviewCount: 2290, delivery: 'prime', condition: 'renewed', listedAt: '2023-12-04' },
+    { id: 'p25', title: 'JBL PartyBox Encore Essential Speaker', brand: 'jbl', department: 'speakers', price: 299.95, rating: 4.6, reviewCount: 3107, delivery: 'standard', condition: 'new', listedAt: '2024-05-30' },
+    { id: 'p26', title: 'Anker Soundcore Motion 300 Speaker', brand: 'anker', department: 'speakers', price: 79.99, rating: 4.4, reviewCount: 5618, delivery: 'prime', condition: 'new', listedAt: '2024-08-07' },
+    { id: 'p27', title: 'Canon RF 50mm F1.8 STM Lens', brand: 'canon', department: 'cameras', price: 199, rating: 4.8, reviewCount: 4830, delivery: 'prime', condition: 'new', listedAt: '2021-03-23' },
+    { id: 'p28', title: 'Nespresso Aeroccino 3 Milk Frother', brand: 'nespresso', department: 'coffee', price: 99, rating: 2.4, reviewCount: 11234, delivery: 'prime', condition: 'new', listedAt: '2021-12-13' },
+    { id: 'p29', title: "De'Longhi Stilosa Manual Espresso Machine (Renewed)", brand: 'delonghi', department: 'coffee', price: 69.99, rating: 3.8, reviewCount: 978, delivery: 'standard', condition: 'renewed', listedAt: '2024-02-27' },
+    { id: 'p30', title: 'The Penguin Book of Dragons (Paperback)', brand: 'penguin', department: 'books', price: 18, rating: 4.4, reviewCount: 612, delivery: 'prime', condition: 'new', listedAt: '2024-10-10' },
+    { id: 'p31', title: 'Sony MDR-ZX110 Wired Headphones', brand: 'sony', department: 'headphones', price: 9.99, rating: 4.4, reviewCount: 215630, delivery: 'prime', condition: 'new', listedAt: '2019-07-01' },
+    { id: 'p32', title: 'Tefal Air Fry Cookware Liner Set (Used)', brand: 'tefal', department: 'cookware', price: 14, rating: 1.9, reviewCount: 43, delivery: 'standard', condition: 'used', listedAt: '2024-04-11' }
+];
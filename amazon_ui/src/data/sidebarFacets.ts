@@ -0,0 +1,88 @@
+import type { FacetConfig } from '../utils/facets';
+
+// The sidebar, top to bottom
+export const SIDEBAR_FACETS: FacetConfig[] = [
+    {
+        kind: 'checkbox',
+        id: 'delivery',
+        field: 'delivery',
+        title: 'Amazon Prime',
+        options: [{ value: 'prime', label: 'prime' }]
+    },
+    {
+        kind: 'department',
+        id: 'department',
+        field: 'department',
+        title: 'Department',
+        departments: [
+            {
+                value: 'electronics',
+                label: 'Electronics',
+                children: [
+                    { value: 'headphones', label: 'Headphones' },
+                    { value: 'speakers', label: 'Speakers' },
+                    { value: 'cameras', label: 'Cameras' }
+                ]
+            },
+            {
+                value: 'home-kitchen',
+                label: 'Home & Kitchen',
+                children: [
+                    { value: 'coffee', label: 'Coffee Machines' },
+                    { value: 'cookware', label: 'Cookware' }
+                ]
+            },
+            { value: 'books', label: 'Books' }
+        ]
+    },
+    {
+        kind: 'rating',
+        id: 'rating',
+        field: 'rating',
+        title: 'Customer Reviews',
+        levels: [4, 3, 2, 1]
+    },
+    {
+        kind: 'price',
+        id: 'price',
+        field: 'price',
+        title: 'Price',
+        brackets: [
+            { min: null, max: 25 },
+            { min: 25, max: 50 },
+            { min: 50, max: 100 },
+            { min: 100, max: 200 },
+            { min: 200, max: null }
+        ]
+    },
+    {
+        kind: 'brand',
+        id: 'brand',
+        field: 'brand',
+        title: 'Brands',
+        visibleCount: 5,
+        options: [
+            { value: 'sony', label: 'Sony' },
+            { value: 'bose', label: 'Bose' },
+            { value: 'jbl', label: 'JBL' },
+            { value: 'anker', label: 'Anker' },
+            { value: 'canon', label: 'Canon' },
+            { value: 'nikon', label: 'Nikon' },
+            { value: 'delonghi', label: "De'Longhi" },
+            { value: 'nespresso', label: 'Nespresso' },
+            { value: 'tefal', label: 'Tefal' },
+            { value: 'penguin', label: 'Penguin Books' }
+        ]
+    },
+    {
+        kind: 'checkbox',
+        id: 'condition',
+        field: 'condition',
+        title: 'Condition',
+        options: [
+            { value: 'new', label: 'New' },
+            { value: 'renewed', label: 'Renewed' },
+            { value: 'used', label: 'Used' }
+        ]
+    }
+];
@@ -0,0 +1,178 @@
+import type { NumberField, TextField } from './products';
+
+// The sidebar is generated from a list of facet configs; what the shopper has picked lives in one
+// FilterState object keyed by facet id, owned by the app and handed down to every facet.
+
+export interface FacetOption {
+    value: string;
+    label: string;
+}
+
+// Either bound may be open; in dollars, from min up to but not including max, so neighbouring brackets share no price
+export interface PriceRange {
+    min: number | null;
+    max: number | null;
+}
+
+export interface DepartmentNode {
+    value: string;
+    label: string;
+    children?: DepartmentNode[];
+}
+
+// field is the product property the facet filters on
+export type FacetConfig =
+    | { kind: 'checkbox'; id: string; title: string; field: TextField; options: FacetOption[] }
+    // Minimum star counts offered, highest first
+    | { kind: 'rating'; id: string; title: string; field: NumberField; levels: number[] }
+    | { kind: 'price'; id: string; title: string; field: NumberField; brackets: PriceRange[] }
+    // Only the first visibleCount brands and any ticked ones show until "Show N more" is clicked
+    | { kind: 'brand'; id: string; title: string; field: TextField; options: FacetOption[]; visibleCount: number }
+    // Products are filed under the leaf departments; picking a parent matches everything below it
+    | { kind: 'department'; id: string; title: string; field: TextField; departments: DepartmentNode[] };
+
+export type FacetKind = FacetConfig['kind'];
+
+// What each kind of facet holds: ticked values, a minimum rating, a price range or one department
+export interface FacetValues {
+    checkbox: string[];
+    rating: number | null;
+    price: PriceRange | null;
+    brand: string[];
+    department: string | null;
+}
+
+export type FacetValueOf<F extends FacetConfig> = FacetValues[F['kind']];
+
+export interface FilterState {
+    [facetId: string]: FacetValues[FacetKind];
+}
+
+export const emptyFacetValue = <F extends FacetConfig>(facet: F): FacetValueOf<F> => {
+    switch (facet.kind) {
+        case 'checkbox':
+        case 'brand':
+            return [] as string[] as FacetValueOf<F>;
+        default:
+            return null as FacetValueOf<F>;
+    }
+};
+
+export const createFilterState = (facets: FacetConfig[]): FilterState => {
+    const state: FilterState = {};
+    facets.forEach(facet => {
+        state[facet.id] = emptyFacetValue(facet);
+    });
+    return state;
+};
+
+// A facet missing from the state counts as empty
+export const facetValue = <F extends FacetConfig>(state: FilterState, facet: F): FacetValueOf<F> =>
+    (state[facet.id] ?? emptyFacetValue(facet)) as FacetValueOf<F>;
+
+export const isFacetActive = (value: FacetValues[FacetKind]) =>
+    Array.isArray(value) ? value.length > 0 : value !== null;
+
+// The department and every department below it, for matching products filed deeper in the tree
+export const departmentBranch = (departments: DepartmentNode[], value: string): string[] => {
+    for (const node of departments) {
+        if (node.value === value) {
+            const values: string[] = [];
+            const collect = (current: DepartmentNode) => {
+                values.push(current.value);
+                current.children?.forEach(collect);
+            };
+            collect(node);
+            return values;
+        }
+        const below = departmentBranch(node.children ?? [], value);
+        if (below.length > 0) return below;
+    }
+    return [];
+};
+
+// Departments from the top down to the given one; empty when it is not in the tree
+export const departmentPath = (departments: DepartmentNode[], value: string): DepartmentNode[] => {
+    for (const node of departments) {
+        if (node.value === value) return [node];
+        const below = departmentPath(node.children ?? [], value);
+        if (below.length > 0) return [node, ...below];
+    }
+    return [];
+};
+
+// Whole amounts without cents, like the brackets; anything else to the cent
+export const formatPrice = (amount: number) => `$${amount.toFixed(Number.isInteger(amount) ? 0 : 2)}`;
+
+export const priceRangeLabel = ({ min, max }: PriceRange) => {
+    if (min === null && max === null) return 'Any price';
+    if (min === null) return `Under ${formatPrice(max as number)}`;
+    if (max === null) return `${formatPrice(min)} & Above`;
+    return `${formatPrice(min)} to ${formatPrice(max)}`;
+};
+
+export interface PriceRangeParseResult {
+    range: PriceRange | null;
+    error: string | null;
+}
+
+// Reads the custom min/max boxes; either may be left empty, but not both
+export const parsePriceRange = (minText: string, maxText: string): PriceRangeParseResult => {
+    const read = (text: string, name: string) => {
+        const trimmed = text.trim();
+        if (trimmed === '') return { amount: null, error: null };
+        const amount = Number(trimmed);
+        if (!Number.isFinite(amount) || amount < 0) return { amount: null, error: `${name} must be a number of dollars, not negative` };
+        return { amount, error: null };
+    };
+    const min = read(minText, 'Min');
+    const max = read(maxText, 'Max');
+    const error = min.error ?? max.error;
+    if (error) return { range: null, error };
+    if (min.amount === null && max.amount === null) return { range: null, error: 'Enter a min, a max or both' };
+    if (min.amount !== null && max.amount !== null && min.amount >= max.amount) {
+        return { range: null, error: 'Min must be less than max' };
+    }
+    return { range: { min: min.amount, max: max.amount }, error: null };
+};
+
+export const samePriceRange = (a: PriceRange | null, b: PriceRange | null) =>
+    a?.min === b?.min && a?.max === b?.max && (a === null) === (b === null);
+
+export interface FilterChip {
+    key: string;
+    label: string;
+    // The filter state with just this selection taken out
+    without: FilterState;
+}
+
+// One chip per selection, in sidebar order, for showing and removing active filters above the results
+export const filterChips = (facets: FacetConfig[], state: FilterState): FilterChip[] =>
+    facets.flatMap((facet): FilterChip[] => {
+        const cleared = { ...state, [facet.id]: emptyFacetValue(facet) };
+        switch (facet.kind) {
+            case 'checkbox':
+            case 'brand': {
+                const selected = facetValue(state, facet);
+                return selected.map(value => ({
+                    key: `${facet.id}:${value}`,
+                    label: facet.options.find(option => option.value === value)?.label ?? value,
+                    without: { ...state, [facet.id]: selected.filter(other => other !== value) }
+                }));
+            }
+            case 'rating': {
+                const minimum = facetValue(state, facet);
+                return minimum === null ? [] : [{ key: facet.id, label: `${minimum} Stars & Up`, without: cleared }];
+            }
+            case 'price': {
+                const range = facetValue(state, facet);
+                return range === null ? [] : [{ key: facet.id, label: priceRangeLabel(range), without: cleared }];
+            }
+            case 'department': {
+                const department = facetValue(state, facet);
+                if (department === null) return [];
+                const path = departmentPath(facet.departments, department);
+                return [{ key: facet.id, label: path[path.length - 1]?.label ?? department, without: cleared }];
+            }
+        }
+    });
@@ -0,0 +1,92 @@
+import {
+    departmentBranch,
+    facetValue,
+    type FacetConfig,
+    type FilterState
+} from './facets';
+
+export type Delivery = 'prime' | 'standard';
+export type Condition = 'new' | 'renewed' | 'used';
+
+export interface Product {
+    id: string;
+    title: string;
+    // Brand and department are the option values the sidebar uses
+    brand: string;
+    department: string;
+    price: number;
+    // Average stars, 0 to 5
+    rating: number;
+    reviewCount: number;
+    delivery: Delivery;
+    condition: Condition;
+    // ISO date the product was listed, for "Newest Arrivals"
+    listedAt: string;
+}
+
+// Product properties a facet can filter on, by the kind of value they hold
+export type TextField = 'brand' | 'department' | 'delivery' | 'condition';
+export type NumberField = 'price' | 'rating' | 'reviewCount';
+
+export type SortOption = 'featured' | 'price-asc' | 'price-desc' | 'rating' | 'newest';
+
+export const SORT_LABELS: Record<SortOption, string> = {
+    featured: 'Featured',
+    'price-asc': 'Price: Low to High',
+    'price-desc': 'Price: High to Low',
+    rating: 'Avg. Customer Review',
+    newest: 'Newest Arrivals'
+};
+
+const matchesFacet = (product: Product, facet: FacetConfig, state: FilterState) => {
+    switch (facet.kind) {
+        case 'checkbox':
+        case 'brand': {
+            const selected = facetValue(state, facet);
+            return selected.length === 0 || selected.includes(product[facet.field]);
+        }
+        case 'rating': {
+            const minimum = facetValue(state, facet);
+            return minimum === null || product[facet.field] >= minimum;
+        }
+        case 'price': {
+            const range = facetValue(state, facet);
+            const amount = product[facet.field];
+            return range === null || ((range.min === null || amount >= range.min) && (range.max === null || amount < range.max));
+        }
+        case 'department': {
+            const department = facetValue(state, facet);
+            return department === null || departmentBranch(facet.departments, department).includes(product[facet.field]);
+        }
+    }
+};
+
+// Products matching every facet; an empty facet matches everything
+export const filterProducts = (products: Product[], facets: FacetConfig[], state: FilterState) =>
+    products.filter(product => facets.every(facet => matchesFacet(product, facet, state)));
+
+// Featured keeps the catalog order; ties keep it too
+export const sortProducts = (products: Product[], sort: SortOption): Product[] => {
+    const sorted = [...products];
+    switch (sort) {
+        case 'featured':
+            return sorted;
+        case 'price-asc':
+            return sorted.sort((a, b) => a.price - b.price);
+        case 'price-desc':
+            return sorted.sort((a, b) => b.price - a.price);
+        case 'rating':
+            return sorted.sort((a, b) => b.rating - a.rating || b.reviewCount - a.reviewCount);
+        case 'newest':
+            return sorted.sort((a, b) => b.listedAt.localeCompare(a.listedAt));
+    }
+};
+
+export const pageCount = (itemCount: number, pageSize: number) => Math.max(1, Math.ceil(itemCount / pageSize));
+
+// Pages count from 1; a page past the end shows the last one
+export const paginate = <T>(items: T[], page: number, pageSize: number) => {
+    const current = Math.min(Math.max(1, page), pageCount(items.length, pageSize));
+    const start = (current - 1) * pageSize;
+    return { page: current, items: items.slice(start, start + pageSize), start };
+};
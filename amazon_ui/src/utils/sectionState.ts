@@ -0,0 +1,27 @@
+// Which sidebar sections are open, remembered per section id across reloads
+const SECTIONS_KEY = 'amazon_ui.filterSections';
+
+type SectionStates = { [sectionId: string]: boolean };
+
+// Storage can be unavailable or hold something else under the key; both count as nothing remembered
+const readSections = (): SectionStates => {
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(SECTIONS_KEY) ?? '{}');
+        return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed as SectionStates : {};
+    } catch {
+        return {};
+    }
+};
+
+export const loadSectionExpanded = (sectionId: string, fallback: boolean) => {
+    const expanded = readSections()[sectionId];
+    return typeof expanded === 'boolean' ? expanded : fallback;
+};
+
+export const storeSectionExpanded = (sectionId: string, expanded: boolean) => {
+    try {
+        localStorage.setItem(SECTIONS_KEY, JSON.stringify({ ...readSections(), [sectionId]: expanded }));
+    } catch {
+        // Not remembering is fine, the section still toggles
+    }
+};
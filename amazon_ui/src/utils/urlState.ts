@@ -0,0 +1,122 @@
+import {
+    createFilterState,
+    departmentPath,
+    type FacetConfig,
+    type FacetKind,
+    type FacetValues,
+    type FilterState,
+    type PriceRange
+} from './facets';
+import { SORT_LABELS, type SortOption } from './products';
+
+// The search page's state as readable query parameters, one per active facet plus sort and page:
+//
+//   ?delivery=prime&brand=sony,bose&rating=4&price=25-50&department=headphones&sort=price-asc&page=2
+//
+// Price ranges may leave out either end (price=-25, price=200-). Facets at their empty value, the default
+// sort and the first page are left out. Facet ids must not be "sort" or "page".
+
+export interface SearchState {
+    filters: FilterState;
+    sort: SortOption;
+    page: number;
+}
+
+const DEFAULT_SORT: SortOption = 'featured';
+
+const isSortOption = (text: string | undefined): text is SortOption =>
+    text !== undefined && Object.keys(SORT_LABELS).includes(text);
+
+const formatAmount = (amount: number | null) => amount === null ? '' : String(amount);
+
+const encodeFacet = (facet: FacetConfig, filters: FilterState): string | null => {
+    const value = filters[facet.id];
+    if (value === null || value === undefined) return null;
+    if (Array.isArray(value)) return value.length > 0 ? value.map(encodeURIComponent).join(',') : null;
+    if (typeof value === 'object') return `${formatAmount(value.min)}-${formatAmount(value.max)}`;
+    return encodeURIComponent(String(value));
+};
+
+export const formatSearchState = (facets: FacetConfig[], { filters, sort, page }: SearchState) => {
+    const params: string[] = [];
+    facets.forEach(facet => {
+        const encoded = encodeFacet(facet, filters);
+        if (encoded !== null) params.push(`${encodeURIComponent(facet.id)}=${encoded}`);
+    });
+    if (sort !== DEFAULT_SORT) params.push(`sort=${sort}`);
+    if (page > 1) params.push(`page=${page}`);
+    return params.length > 0 ? `?${params.join('&')}` : '';
+};
+
+const decode = (text: string) => {
+    try {
+        return decodeURIComponent(text.replace(/\+/g, ' '));
+    } catch {
+        return null;
+    }
+};
+
+// Values are split on commas before decoding, so an encoded comma inside a value survives
+const readParams = (search: string) => {
+    const params = new Map<string, string[]>();
+    search.replace(/^\?/, '').split('&').forEach(pair => {
+        const separator = pair.indexOf('=');
+        if (separator <= 0) return;
+        const key = decode(pair.slice(0, separator));
+        if (key === null) return;
+        const values = pair.slice(separator + 1).split(',').map(decode).filter((value): value is string => value !== null && value !== '');
+        params.set(key, values);
+    });
+    return params;
+};
+
+const parseAmount = (text: string) => {
+    if (text === '') return null;
+    const amount = Number(text);
+    return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+const parsePrice = (text: string): PriceRange | null => {
+    const match = /^([^-]*)-([^-]*)$/.exec(text);
+    if (!match) return null;
+    const min = parseAmount(match[1]);
+    const max = parseAmount(match[2]);
+    if (min === undefined || max === undefined || (min === null && max === null)) return null;
+    // The max is left out of the range, so a min at or above it would match nothing
+    if (min !== null && max !== null && min >= max) return null;
+    return { min, max };
+};
+
+// Anything the sidebar does not offer is dropped, so a hand-edited or outdated link still opens cleanly
+const parseFacet = (facet: FacetConfig, values: string[]): FacetValues[FacetKind] => {
+    switch (facet.kind) {
+        case 'checkbox':
+        case 'brand':
+            return facet.options.filter(option => values.includes(option.value)).map(option => option.value);
+        case 'rating': {
+            const level = Number(values[0]);
+            return facet.levels.includes(level) ? level : null;
+        }
+        case 'price':
+            return values.length === 1 ? parsePrice(values[0]) : null;
+        case 'department':
+            return values.length === 1 && departmentPath(facet.departments, values[0]).length > 0 ? values[0] : null;
+    }
+};
+
+export const parseSearchState = (facets: FacetConfig[], search: string): SearchState => {
+    const params = readParams(search);
+    const filters = createFilterState(facets);
+    facets.forEach(facet => {
+        const values = params.get(facet.id);
+        if (values) filters[facet.id] = parseFacet(facet, values);
+    });
+
+    const sort = params.get('sort')?.[0];
+    const page = Number(params.get('page')?.[0]);
+    return {
+        filters,
+        sort: isSortOption(sort) ? sort : DEFAULT_SORT,
+        page: Number.isInteger(page) && page > 1 ? page : 1
+    };
+};
@@ -0,0 +1,114 @@
+// Compares the indexed filter engine with the linear scans AppProvider used before it.
+// Run with `npm run bench`; pass a row count to change the synthetic dataset size.
+import { readFileSync } from 'node:fs';
+import { performance } from 'node:perf_hooks';
+import { createFilterEngine } from '../src/utils/filterEngine';
+import type { ColumnFilters } from '../src/utils/filters';
+import { coerceRows, compareValues, inferSchema, type CellValue, type DataRow, type Schema } from '../src/utils/schema';
+
+interface ValueFilters {
+    [column: string]: CellValue[];
+}
+
+const COLUMNS = ['number', 'mod3', 'mod4', 'mod5', 'mod6'];
+const RUNS = 5;
+
+const loadCSV = (path: string) => {
+    const [header, ...lines] = readFileSync(new URL(path, import.meta.url), 'utf-8').trim().split(/\r?\n/);
+    const columns = header.split(',');
+    const rows = lines.map(line => line.split(','));
+    const schema = inferSchema(columns, rows);
+    return { data: coerceRows(columns, rows, schema), schema };
+};
+
+const syntheticRows = (count: number) => {
+    const data: DataRow[] = new Array(count);
+    for (let i = 0; i < count; i++) {
+        const number = Math.floor(Math.random() * 1_000_000);
+        data[i] = { number, mod3: number % 3, mod4: number % 4, mod5: number % 5, mod6: number % 6 };
+    }
+    const schema: Schema = {};
+    COLUMNS.forEach(name => { schema[name] = { name, type: 'integer', inferredType: 'integer', nullable: false }; });
+    return { data, schema };
+};
+
+const toColumnFilters = (filters: ValueFilters): ColumnFilters => {
+    const result: ColumnFilters = {};
+    Object.entries(filters).forEach(([column, values]) => { result[column] = { mode: 'values', values }; });
+    return result;
+};
+
+// The scans AppProvider ran before the engine existed
+const linearFilter = (data: DataRow[], filters: ValueFilters) => data.filter(row =>
+    Object.keys(filters).every(key => {
+        const values = filters[key];
+        return !values || values.length === 0 || values.includes(row[key]);
+    })
+);
+
+const linearFacet = (data: DataRow[], column: string, filters: ValueFilters) => {
+    const others = { ...filters };
+    delete others[column];
+    return [...new Set(linearFilter(data, others).map(row => row[column]))].sort(compareValues);
+};
+
+const median = (samples: number[]) => [...samples].sort((a, b) => a - b)[Math.floor(samples.length / 2)];
+
+const time = (fn: () => void) => {
+    const samples: number[] = [];
+    for (let i = 0; i < RUNS; i++) {
+        const start = performance.now();
+        fn();
+        samples.push(performance.now() - start);
+    }
+    return median(samples);
+};
+
+const benchmark = (name: string, { data, schema }: { data: DataRow[]; schema: Schema }) => {
+    const filters: ValueFilters = { mod3: [0], mod5: [0, 1] };
+    // The user ticking one more box: only mod4's selection changes
+    const toggled: ValueFilters = { ...filters, mod4: [2] };
+
+    const engineFilters = toColumnFilters(filters);
+
+    const buildMs = time(() => createFilterEngine(data, COLUMNS, schema).facet('number', {}));
+    const engine = createFilterEngine(data, COLUMNS, schema);
+    COLUMNS.forEach(column => engine.facet(column, engineFilters));
+
+    const results = [
+        {
+            step: 'filter rows',
+            linear: time(() => linearFilter(data, filters)),
+            indexed: time(() => engine.matchingRows(engineFilters))
+        },
+        {
+            step: 'facets for every column',
+            linear: time(() => COLUMNS.forEach(column => linearFacet(data, column, filters))),
+            indexed: time(() => COLUMNS.forEach(column => engine.facet(column, { ...engineFilters })))
+        },
+        {
+            step: 'toggle one value, filter + facets',
+            linear: time(() => {
+                linearFilter(data, toggled);
+                COLUMNS.forEach(column => linearFacet(data, column, toggled));
+            }),
+            indexed: time(() => {
+                // A fresh filter object for mod4, as the reducer would produce
+                const next = { ...engineFilters, ...toColumnFilters({ mod4: [2] }) };
+                engine.matchingRows(next);
+                COLUMNS.forEach(column => engine.facet(column, next));
+            })
+        }
+    ];
+
+    console.log(`\n${name}: ${data.length} rows, index build ${buildMs.toFixed(1)} ms`);
+    console.table(results.map(({ step, linear, indexed }) => ({
+        step,
+        'linear ms': linear.toFixed(1),
+        'indexed ms': indexed.toFixed(1),
+        speedup: `${(linear / indexed).toFixed(1)}x`
+    })));
+};
+
+benchmark('dataset_small.csv', loadCSV('../public/dataset_small.csv'));
+benchmark('synthetic', syntheticRows(Number(process.argv[2]) || 1_000_000));
@@ -0,0 +1,33 @@
+// Serves one CSV file to the app in remote mode, for datasets too large to filter in the browser.
+// Run with `npm run server -- path/to/data.csv`; set PORT to move it off 3002. Filtering, facets and sorting
+// go through the same filter engine and data provider as in-memory mode, so both give the same answers.
+// The endpoints are listed in scripts/dataService.ts.
+import { createServer } from 'node:http';
+import { basename } from 'node:path';
+import { createMemoryProvider, type RemoteDatasetInfo } from '../src/utils/dataProvider';
+import { createFilterEngine } from '../src/utils/filterEngine';
+import { createDataHandler, loadCSV } from './dataService';
+
+const PORT = Number(process.env.PORT) || 3002;
+
+const path = process.argv[2];
+if (!path) {
+    console.error('Usage: npm run server -- path/to/data.csv');
+    process.exit(1);
+}
+
+const parsed = await loadCSV(path);
+if (parsed.errors.length > 0) {
+    console.error(`Could not load ${path}: ${parsed.errors.map(error => error.message).join('; ')}`);
+    process.exit(1);
+}
+parsed.warnings.forEach(warning => console.warn(`Warning: ${warning.message}`));
+
+const dataset: RemoteDatasetInfo = { name: basename(path), columns: parsed.columns, schema: parsed.schema, rowCount: parsed.data.length };
+const provider = createMemoryProvider(createFilterEngine(parsed.data, parsed.columns, parsed.schema), parsed.data);
+
+const server = createServer(createDataHandler(dataset, provider));
+
+server.listen(PORT, () => {
+    console.log(`Serving ${dataset.rowCount} rows of ${dataset.name} at http://localhost:${PORT}/`);
+});
@@ -0,0 +1,215 @@
+// Loading and HTTP handling for scripts/dataServer.ts, kept apart from its command line so tests can put the
+// handler behind a server of their own.
+//
+//   GET  /dataset   { name, columns, schema, rowCount }
+//   POST /page      { query, offset, limit }  ->  { offset, rows, total }
+//   POST /facets    { query, columns }        ->  { [column]: { values, counts } }
+//   POST /rows      { query }                 ->  every matching row as NDJSON, streamed
+//
+// query is { filters, query, sort }: the column filters, the query builder's expression tree and the sort keys.
+import { createReadStream } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createCSVStream, createStreamDecoder } from '../src/utils/csvParser';
+import type { DataProvider, DataQuery, RemoteDatasetInfo } from '../src/utils/dataProvider';
+import type { FilterExpression } from '../src/utils/filterExpression';
+import { isColumnFilter, type ColumnFilters } from '../src/utils/filters';
+import { applyRetypedColumns, createRowTyper, type DataRow, type Schema } from '../src/utils/schema';
+import type { SortKey } from '../src/utils/sorting';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_PAGE_ROWS = 10000;
+const CHUNK_BYTES = 1024 * 1024;
+
+// Read the way the app's CSV worker reads a file: decoded, split and typed a chunk at a time, so the file
+// is never held as one buffer or one string next to its rows
+export const loadCSV = async (file: string) => {
+    const decoder = createStreamDecoder();
+    const stream = createCSVStream();
+    let typer: ReturnType<typeof createRowTyper> | null = null;
+    let data: DataRow[] = [];
+    let schema: Schema = {};
+
+    const accept = (rows: string[][]) => {
+        if (!typer) {
+            const columns = stream.columns();
+            if (!columns) return;
+            typer = createRowTyper(columns);
+            schema = typer.schema();
+        }
+        if (rows.length === 0) return;
+        const batch = typer.add(rows);
+        schema = batch.schema;
+        data = applyRetypedColumns(data, batch.retypedColumns);
+        batch.rows.forEach(row => data.push(row));
+    };
+
+    for await (const chunk of createReadStream(file, { highWaterMark: CHUNK_BYTES })) {
+        accept(stream.push(decoder.decode(chunk as Buffer, false)));
+        if (decoder.errors.length > 0) break;
+    }
+    if (decoder.errors.length === 0) {
+        // Whatever the decoder held back for a character split across chunks, then the last line
+        accept(stream.push(decoder.decode(new Uint8Array(0), true)));
+        accept(stream.finish());
+    }
+
+    const report = stream.report();
+    return {
+        columns: stream.columns() ?? [],
+        data,
+        schema,
+        warnings: [...decoder.warnings, ...report.warnings],
+        errors: [...decoder.errors, ...report.errors]
+    };
+};
+
+class BadRequest extends Error {}
+
+const HEADERS = {
+    // The app runs on another port, so the browser needs permission to call in
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+const send = (response: ServerResponse, status: number, contentType: string, body: string) => {
+    response.writeHead(status, { ...HEADERS, 'Content-Type': contentType, 'Content-Length': Buffer.byteLength(body) });
+    response.end(body);
+};
+
+const sendJSON = (response: ServerResponse, body: unknown) => send(response, 200, 'application/json', JSON.stringify(body));
+
+const readBody = (request: IncomingMessage) => new Promise<unknown>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new BadRequest(`The request body is larger than ${MAX_BODY_BYTES} bytes`));
+            request.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    request.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+        } catch {
+            reject(new BadRequest('The request body is not valid JSON'));
+        }
+    });
+    request.on('error', reject);
+});
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+
+// Query builder nodes are checked down to each condition's filter, with the same checks saved views go through
+const isExpression = (value: unknown): value is FilterExpression => {
+    if (!isObject(value) || typeof value.id !== 'string' || !isBoolean(value.negated)) return false;
+    if (value.kind === 'condition') return typeof value.column === 'string' && isColumnFilter(value.filter);
+    return value.kind === 'group' && (value.operator === 'and' || value.operator === 'or') &&
+        Array.isArray(value.children) && value.children.every(isExpression);
+};
+
+const isSortKey = (value: unknown): value is SortKey =>
+    isObject(value) && typeof value.column === 'string' && (value.direction === 'asc' || value.direction === 'desc');
+
+// Every filter is checked field by field, so a malformed one is the client's mistake (400) rather than a
+// failure inside the filter engine (500). Columns the dataset does not have are left to the engine, which ignores them.
+const readQuery = (body: { [key: string]: unknown }): DataQuery => {
+    const query = body.query;
+    if (!isObject(query) || !isObject(query.filters) || !Array.isArray(query.sort)) {
+        throw new BadRequest('Expected query to be { filters, query, sort }');
+    }
+    const filters: ColumnFilters = {};
+    Object.entries(query.filters).forEach(([column, filter]) => {
+        if (!isColumnFilter(filter)) throw new BadRequest(`The filter on ${column} is not a valid column filter`);
+        filters[column] = filter;
+    });
+    if (!isExpression(query.query) || query.query.kind !== 'group') {
+        throw new BadRequest('Expected query.query to be a group of valid conditions');
+    }
+    if (!query.sort.every(isSortKey)) throw new BadRequest('Expected sort to be a list of { column, direction }');
+    return { filters, query: query.query, sort: query.sort };
+};
+
+const readCount = (value: unknown, name: string, max: number) => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > max) {
+        throw new BadRequest(`Expected ${name} to be a whole number from 0 to ${max}`);
+    }
+    return value;
+};
+
+// Answers requests about one dataset; the result is a request listener for createServer
+export const createDataHandler = (dataset: RemoteDatasetInfo, provider: DataProvider) => {
+    // Rows go out in batches as NDJSON, waiting for the socket to drain so a slow client does not fill memory
+    const streamRows = async (request: IncomingMessage, response: ServerResponse, query: DataQuery) => {
+        const controller = new AbortController();
+        response.on('close', () => controller.abort());
+        response.writeHead(200, { ...HEADERS, 'Content-Type': 'application/x-ndjson' });
+        await provider.stream(query, rows => {
+            if (response.write(rows.map(row => JSON.stringify(row)).join('\n') + '\n')) return;
+            return new Promise<void>(resolve => {
+                response.once('drain', resolve);
+                // A client that hangs up never drains; the abort ends the stream on the next batch
+                response.once('close', resolve);
+            });
+        }, controller.signal).catch(error => {
+            if (!controller.signal.aborted) console.error(`Streaming to ${request.socket.remoteAddress} failed:`, error);
+        });
+        response.end();
+    };
+
+    const handle = async (request: IncomingMessage, response: ServerResponse) => {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        if (request.method === 'OPTIONS') {
+            response.writeHead(204, { ...HEADERS, 'Access-Control-Allow-Methods': 'GET, POST' });
+            response.end();
+            return;
+        }
+        if (request.method === 'GET' && url.pathname === '/dataset') {
+            sendJSON(response, dataset);
+            return;
+        }
+        if (request.method !== 'POST') {
+            send(response, request.method === 'GET' ? 404 : 405, 'text/plain', `No route for ${request.method} ${url.pathname}`);
+            return;
+        }
+
+        const body = await readBody(request);
+        if (!isObject(body)) throw new BadRequest('Expected a JSON object');
+        switch (url.pathname) {
+            case '/page':
+                sendJSON(response, await provider.page(readQuery(body), readCount(body.offset, 'offset', dataset.rowCount), readCount(body.limit, 'limit', MAX_PAGE_ROWS)));
+                break;
+            case '/facets': {
+                const columns = body.columns;
+                if (!Array.isArray(columns) || !columns.every(column => typeof column === 'string' && dataset.columns.includes(column))) {
+                    throw new BadRequest('Expected columns to be a list of column names');
+                }
+                sendJSON(response, await provider.facets(columns, readQuery(body)));
+                break;
+            }
+            case '/rows':
+                await streamRows(request, response, readQuery(body));
+                break;
+            default:
+                send(response, 404, 'text/plain', `No route for POST ${url.pathname}`);
+        }
+    };
+
+    return (request: IncomingMessage, response: ServerResponse) => {
+        handle(request, response).catch((error: Error) => {
+            if (response.headersSent) {
+                response.destroy(error);
+            } else if (error instanceof BadRequest) {
+                send(response, 400, 'text/plain', error.message);
+            } else {
+                console.error(error);
+                send(response, 500, 'text/plain', 'The server failed to answer');
+            }
+        });
+    };
+};
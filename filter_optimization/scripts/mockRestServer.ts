@@ -0,0 +1,106 @@
+// A local endpoint for trying the URL and REST data sources without a real backend.
+// Run with `npm run mock-server`; pass a record count to change the dataset size, PORT to move it off 3001.
+//
+//   GET /records?page=1&pageSize=500   paginated: { data, page, pageSize, total, next }
+//   GET /records.json                  every record as one JSON array
+//   GET /records.ndjson                one record per line
+//   GET /records.csv                   the same records as CSV
+import { createServer, type ServerResponse } from 'node:http';
+
+interface MockRecord {
+    id: number;
+    product: string;
+    category: string;
+    price: number;
+    quantity: number;
+    inStock: boolean;
+    orderedAt: string;
+    // Empty now and then, so nullable columns show up too
+    discount: number | null;
+}
+
+const PORT = Number(process.env.PORT) || 3001;
+const RECORD_COUNT = Number(process.argv[2]) || 2500;
+const MAX_PAGE_SIZE = 5000;
+
+const CATEGORIES = ['Books', 'Electronics', 'Garden', 'Kitchen', 'Toys'];
+const PRODUCTS = ['Lamp', 'Kettle', 'Novel', 'Drone', 'Rake', 'Puzzle', 'Headphones', 'Planter'];
+
+// Deterministic, so every refresh serves the same data
+const createRandom = (seed: number) => () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+};
+
+const records: MockRecord[] = (() => {
+    const random = createRandom(42);
+    const start = Date.UTC(2024, 0, 1);
+    return Array.from({ length: RECORD_COUNT }, (_, index) => ({
+        id: index + 1,
+        product: PRODUCTS[Math.floor(random() * PRODUCTS.length)],
+        category: CATEGORIES[Math.floor(random() * CATEGORIES.length)],
+        price: Math.round(random() * 50000) / 100,
+        quantity: 1 + Math.floor(random() * 20),
+        inStock: random() > 0.2,
+        orderedAt: new Date(start + Math.floor(random() * 365) * 86400000).toISOString().slice(0, 10),
+        discount: random() > 0.7 ? Math.round(random() * 30) : null
+    }));
+})();
+
+const COLUMNS = Object.keys(records[0] ?? {}) as (keyof MockRecord)[];
+
+const csvCell = (value: MockRecord[keyof MockRecord]) => {
+    const text = value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const send = (response: ServerResponse, status: number, contentType: string, body: string) => {
+    response.writeHead(status, {
+        'Content-Type': contentType,
+        'Content-Length': Buffer.byteLength(body),
+        // The app runs on another port, so the browser needs permission to read the answers
+        'Access-Control-Allow-Origin': '*'
+    });
+    response.end(body);
+};
+
+const server = createServer((request, response) => {
+    const url = new URL(request.url ?? '/', `http://localhost:${PORT}`);
+    if (request.method !== 'GET') {
+        send(response, 405, 'text/plain', 'Only GET is supported');
+        return;
+    }
+
+    switch (url.pathname) {
+        case '/records': {
+            const page = Math.max(1, Math.floor(Number(url.searchParams.get('page')) || 1));
+            const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(Number(url.searchParams.get('pageSize')) || 100)));
+            const start = (page - 1) * pageSize;
+            const last = start + pageSize >= records.length;
+            const next = last ? null : `/records?page=${page + 1}&pageSize=${pageSize}`;
+            send(response, 200, 'application/json', JSON.stringify({
+                data: records.slice(start, start + pageSize),
+                page,
+                pageSize,
+                total: records.length,
+                next
+            }));
+            break;
+        }
+        case '/records.json':
+            send(response, 200, 'application/json', JSON.stringify(records));
+            break;
+        case '/records.ndjson':
+            send(response, 200, 'application/x-ndjson', records.map(record => JSON.stringify(record)).join('\n') + '\n');
+            break;
+        case '/records.csv':
+            send(response, 200, 'text/csv', [COLUMNS.join(','), ...records.map(record => COLUMNS.map(column => csvCell(record[column])).join(','))].join('\r\n') + '\r\n');
+            break;
+        default:
+            send(response, 404, 'text/plain', `No route for ${url.pathname}`);
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Serving ${records.length} mock records at http://localhost:${PORT}/records`);
+});
@@ -1,122 +1,194 @@
-import React, { useState, useEffect, useMemo, createContext, useContext, useReducer } from 'react';
-import * as Papa from 'papaparse';
+import React, { useState, useEffect, useId, useLayoutEffect, useMemo, useRef, createContext, useContext, useReducer } from 'react';
+import { histogramBins, isHistogramType, valueBars } from './utils/charts';
+import { ENCODINGS, parseCSV } from './utils/csvParser';
+import {
+    createMemoryProvider,
+    createRemoteProvider,
+    fetchRemoteDataset,
+    type DataPage,
+    type DataProvider,
+    type DataQuery
+} from './utils/dataProvider';
+import {
+    DATA_SOURCE_LABELS,
+    URL_FORMAT_LABELS,
+    createDataSource,
+    isAbortError,
+    type DataSourceConfig,
+    type DataSourceKind,
+    type UrlFormat
+} from './utils/dataSources';
+import {
+    deleteStoredDataset,
+    listStoredDatasets,
+    loadLastDatasetId,
+    loadStoredDataset,
+    renameStoredDataset,
+    saveStoredDataset,
+    storeLastDatasetId,
+    type StoredDataset,
+    type StoredDatasetInfo
+} from './utils/datasetStore';
+import { EXPORT_FORMAT_LABELS, XLSX_MAX_ROWS, downloadBlob, type ExportFormat } from './utils/exporters';
+import { createFilterEngine, type Facet } from './utils/filterEngine';
+import { FORMULA_FUNCTIONS, compileFormula, formulaReaders, formulaSchema, type ComputedColumn } from './utils/formula';
+import { JOIN_KIND_LABELS, joinDatasets, type JoinKind } from './utils/join';
+import {
+    COMPARE_OPERATORS,
+    FILTER_MODE_LABELS,
+    TEXT_OPERATOR_LABELS,
+    createPredicate,
+    describeFilter,
+    emptyFilter,
+    filterModesFor,
+    isFilterActive,
+    isValidRegex,
+    type ColumnFilter,
+    type CompareOperator,
+    type FilterMode,
+    type TextOperator
+} from './utils/filters';
+import {
+    createCondition,
+    createGroup,
+    formatQuery,
+    parseQuery,
+    removeNode,
+    type FilterCondition,
+    type FilterExpression,
+    type FilterGroup,
+    type GroupOperator
+} from './utils/filterExpression';
+import { createHeightIndex } from './utils/virtualization';
+import type { ExportWorkerMessage, ExportWorkerRequest } from './workers/exportWorker';
+import {
+    COLUMN_TYPES,
+    formatValue,
+    type CellValue,
+    type ColumnType,
+    type DataRow
+} from './utils/schema';
+import { AGGREGATE_LABELS, aggregatesFor, groupBy, summarizeColumns, type Aggregate } from './utils/summary';
+import {
+    exportViewsFile,
+    loadSavedViews,
+    mergeSavedViews,
+    parseViewsFile,
+    readViewFromUrl,
+    requiredColumns,
+    storeSavedViews,
+    writeViewToUrl,
+    type SavedView,
+    type TableMode
+} from './utils/viewState';
+import {
+    captureView,
+    historyReducer,
+    initialState,
+    newDatasetId,
+    uniqueDatasetName,
+    type AppAction,
+    type AppState,
+    type Dataset,
+    type DatasetPayload,
+    type LoadProgress
+} from './state/appReducer';
 
-interface DataRow {
-    [key: string]: number;
-}
+// scripts/mockRestServer.ts listens here
+const MOCK_REST_URL = 'http://localhost:3001/records';
+const DEFAULT_REST_PAGE_SIZE = 500;
 
-interface Filters {
-    [key: string]: number[];
-}
+// scripts/dataServer.ts listens here
+const DATA_SERVER_URL = 'http://localhost:3002/';
 
-interface SearchTerms {
-    [key: string]: string;
-}
+// A data server is not a source the rows are loaded from, so it is offered next to them
+type SourceChoice = DataSourceKind | 'server';
+
+const SOURCE_CHOICE_LABELS: Record<SourceChoice, string> = {
+    ...DATA_SOURCE_LABELS,
+    server: 'Data server (rows stay remote)'
+};
+
+// The sample ships with the app and keeps a fixed id, so loading it again replaces it instead of adding a copy
+const SAMPLE_ID = 'sample';
+const SAMPLE_NAME = 'Sample data';
+
+const loadSampleDataset = async (): Promise<DatasetPayload> => {
+    const response = await fetch(`${import.meta.env.BASE_URL}sample.csv`);
+    if (!response.ok) throw new Error(`The sample could not be fetched (HTTP ${response.status})`);
+    const { data, columns, schema, sourceText } = parseCSV(await response.arrayBuffer());
+    return { id: SAMPLE_ID, name: SAMPLE_NAME, data, columns, schema, sourceText };
+};
 
-interface DropdownState {
-    [key: string]: boolean;
+// Entries saved before sources and servers were remembered have neither
+const storedDatasetPayload = ({ id, name, data, columns, schema, computedColumns, view, source, server }: StoredDataset): DatasetPayload =>
+    ({ id, name, data, columns, schema, computedColumns, view, stored: true, source: source ?? null, server: server ?? null });
+
+const refreshLibrary = (dispatch: React.Dispatch<AppAction>) =>
+    listStoredDatasets().then(
+        entries => dispatch({ type: 'SET_LIBRARY', payload: entries }),
+        (error: Error) => dispatch({ type: 'SET_LIBRARY_ERROR', payload: `The dataset library is unavailable: ${error.message}` })
+    );
+
+
+interface ValueOption {
+    value: CellValue;
+    count: number;
 }
 
-interface AppState {
-    data: DataRow[];
-    filters: Filters;
-    searchTerms: SearchTerms;
-    dropdownOpen: DropdownState;
-    currentPage: number;
-    scrollIndex: number;
-    columns: string[];
+interface RemoteResult<T> {
+    // The last answer, kept while the next one is on its way
+    value: T | null;
+    loading: boolean;
+    error: string | null;
 }
 
-type AppAction =
-    | { type: 'SET_DATA'; payload: { data: DataRow[]; columns: string[] } }
-    | { type: 'SET_FILTER'; payload: { filterType: string; values: number[] } }
-    | { type: 'SET_SEARCH_TERM'; payload: { filterType: string; value: string } }
-    | { type: 'TOGGLE_DROPDOWN'; payload: string }
-    | { type: 'SET_CURRENT_PAGE'; payload: number }
-    | { type: 'SET_SCROLL_INDEX'; payload: number }
-    | { type: 'RESET_PAGINATION' };
-
-const initialState: AppState = {
-    data: [],
-    filters: {},
-    searchTerms: {},
-    dropdownOpen: {},
-    currentPage: 1,
-    scrollIndex: 0,
-    columns: []
-};
-
-const appReducer = (state: AppState, action: AppAction): AppState => {
-    switch (action.type) {
-        case 'SET_DATA':
-            // Initialize filters and search terms for new columns
-            const newFilters: Filters = {};
-            const newSearchTerms: SearchTerms = {};
-            const newDropdownOpen: DropdownState = {};
-            
-            // Fix: Check if columns exists and is an array before calling forEach
-            const columns = action.payload.columns || [];
-            columns.forEach(col => {
-                newFilters[col] = [];
-                newSearchTerms[col] = '';
-                newDropdownOpen[col] = false;
-            });
-            
-            return { 
-                ...state, 
-                data: action.payload.data || [],
-                columns: columns,
-                filters: newFilters,
-                searchTerms: newSearchTerms,
-                dropdownOpen: newDropdownOpen,
-                currentPage: 1,
-                scrollIndex: 0
-            };
-        case 'SET_FILTER':
-            return {
-                ...state,
-                filters: {
-                    ...state.filters,
-                    [action.payload.filterType]: action.payload.values
-                }
-            };
-        case 'SET_SEARCH_TERM':
-            return {
-                ...state,
-                searchTerms: {
-                    ...state.searchTerms,
-                    [action.payload.filterType]: action.payload.value
-                }
-            };
-        case 'TOGGLE_DROPDOWN':
-            return {
-                ...state,
-                dropdownOpen: {
-                    ...state.dropdownOpen,
-                    [action.payload]: !state.dropdownOpen[action.payload]
-                }
-            };
-        case 'SET_CURRENT_PAGE':
-            return { ...state, currentPage: action.payload };
-        case 'SET_SCROLL_INDEX':
-            return { ...state, scrollIndex: action.payload };
-        case 'RESET_PAGINATION':
-            return { ...state, currentPage: 1, scrollIndex: 0 };
-        default:
-            return state;
-    }
+// Runs the request whenever it changes; answers to superseded requests are cancelled
+const useRemoteResult = <T,>(request: ((signal: AbortSignal) => Promise<T>) | null): RemoteResult<T> => {
+    const [result, setResult] = useState<RemoteResult<T>>({ value: null, loading: false, error: null });
+    useEffect(() => {
+        if (!request) {
+            setResult({ value: null, loading: false, error: null });
+            return;
+        }
+        const controller = new AbortController();
+        setResult(previous => ({ ...previous, loading: true, error: null }));
+        request(controller.signal).then(
+            value => setResult({ value, loading: false, error: null }),
+            (error: Error) => {
+                if (!isAbortError(error)) setResult(previous => ({ ...previous, loading: false, error: error.message }));
+            }
+        );
+        return () => controller.abort();
+    }, [request]);
+    return result;
 };
 
+const EMPTY_FACET: Facet = { values: [], counts: [] };
+
 interface AppContextType {
     state: AppState;
     dispatch: React.Dispatch<AppAction>;
+    // Answers page, facet and export requests, from memory or from the data server
+    provider: DataProvider;
+    // Filters, query and sort as the provider takes them
+    dataQuery: DataQuery;
+    // Matching rows in sort order; always empty in remote mode, where the rows stay on the server
     filteredData: DataRow[];
+    matchCount: number;
+    // Columns the table shows, in display order
+    visibleColumns: string[];
+    // Rows the table scrolls through: every match, or the current page in paged mode
     paginatedData: DataRow[];
-    visibleData: DataRow[];
     totalPages: number;
-    maxScrollIndex: number;
-    getAvailableValuesForFilter: (targetColumn: string) => number[];
-    getFilteredValues: (column: string, searchTerm: string) => number[];
+    // Values of a column among rows passing every other filter, with their counts
+    getFacet: (column: string) => Facet;
+    getAvailableValuesForFilter: (targetColumn: string) => CellValue[];
+    getFilteredValues: (column: string, searchTerm: string) => ValueOption[];
+    // Whether the data server is busy or failed; null in memory mode
+    remoteStatus: { loading: boolean; error: string | null } | null;
+    // What of the view in the opening link did not fit the dataset; null when it all did
+    viewLinkNotice: string | null;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -130,68 +202,160 @@ const useAppContext = () => {
 };
 
 const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    const [state, dispatch] = useReducer(appReducer, initialState);
-    const rowsPerPage = 100;
-    const visibleRows = 20;
+    const [state, dispatch] = useReducer(historyReducer, initialState);
+    // A view from the link the app was opened with, waiting for the first dataset to load
+    const [pendingView, setPendingView] = useState(readViewFromUrl);
+    const [viewLinkNotice, setViewLinkNotice] = useState<string | null>(null);
 
-    // Get available values for a specific filter based on other active filters
-    const getAvailableValuesForFilter = (targetColumn: string) => {
-        const otherFilters = { ...state.filters };
-        delete otherFilters[targetColumn];
-        
-        const filteredData = state.data.filter(row => {
-            return Object.keys(otherFilters).every(key => {
-                const filterValues = otherFilters[key];
-                return !filterValues || filterValues.length === 0 || filterValues.includes(row[key]);
-            });
+    // The link is applied to whatever dataset opens first, as far as it fits; what does not fit is reported
+    // rather than kept waiting, so the address bar goes back to following the app
+    useEffect(() => {
+        if (!pendingView || state.columns.length === 0) return;
+        const missing = requiredColumns(pendingView).filter(column => !state.columns.includes(column));
+        const queryError = parseQuery(pendingView.query, state.schema).error;
+        const problems = [
+            ...(missing.length > 0 ? [`this dataset has no column ${missing.join(', ')}`] : []),
+            ...(queryError ? [`its query could not be read (${queryError.message})`] : [])
+        ];
+        dispatch({ type: 'APPLY_VIEW', payload: pendingView });
+        setPendingView(null);
+        setViewLinkNotice(problems.length > 0 ? `The link's view was only partly applied: ${problems.join('; ')}` : null);
+    }, [pendingView, state.columns, state.schema]);
+
+    useEffect(() => {
+        refreshLibrary(dispatch);
+    }, []);
+
+    // Datasets are written to IndexedDB once they have finished loading; rows only when they changed
+    const savedDatasets = useRef(new Map<string, Dataset>());
+    useEffect(() => {
+        if (state.loadProgress) return;
+        state.datasets.forEach(dataset => {
+            const saved = savedDatasets.current.get(dataset.id);
+            if (saved === dataset) return;
+            savedDatasets.current.set(dataset.id, dataset);
+            if (!saved && dataset.stored) return;
+            const info: StoredDatasetInfo = {
+                id: dataset.id,
+                name: dataset.name,
+                columns: dataset.columns,
+                schema: dataset.schema,
+                computedColumns: dataset.computedColumns,
+                view: dataset.view,
+                source: dataset.source,
+                server: dataset.server,
+                rowCount: dataset.server?.rowCount ?? dataset.data.length,
+                savedAt: new Date().toISOString()
+            };
+            saveStoredDataset(info, saved?.data === dataset.data ? undefined : dataset.data).then(
+                () => refreshLibrary(dispatch),
+                (error: Error) => dispatch({ type: 'SET_LIBRARY_ERROR', payload: `${dataset.name} could not be saved: ${error.message}` })
+            );
         });
+    }, [state.datasets, state.loadProgress]);
+
+    useEffect(() => {
+        if (state.activeDatasetId) storeLastDatasetId(state.activeDatasetId);
+    }, [state.activeDatasetId]);
+
+    // The address bar always holds the current view, so copying it shares this exact slice
+    useEffect(() => {
+        if (pendingView || state.columns.length === 0) return;
+        writeViewToUrl(captureView(state));
+    }, [pendingView, state]);
+
+    // Indexes are rebuilt only when the dataset changes, filter changes reuse them
+    const filterEngine = useMemo(() => createFilterEngine(state.data, state.columns, state.schema), [state.data, state.columns, state.schema]);
+
+    const { server } = state;
+    const provider = useMemo(
+        () => server ? createRemoteProvider(server.url) : createMemoryProvider(filterEngine, state.data),
+        [server, filterEngine, state.data]
+    );
+    const dataQuery = useMemo(() => ({ filters: state.filters, query: state.query, sort: state.sort }), [state.filters, state.query, state.sort]);
 
-        const uniqueValues = [...new Set(filteredData.map(row => row[targetColumn]))].sort((a, b) => a - b);
-        return uniqueValues;
+    // In remote mode the current page and every column's facet come from the server; sorting does not change facets
+    const offset = server ? Math.min((state.currentPage - 1) * state.pageSize, server.rowCount) : 0;
+    const pageRequest = useMemo(
+        () => server ? (signal: AbortSignal) => provider.page(dataQuery, offset, state.pageSize, signal) : null,
+        [server, provider, dataQuery, offset, state.pageSize]
+    );
+    const facetsRequest = useMemo(
+        () => server ? (signal: AbortSignal) => provider.facets(state.columns, { filters: state.filters, query: state.query, sort: [] }, signal) : null,
+        [server, provider, state.columns, state.filters, state.query]
+    );
+    const remotePage = useRemoteResult<DataPage>(pageRequest);
+    const remoteFacets = useRemoteResult<{ [column: string]: Facet }>(facetsRequest);
+
+    const getFacet = (column: string) => server
+        ? remoteFacets.value?.[column] ?? EMPTY_FACET
+        : filterEngine.facet(column, state.filters, state.query);
+
+    // Get available values for a specific filter based on other active filters
+    const getAvailableValuesForFilter = (targetColumn: string) => {
+        return getFacet(targetColumn).values;
     };
 
-    // Filter data
+    // Filter, then sort the matching row numbers before they are turned into rows
     const filteredData = useMemo(() => {
-        return state.data.filter(row => {
-            return Object.keys(state.filters).every(key => {
-                const filterValues = state.filters[key];
-                return !filterValues || filterValues.length === 0 || filterValues.includes(row[key]);
-            });
-        });
-    }, [state.data, state.filters]);
+        if (server) return [];
+        const rows = filterEngine.sortRows(filterEngine.matchingRows(state.filters, state.query), state.sort);
+        return rows.length === state.data.length && state.sort.length === 0
+            ? state.data
+            : Array.from(rows, row => state.data[row]);
+    }, [server, filterEngine, state.data, state.filters, state.query, state.sort]);
+
+    const matchCount = server ? remotePage.value?.total ?? 0 : filteredData.length;
 
-    // Paginate data
+    const visibleColumns = useMemo(
+        () => state.columnOrder.filter(column => !state.hiddenColumns.includes(column)),
+        [state.columnOrder, state.hiddenColumns]
+    );
+
+    // Paged mode slices one page out of the matches; scroll mode hands the table all of them
     const paginatedData = useMemo(() => {
-        const startIndex = (state.currentPage - 1) * rowsPerPage;
-        const endIndex = startIndex + rowsPerPage;
-        return filteredData.slice(startIndex, endIndex);
-    }, [filteredData, state.currentPage]);
+        if (server) return remotePage.value?.rows ?? [];
+        if (state.tableMode === 'scroll') return filteredData;
+        const startIndex = (state.currentPage - 1) * state.pageSize;
+        return filteredData.slice(startIndex, startIndex + state.pageSize);
+    }, [server, remotePage.value, filteredData, state.tableMode, state.currentPage, state.pageSize]);
 
-    // Get visible rows for scrolling
-    const visibleData = useMemo(() => {
-        return paginatedData.slice(state.scrollIndex, state.scrollIndex + visibleRows);
-    }, [paginatedData, state.scrollIndex]);
+    const totalPages = state.tableMode === 'scroll' ? 1 : Math.max(1, Math.ceil(matchCount / state.pageSize));
 
-    const totalPages = Math.ceil(filteredData.length / rowsPerPage);
-    const maxScrollIndex = Math.max(0, paginatedData.length - visibleRows);
+    const remoteStatus = server ? {
+        loading: remotePage.loading || remoteFacets.loading,
+        error: remotePage.error ?? remoteFacets.error
+    } : null;
 
+    // Facet values matching the search, each with the number of rows it would match
     const getFilteredValues = (column: string, searchTerm: string) => {
-        const availableValues = getAvailableValuesForFilter(column);
-        return availableValues.filter(val => 
-            val.toString().toLowerCase().includes(searchTerm.toLowerCase())
-        );
+        const facet = getFacet(column);
+        const columnType = state.schema[column]?.type ?? 'string';
+        const needle = searchTerm.toLowerCase();
+        const options: ValueOption[] = [];
+        facet.values.forEach((value, index) => {
+            if (formatValue(value, columnType).toLowerCase().includes(needle)) {
+                options.push({ value, count: facet.counts[index] });
+            }
+        });
+        return options;
     };
 
     const value: AppContextType = {
         state,
         dispatch,
+        provider,
+        dataQuery,
         filteredData,
+        matchCount,
+        visibleColumns,
         paginatedData,
-        visibleData,
         totalPages,
-        maxScrollIndex,
+        getFacet,
         getAvailableValuesForFilter,
-        getFilteredValues
+        getFilteredValues,
+        remoteStatus,
+        viewLinkNotice
     };
 
     return (
@@ -201,291 +365,2517 @@ const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     );
 };
 
-const FileUpload: React.FC = () => {
+const DataSources: React.FC = () => {
     const { state, dispatch } = useAppContext();
+    const [kind, setKind] = useState<SourceChoice>('csv-file');
+    const [encoding, setEncoding] = useState('auto');
+    const [url, setUrl] = useState('');
+    const [format, setFormat] = useState<UrlFormat>('csv');
+    const [restUrl, setRestUrl] = useState(MOCK_REST_URL);
+    const [pageSize, setPageSize] = useState(DEFAULT_REST_PAGE_SIZE);
+    const [serverUrl, setServerUrl] = useState(DATA_SERVER_URL);
+    const loadRef = useRef<AbortController | null>(null);
+
+    const stopLoading = () => {
+        loadRef.current?.abort();
+        loadRef.current = null;
+    };
+
+    // Never leave a load running after the component is gone
+    useEffect(() => stopLoading, []);
+
+    const activeDataset = state.datasets.find(dataset => dataset.id === state.activeDatasetId);
+    const activeServer = activeDataset?.server ?? null;
+    const activeSource = activeDataset?.source ?? null;
+
+    // Starts a load or connection, cancelling the one before; current() turns false once another takes over
+    const begin = (name: string) => {
+        stopLoading();
+        const controller = new AbortController();
+        loadRef.current = controller;
+        const progress: LoadProgress = { fileName: name, loadedBytes: 0, totalBytes: 0, rowCount: 0 };
+        dispatch({ type: 'SET_PARSE_REPORT', payload: null });
+        dispatch({ type: 'SET_LOAD_PROGRESS', payload: progress });
+        return { controller, progress, current: () => loadRef.current === controller };
+    };
+
+    const fail = (name: string, error: Error) => {
+        loadRef.current = null;
+        dispatch({ type: 'SET_LOAD_PROGRESS', payload: null });
+        dispatch({
+            type: 'SET_PARSE_REPORT',
+            payload: { fileName: name, meta: null, warnings: [], errors: [{ code: 'EmptyFile', message: `Could not load ${name}: ${error.message}` }] }
+        });
+    };
+
+    // The view a refreshed dataset keeps
+    const targetView = (target?: Dataset) => !target ? null : target.id === state.activeDatasetId ? captureView(state) : target.view;
+
+    // Loading into an existing dataset refreshes it, keeping its id, name, formulas and view
+    const load = (config: DataSourceConfig, target?: Dataset) => {
+        const source = createDataSource(config);
+        const datasetId = target?.id ?? newDatasetId();
+        const name = target?.name ?? source.name;
+        const view = targetView(target);
+        const { controller, progress, current } = begin(name);
+
+        source.load({
+            header: (columns, schema) => {
+                if (!current()) return;
+                dispatch({
+                    type: 'SET_DATA',
+                    payload: { id: datasetId, name, data: [], columns, schema, computedColumns: target?.computedColumns, view, source: config }
+                });
+            },
+            rows: batch => {
+                if (current()) dispatch({ type: 'APPEND_DATA', payload: { datasetId, ...batch } });
+            },
+            progress: update => {
+                if (current()) dispatch({ type: 'SET_LOAD_PROGRESS', payload: { ...progress, ...update } });
+            }
+        }, controller.signal).then(
+            report => {
+                if (!current()) return;
+                loadRef.current = null;
+                dispatch({ type: 'SET_LOAD_PROGRESS', payload: null });
+                dispatch({ type: 'SET_PARSE_REPORT', payload: { fileName: name, ...report } });
+            },
+            (error: Error) => {
+                // A cancelled load is reported by whoever cancelled it
+                if (!isAbortError(error) && current()) fail(name, error);
+            }
+        );
+    };
+
+    // Only the columns and types are fetched; rows are asked for page by page as the table needs them
+    const connect = (address: string, target?: Dataset) => {
+        const url = address.endsWith('/') ? address : `${address}/`;
+        const view = targetView(target);
+        const { controller, current } = begin(target?.name ?? url);
+        fetchRemoteDataset(url, controller.signal).then(
+            info => {
+                if (!current()) return;
+                loadRef.current = null;
+                dispatch({ type: 'SET_LOAD_PROGRESS', payload: null });
+                dispatch({
+                    type: 'SET_DATA',
+                    payload: {
+                        id: target?.id ?? newDatasetId(),
+                        name: target?.name ?? info.name,
+                        data: [],
+                        columns: info.columns,
+                        schema: info.schema,
+                        view,
+                        server: { url, rowCount: info.rowCount }
+                    }
+                });
+            },
+            (error: Error) => {
+                if (!isAbortError(error) && current()) fail(target?.name ?? url, error);
+            }
+        );
+    };
 
     const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
-        if (file) {
-            const reader = new FileReader();
-            reader.onload = (e) => {
-                const csvData = e.target?.result as string;
-                try {
-                    const parsed = Papa.parse(csvData, {
-                        header: true,
-                        dynamicTyping: true,
-                        skipEmptyLines: true
-                    });
+        event.target.value = '';
+        if (file) load({ kind: 'csv-file', file, encoding });
+    };
 
-                    if (parsed.data && parsed.data.length > 0) {
-                        // Get column names from the first row
-                        const firstRow = parsed.data[0] as any;
-                        const columns = Object.keys(firstRow);
-                        
-                        const processedData: DataRow[] = parsed.data.map((row: any) => {
-                            const processedRow: DataRow = {};
-                            columns.forEach(col => {
-                                processedRow[col] = parseInt(row[col]) || 0;
-                            });
-                            return processedRow;
-                        });
-                        
-                        dispatch({ type: 'SET_DATA', payload: { data: processedData, columns } });
-                    }
-                } catch (error) {
-                    console.error('Error parsing CSV:', error);
-                }
-            };
-            reader.readAsText(file);
-        }
+    const handleCancel = () => {
+        stopLoading();
+        const rowCount = state.data.length;
+        dispatch({ type: 'SET_LOAD_PROGRESS', payload: null });
+        dispatch({
+            type: 'SET_PARSE_REPORT',
+            payload: {
+                fileName: state.loadProgress?.fileName ?? '',
+                meta: null,
+                warnings: [{ code: 'LoadCancelled', message: `Loading was cancelled, only the first ${rowCount} rows are available` }],
+                errors: []
+            }
+        });
     };
 
+    const progress = state.loadProgress;
+
     return (
         <div style={{ marginBottom: '20px', padding: '10px', border: '1px solid #ccc', backgroundColor: '#f9f9f9' }}>
-            <h3>Load CSV File</h3>
-            <input
-                type="file"
-                accept=".csv"
-                onChange={handleFileUpload}
-                style={{ marginBottom: '10px' }}
-            />
+            <h3>Load Data</h3>
+            <label style={{ fontSize: '14px' }}>
+                Source:{' '}
+                <select value={kind} onChange={(e) => setKind(e.target.value as SourceChoice)}>
+                    {(Object.keys(SOURCE_CHOICE_LABELS) as SourceChoice[]).map(option => (
+                        <option key={option} value={option}>{SOURCE_CHOICE_LABELS[option]}</option>
+                    ))}
+                </select>
+            </label>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', alignItems: 'center', margin: '10px 0' }}>
+                {kind === 'csv-file' && (
+                    <>
+                        <input
+                            type="file"
+                            accept=".csv,.tsv,.txt"
+                            onChange={handleFileUpload}
+                            aria-label="CSV file"
+                        />
+                        <label style={{ fontSize: '14px' }}>
+                            Encoding:{' '}
+                            <select value={encoding} onChange={(e) => setEncoding(e.target.value)}>
+                                {ENCODINGS.map(name => (
+                                    <option key={name} value={name}>{name}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </>
+                )}
+                {kind === 'url' && (
+                    <>
+                        <input
+                            type="url"
+                            value={url}
+                            onChange={(e) => setUrl(e.target.value)}
+                            placeholder="https://example.com/data.csv"
+                            aria-label="Data URL"
+                            style={{ flex: 1, minWidth: '250px' }}
+                        />
+                        <select value={format} onChange={(e) => setFormat(e.target.value as UrlFormat)} aria-label="Format">
+                            {(Object.keys(URL_FORMAT_LABELS) as UrlFormat[]).map(option => (
+                                <option key={option} value={option}>{URL_FORMAT_LABELS[option]}</option>
+                            ))}
+                        </select>
+                        <button onClick={() => load({ kind: 'url', url: url.trim(), format })} disabled={!url.trim()} style={{ padding: '5px 10px' }}>
+                            Load
+                        </button>
+                    </>
+                )}
+                {kind === 'rest' && (
+                    <>
+                        <input
+                            type="url"
+                            value={restUrl}
+                            onChange={(e) => setRestUrl(e.target.value)}
+                            aria-label="Endpoint URL"
+                            style={{ flex: 1, minWidth: '250px' }}
+                        />
+                        <label style={{ fontSize: '14px' }}>
+                            Page size:{' '}
+                            <input
+                                type="number"
+                                min={1}
+                                value={pageSize}
+                                onChange={(e) => setPageSize(Math.max(1, Number(e.target.value) || 1))}
+                                style={{ width: '80px' }}
+                            />
+                        </label>
+                        <button
+                            onClick={() => load({ kind: 'rest', url: restUrl.trim(), pageSize })}
+                            disabled={!restUrl.trim()}
+                            style={{ padding: '5px 10px' }}
+                        >
+                            Load
+                        </button>
+                    </>
+                )}
+                {kind === 'server' && (
+                    <>
+                        <input
+                            type="url"
+                            value={serverUrl}
+                            onChange={(e) => setServerUrl(e.target.value)}
+                            aria-label="Data server URL"
+                            style={{ flex: 1, minWidth: '250px' }}
+                        />
+                        <button onClick={() => connect(serverUrl.trim())} disabled={!serverUrl.trim()} style={{ padding: '5px 10px' }}>
+                            Connect
+                        </button>
+                    </>
+                )}
+            </div>
             <div style={{ fontSize: '14px', color: '#666' }}>
-                Upload your CSV file with numeric columns
+                {kind === 'csv-file' && 'Upload a CSV file with a header row; column types are detected automatically'}
+                {kind === 'url' && 'The server has to allow cross-origin requests; JSON can be an array or an object wrapping one'}
+                {kind === 'rest' && <>Pages are requested with ?page=1&amp;pageSize=N; <code>npm run mock-server</code> serves a test endpoint</>}
+                {kind === 'server' && <>Filtering, sorting and paging run on the server; start one with <code>npm run server -- data.csv</code></>}
             </div>
             <div style={{ fontSize: '14px', color: '#666', marginTop: '5px' }}>
-                Current dataset has {state.data.length} rows
+                {state.server
+                    ? `Current dataset has ${state.server.rowCount} rows on ${state.server.url}`
+                    : `Current dataset has ${state.data.length} rows`}
+                {activeDataset && activeServer && (
+                    <button
+                        onClick={() => connect(activeServer.url, activeDataset)}
+                        disabled={!!progress}
+                        title="Reads the columns and row count from the server again"
+                        style={{ marginLeft: '10px', padding: '2px 8px' }}
+                    >
+                        Reconnect
+                    </button>
+                )}
+                {activeDataset && activeSource && (
+                    <button
+                        onClick={() => load(activeSource, activeDataset)}
+                        disabled={!!progress}
+                        title={activeSource.kind === 'csv-file' ? 'Reads the file again as it was when picked' : 'Loads the data again from its URL'}
+                        style={{ marginLeft: '10px', padding: '2px 8px' }}
+                    >
+                        Refresh
+                    </button>
+                )}
+            </div>
+            {progress && (
+                <div style={{ marginTop: '10px', fontSize: '14px' }}>
+                    {/* Without a known size the bar is indeterminate */}
+                    <progress
+                        value={progress.totalBytes ? progress.loadedBytes : undefined}
+                        max={progress.totalBytes || 1}
+                        style={{ width: '300px', verticalAlign: 'middle' }}
+                    />
+                    <span style={{ marginLeft: '10px' }}>
+                        Loading {progress.fileName}
+                        {progress.totalBytes > 0 && `: ${Math.round(100 * progress.loadedBytes / progress.totalBytes)}%`}
+                        {' '}({progress.rowCount} rows)
+                    </span>
+                    <button onClick={handleCancel} style={{ marginLeft: '10px', padding: '2px 8px' }}>
+                        Cancel
+                    </button>
+                </div>
+            )}
+            <ParseReportPanel />
+        </div>
+    );
+};
+
+interface LibraryEntry {
+    id: string;
+    name: string;
+    rowCount: number;
+    columnCount: number;
+    // In memory this session, and in IndexedDB
+    loaded: boolean;
+    saved: boolean;
+}
+
+const DatasetManager: React.FC = () => {
+    const { state, dispatch } = useAppContext();
+    const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+    const [join, setJoin] = useState({ leftId: '', rightId: '', leftKey: '', rightKey: '', kind: 'inner' as JoinKind });
+    const [joinError, setJoinError] = useState<string | null>(null);
+
+    const datasetById = (id: string) => state.datasets.find(candidate => candidate.id === id);
+
+    // Joins run over rows in memory, so datasets on a data server are left out
+    const joinable = state.datasets.filter(dataset => !dataset.server);
+    const joinableById = (id: string) => joinable.find(candidate => candidate.id === id);
+
+    // Choices that no longer exist fall back to the first dataset and its first column
+    const left = joinableById(join.leftId) ?? joinable[0];
+    const right = joinableById(join.rightId) ?? joinable[1] ?? joinable[0];
+    const leftKey = left?.columns.includes(join.leftKey) ? join.leftKey : left?.columns[0] ?? '';
+    const rightKey = right?.columns.includes(join.rightKey) ? join.rightKey : right?.columns[0] ?? '';
+
+    const handleJoin = () => {
+        if (!left || !right || !leftKey || !rightKey) return;
+        const result = joinDatasets(
+            { name: left.name, data: left.data, columns: left.columns, schema: left.schema, key: leftKey },
+            { name: right.name, data: right.data, columns: right.columns, schema: right.schema, key: rightKey },
+            join.kind
+        );
+        if (result.data.length === 0 && join.kind === 'inner') {
+            setJoinError(`No rows of ${left.name} and ${right.name} share a ${leftKey} / ${rightKey} value`);
+        } else {
+            setJoinError(null);
+        }
+        dispatch({
+            type: 'SET_DATA',
+            payload: { id: newDatasetId(), name: `${left.name} ${join.kind} join ${right.name}`, data: result.data, columns: result.columns, schema: result.schema }
+        });
+    };
+
+    // Loaded datasets first, then the ones only in the library, then the sample if it is in neither
+    const entries: LibraryEntry[] = [
+        ...state.datasets.map(dataset => ({
+            id: dataset.id,
+            name: dataset.name,
+            rowCount: dataset.server?.rowCount ?? dataset.data.length,
+            columnCount: dataset.columns.length,
+            loaded: true,
+            saved: state.library.some(info => info.id === dataset.id)
+        })),
+        ...state.library
+            .filter(info => !datasetById(info.id))
+            .map(info => ({ id: info.id, name: info.name, rowCount: info.rowCount, columnCount: info.columns.length, loaded: false, saved: true }))
+    ];
+    const hasSample = entries.some(entry => entry.id === SAMPLE_ID);
+
+    const reportError = (message: string) => dispatch({ type: 'SET_LIBRARY_ERROR', payload: message });
+
+    const openEntry = (entry: LibraryEntry) => {
+        if (entry.loaded) {
+            dispatch({ type: 'SELECT_DATASET', payload: entry.id });
+            return;
+        }
+        loadStoredDataset(entry.id).then(
+            stored => stored
+                ? dispatch({ type: 'SET_DATA', payload: storedDatasetPayload(stored) })
+                : reportError(`${entry.name} is no longer in the library`),
+            (error: Error) => reportError(`${entry.name} could not be opened: ${error.message}`)
+        );
+    };
+
+    const loadSample = () => {
+        loadSampleDataset().then(
+            payload => dispatch({ type: 'SET_DATA', payload }),
+            (error: Error) => reportError(error.message)
+        );
+    };
+
+    // Loaded datasets are renamed in memory and saved from there; library-only ones directly
+    const submitRename = () => {
+        setRenaming(null);
+        if (!renaming) return;
+        if (datasetById(renaming.id)) {
+            dispatch({ type: 'RENAME_DATASET', payload: renaming });
+            return;
+        }
+        const name = renaming.name.trim();
+        if (!name) return;
+        renameStoredDataset(renaming.id, uniqueDatasetName([...state.datasets, ...state.library], name, renaming.id)).then(
+            () => refreshLibrary(dispatch),
+            (error: Error) => reportError(`The dataset could not be renamed: ${error.message}`)
+        );
+    };
+
+    const deleteEntry = (entry: LibraryEntry) => {
+        if (entry.loaded) dispatch({ type: 'REMOVE_DATASET', payload: entry.id });
+        if (!entry.saved) return;
+        deleteStoredDataset(entry.id).then(
+            () => refreshLibrary(dispatch),
+            (error: Error) => reportError(`${entry.name} could not be deleted: ${error.message}`)
+        );
+    };
+
+    return (
+        <div style={{ marginBottom: '20px', padding: '10px', border: '1px solid #ccc' }}>
+            <h3>Dataset Library</h3>
+            <ul style={{ margin: '0 0 10px 0', paddingLeft: '20px' }}>
+                {entries.map(entry => {
+                    const active = entry.id === state.activeDatasetId;
+                    return (
+                        <li key={entry.id} style={{ marginBottom: '5px' }}>
+                            {renaming?.id === entry.id ? (
+                                <input
+                                    type="text"
+                                    value={renaming.name}
+                                    onChange={(e) => setRenaming({ id: entry.id, name: e.target.value })}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') submitRename();
+                                        if (e.key === 'Escape') setRenaming(null);
+                                    }}
+                                    onBlur={submitRename}
+                                    aria-label={`New name for ${entry.name}`}
+                                    autoFocus
+                                />
+                            ) : (
+                                <strong style={{ fontWeight: active ? 'bold' : 'normal' }}>{entry.name}</strong>
+                            )}
+                            <span style={{ fontSize: '12px', color: '#666', marginLeft: '10px' }}>
+                                {entry.rowCount} rows, {entry.columnCount} columns
+                                {active ? ' (active)' : entry.loaded ? ' (loaded)' : ''}
+                                {!entry.saved && ' (not saved yet)'}
+                            </span>
+                            {!active && (
+                                <button onClick={() => openEntry(entry)} style={{ marginLeft: '10px', padding: '2px 8px' }}>
+                                    Open
+                                </button>
+                            )}
+                            <button
+                                onClick={() => setRenaming({ id: entry.id, name: entry.name })}
+                                style={{ marginLeft: '5px', padding: '2px 8px' }}
+                            >
+                                Rename
+                            </button>
+                            <button onClick={() => deleteEntry(entry)} style={{ marginLeft: '5px', padding: '2px 8px' }}>
+                                Delete
+                            </button>
+                        </li>
+                    );
+                })}
+                {!hasSample && (
+                    <li style={{ marginBottom: '5px' }}>
+                        {SAMPLE_NAME}
+                        <span style={{ fontSize: '12px', color: '#666', marginLeft: '10px' }}>bundled with the app</span>
+                        <button onClick={loadSample} style={{ marginLeft: '10px', padding: '2px 8px' }}>
+                            Load
+                        </button>
+                    </li>
+                )}
+            </ul>
+            {state.libraryError && <div style={{ color: '#b00020', fontSize: '14px', marginBottom: '10px' }}>{state.libraryError}</div>}
+
+            {joinable.length > 0 && (
+                <>
+                    <h4 style={{ margin: '0 0 5px 0' }}>Join datasets</h4>
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', alignItems: 'center' }}>
+                        <select
+                            value={left?.id ?? ''}
+                            onChange={(e) => setJoin({ ...join, leftId: e.target.value })}
+                            aria-label="Left dataset"
+                        >
+                            {joinable.map(dataset => (
+                                <option key={dataset.id} value={dataset.id}>{dataset.name}</option>
+                            ))}
+                        </select>
+                        <label>
+                            on{' '}
+                            <select value={leftKey} onChange={(e) => setJoin({ ...join, leftKey: e.target.value })} aria-label="Left key column">
+                                {left?.columns.map(column => (
+                                    <option key={column} value={column}>{column}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <select value={join.kind} onChange={(e) => setJoin({ ...join, kind: e.target.value as JoinKind })} aria-label="Join type">
+                            {(Object.keys(JOIN_KIND_LABELS) as JoinKind[]).map(kind => (
+                                <option key={kind} value={kind}>{JOIN_KIND_LABELS[kind]}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={right?.id ?? ''}
+                            onChange={(e) => setJoin({ ...join, rightId: e.target.value })}
+                            aria-label="Right dataset"
+                        >
+                            {joinable.map(dataset => (
+                                <option key={dataset.id} value={dataset.id}>{dataset.name}</option>
+                            ))}
+                        </select>
+                        <label>
+                            on{' '}
+                            <select value={rightKey} onChange={(e) => setJoin({ ...join, rightKey: e.target.value })} aria-label="Right key column">
+                                {right?.columns.map(column => (
+                                    <option key={column} value={column}>{column}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <button onClick={handleJoin} disabled={!leftKey || !rightKey} style={{ padding: '5px 10px' }}>
+                            Join into new dataset
+                        </button>
+                    </div>
+                    <div style={{ fontSize: '12px', color: '#666', marginTop: '5px' }}>
+                        Right-hand columns whose names are already taken get the dataset name appended
+                    </div>
+                    {joinError && <div style={{ color: '#8a6d00', fontSize: '14px', marginTop: '5px' }}>{joinError}</div>}
+                </>
+            )}
+        </div>
+    );
+};
+
+const ParseReportPanel: React.FC = () => {
+    const { state, dispatch } = useAppContext();
+    const report = state.parseReport;
+
+    if (!report) return null;
+
+    const delimiterLabel = report.meta?.delimiter === '\t' ? 'tab' : `"${report.meta?.delimiter}"`;
+
+    return (
+        <div style={{ marginTop: '10px', fontSize: '14px' }}>
+            <div style={{ color: '#666' }}>
+                {report.fileName}
+                {report.meta && `: ${report.meta.rowCount} rows, ${delimiterLabel} delimited, ${report.meta.encoding}`}
+                <button
+                    onClick={() => dispatch({ type: 'SET_PARSE_REPORT', payload: null })}
+                    style={{ marginLeft: '10px', padding: '2px 8px' }}
+                >
+                    Dismiss
+                </button>
             </div>
+            {report.errors.length > 0 && (
+                <ul style={{ color: '#b00020', margin: '5px 0' }}>
+                    {report.errors.map((issue, index) => (
+                        <li key={index}>{issue.message}</li>
+                    ))}
+                </ul>
+            )}
+            {report.warnings.length > 0 && (
+                <ul style={{ color: '#8a6d00', margin: '5px 0', maxHeight: '120px', overflowY: 'auto' }}>
+                    {report.warnings.map((issue, index) => (
+                        <li key={index}>{issue.message}</li>
+                    ))}
+                </ul>
+            )}
         </div>
     );
 };
 
+const TYPE_AHEAD_RESET_MS = 500;
+
 const FilterDropdown: React.FC<{ column: string }> = ({ column }) => {
     const { state, dispatch, getFilteredValues } = useAppContext();
+    const [valueOrder, setValueOrder] = useState<'value' | 'count'>('value');
+    const [activeIndex, setActiveIndex] = useState(-1);
+    const idPrefix = useId();
+    const containerRef = useRef<HTMLDivElement>(null);
+    const triggerRef = useRef<HTMLButtonElement>(null);
+    const searchRef = useRef<HTMLInputElement>(null);
+    const listboxRef = useRef<HTMLDivElement>(null);
+    const typeAheadRef = useRef({ text: '', time: 0 });
+    const open = !!state.dropdownOpen[column];
 
-    const handleMultiSelectChange = (value: number) => {
-        const currentValues = state.filters[column] || [];
-        const newValues = currentValues.includes(value)
-            ? currentValues.filter(v => v !== value)
-            : [...currentValues, value];
+    const columnType = state.schema[column]?.type ?? 'string';
+    const filter = state.filters[column] ?? emptyFilter();
+    const selectedValues = filter.mode === 'values' ? filter.values : [];
 
-        dispatch({ type: 'SET_FILTER', payload: { filterType: column, values: newValues } });
-        dispatch({ type: 'RESET_PAGINATION' });
+    const options = getFilteredValues(column, state.searchTerms[column] || '');
+    if (valueOrder === 'count') options.sort((a, b) => b.count - a.count);
+    const visibleValues = options.map(option => option.value);
+    const activeOption = activeIndex >= 0 ? options[activeIndex] : undefined;
+    const triggerText = selectedValues.length === 0 ? 'Select values...' : `${selectedValues.length} selected`;
+
+    // Opening moves focus into the search box
+    useEffect(() => {
+        if (open) searchRef.current?.focus();
+    }, [open]);
+
+    // A click anywhere outside closes the dropdown without taking focus away from where it went
+    useEffect(() => {
+        if (!open) return;
+        const handlePointerDown = (event: PointerEvent) => {
+            if (!containerRef.current?.contains(event.target as Node)) {
+                dispatch({ type: 'CLOSE_DROPDOWN', payload: column });
+            }
+        };
+        document.addEventListener('pointerdown', handlePointerDown);
+        return () => document.removeEventListener('pointerdown', handlePointerDown);
+    }, [open, column, dispatch]);
+
+    useEffect(() => {
+        if (activeIndex >= 0) document.getElementById(`${idPrefix}-option-${activeIndex}`)?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex, idPrefix]);
+
+    // Bulk actions only touch the values the search leaves visible; hidden selections stay as they are
+    const selectAllVisible = () => {
+        setFilter({ mode: 'values', values: [...selectedValues, ...visibleValues.filter(value => !selectedValues.includes(value))] });
+    };
+
+    const clearVisible = () => {
+        setFilter({ mode: 'values', values: selectedValues.filter(value => !visibleValues.includes(value)) });
+    };
+
+    const invertVisible = () => {
+        setFilter({
+            mode: 'values',
+            values: [
+                ...selectedValues.filter(value => !visibleValues.includes(value)),
+                ...visibleValues.filter(value => !selectedValues.includes(value))
+            ]
+        });
+    };
+
+    const handleMultiSelectChange = (value: CellValue) => {
+        const newValues = selectedValues.includes(value)
+            ? selectedValues.filter(v => v !== value)
+            : [...selectedValues, value];
+
+        setFilter({ mode: 'values', values: newValues });
     };
 
     const handleSearchChange = (value: string) => {
         dispatch({ type: 'SET_SEARCH_TERM', payload: { filterType: column, value } });
+        setActiveIndex(-1);
     };
 
     const toggleDropdown = () => {
         dispatch({ type: 'TOGGLE_DROPDOWN', payload: column });
+        setActiveIndex(-1);
+    };
+
+    const closeDropdown = (returnFocus: boolean) => {
+        dispatch({ type: 'CLOSE_DROPDOWN', payload: column });
+        if (returnFocus) triggerRef.current?.focus();
+    };
+
+    const optionLabel = (value: CellValue) => value === null ? '(empty)' : formatValue(value, columnType);
+    const optionId = (index: number) => `${idPrefix}-option-${index}`;
+
+    const moveActive = (index: number) => {
+        if (options.length === 0) return;
+        setActiveIndex(Math.max(0, Math.min(options.length - 1, index)));
+    };
+
+    // Typing jumps to the next value starting with what was typed in the last half second
+    const typeAhead = (char: string) => {
+        const now = Date.now();
+        const buffer = now - typeAheadRef.current.time < TYPE_AHEAD_RESET_MS ? typeAheadRef.current.text + char : char;
+        typeAheadRef.current = { text: buffer, time: now };
+        // A repeated letter cycles through the values starting with it, however quickly it is typed
+        const repeated = [...buffer].every(typed => typed === char);
+        const needle = (repeated ? char : buffer).toLowerCase();
+        const start = repeated ? activeIndex + 1 : Math.max(activeIndex, 0);
+        for (let offset = 0; offset < options.length; offset++) {
+            const index = (start + offset) % options.length;
+            if (optionLabel(options[index].value).toLowerCase().startsWith(needle)) {
+                setActiveIndex(index);
+                return;
+            }
+        }
+    };
+
+    const handleListboxKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        // Moving by other means starts the next type-ahead afresh
+        if (e.key.length !== 1) typeAheadRef.current = { text: '', time: 0 };
+        switch (e.key) {
+            case 'ArrowDown':
+                e.preventDefault();
+                moveActive(activeIndex + 1);
+                break;
+            case 'ArrowUp':
+                e.preventDefault();
+                if (activeIndex <= 0) {
+                    searchRef.current?.focus();
+                } else {
+                    moveActive(activeIndex - 1);
+                }
+                break;
+            case 'Home':
+                e.preventDefault();
+                moveActive(0);
+                break;
+            case 'End':
+                e.preventDefault();
+                moveActive(options.length - 1);
+                break;
+            case ' ':
+            case 'Enter':
+                e.preventDefault();
+                if (activeOption) handleMultiSelectChange(activeOption.value);
+                break;
+            default:
+                if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+                    e.preventDefault();
+                    typeAhead(e.key);
+                }
+        }
+    };
+
+    const isComputed = state.computedColumns.some(computed => computed.name === column);
+
+    const handleTypeChange = (value: ColumnType) => {
+        dispatch({ type: 'SET_COLUMN_TYPE', payload: { column, columnType: value } });
+    };
+
+    const setFilter = (next: ColumnFilter) => {
+        dispatch({ type: 'SET_FILTER', payload: { filterType: column, filter: next } });
+        dispatch({ type: 'RESET_PAGINATION' });
     };
 
     return (
         <div style={{ position: 'relative', minWidth: '200px' }}>
             <label>{column} dropdown: </label>
-            <div style={{ position: 'relative' }}>
-                <div 
-                    onClick={toggleDropdown}
-                    style={{ 
-                        border: '1px solid #ccc', 
-                        padding: '8px', 
-                        cursor: 'pointer',
-                        backgroundColor: 'white',
-                        minHeight: '20px'
-                    }}
+            <select
+                value={columnType}
+                onChange={(e) => handleTypeChange(e.target.value as ColumnType)}
+                disabled={isComputed || !!state.server}
+                title={isComputed
+                    ? 'Computed column, typed by its formula'
+                    : state.server ? 'Typed by the data server' : `Detected as ${state.schema[column]?.inferredType ?? 'string'}`}
+                style={{ marginLeft: '5px', fontSize: '12px' }}
+            >
+                {COLUMN_TYPES.map(type => (
+                    <option key={type} value={type}>
+                        {type}{type === state.schema[column]?.inferredType ? ' (detected)' : ''}
+                    </option>
+                ))}
+            </select>
+            {state.schema[column]?.nullable && (
+                <span style={{ marginLeft: '5px', fontSize: '12px', color: '#666' }}>nullable</span>
+            )}
+            <div style={{ margin: '5px 0' }}>
+                <select
+                    value={filter.mode}
+                    onChange={(e) => setFilter(emptyFilter(e.target.value as FilterMode))}
+                    aria-label={`${column} filter mode`}
+                    style={{ fontSize: '12px' }}
                 >
-                    {(state.filters[column] || []).length === 0 
-                        ? 'Select values...' 
-                        : `${(state.filters[column] || []).length} selected`
-                    }
-                </div>
+                    {filterModesFor(columnType).map(mode => (
+                        <option key={mode} value={mode}>{FILTER_MODE_LABELS[mode]}</option>
+                    ))}
+                </select>
+            </div>
 
-                {state.dropdownOpen[column] && (
-                    <div style={{
-                        position: 'absolute',
-                        top: '100%',
-                        left: 0,
-                        right: 0,
-                        backgroundColor: 'white',
-                        border: '1px solid #ccc',
-                        borderTop: 'none',
-                        maxHeight: '200px',
-                        zIndex: 1000,
-                        boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
-                    }}>
-                        <input
-                            type="text"
-                            placeholder={`Search ${column}...`}
-                            value={state.searchTerms[column] || ''}
-                            onChange={(e) => handleSearchChange(e.target.value)}
+            {filter.mode === 'range' && <RangeFilterControl column={column} filter={filter} onChange={setFilter} />}
+            {filter.mode === 'compare' && <CompareFilterControl column={column} filter={filter} onChange={setFilter} />}
+            {filter.mode === 'text' && <TextFilterControl column={column} filter={filter} onChange={setFilter} />}
+            {filter.mode === 'empty' && <EmptyFilterControl column={column} filter={filter} onChange={setFilter} />}
+
+            {filter.mode === 'values' && (
+                <div ref={containerRef} style={{ position: 'relative' }}>
+                    <button
+                        ref={triggerRef}
+                        type="button"
+                        aria-haspopup="listbox"
+                        aria-expanded={open}
+                        aria-controls={open ? `${idPrefix}-popup` : undefined}
+                        aria-label={`${column} values: ${triggerText}`}
+                        onClick={toggleDropdown}
+                        onKeyDown={(e) => {
+                            if (!open && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+                                e.preventDefault();
+                                toggleDropdown();
+                            }
+                        }}
+                        style={{
+                            display: 'block',
+                            width: '100%',
+                            textAlign: 'left',
+                            border: '1px solid #ccc',
+                            padding: '8px',
+                            cursor: 'pointer',
+                            backgroundColor: 'white',
+                            minHeight: '20px',
+                            font: 'inherit'
+                        }}
+                    >
+                        {triggerText}
+                    </button>
+
+                    {open && (
+                        <div
+                            id={`${idPrefix}-popup`}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Escape') {
+                                    e.preventDefault();
+                                    closeDropdown(true);
+                                }
+                            }}
                             style={{
-                                width: '100%',
-                                padding: '8px',
-                                border: 'none',
-                                borderBottom: '1px solid #eee',
-                                boxSizing: 'border-box'
+                                position: 'absolute',
+                                top: '100%',
+                                left: 0,
+                                right: 0,
+                                backgroundColor: 'white',
+                                border: '1px solid #ccc',
+                                borderTop: 'none',
+                                zIndex: 1000,
+                                boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
                             }}
-                        />
+                        >
+                            <input
+                                ref={searchRef}
+                                type="text"
+                                role="combobox"
+                                aria-label={`Search ${column} values`}
+                                aria-expanded={true}
+                                aria-controls={`${idPrefix}-listbox`}
+                                aria-autocomplete="list"
+                                aria-activedescendant={activeOption ? optionId(activeIndex) : undefined}
+                                placeholder={`Search ${column}...`}
+                                value={state.searchTerms[column] || ''}
+                                onChange={(e) => handleSearchChange(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                                        e.preventDefault();
+                                        listboxRef.current?.focus();
+                                        moveActive(e.key === 'ArrowDown' ? 0 : options.length - 1);
+                                    } else if (e.key === 'Enter' && activeOption) {
+                                        e.preventDefault();
+                                        handleMultiSelectChange(activeOption.value);
+                                    }
+                                }}
+                                style={{
+                                    width: '100%',
+                                    padding: '8px',
+                                    border: 'none',
+                                    borderBottom: '1px solid #eee',
+                                    boxSizing: 'border-box'
+                                }}
+                            />
 
-                        <div style={{ maxHeight: '150px', overflowY: 'auto' }}>
-                            {getFilteredValues(column, state.searchTerms[column] || '').map(value => (
-                                <div
-                                    key={value}
-                                    onClick={() => handleMultiSelectChange(value)}
-                                    style={{
-                                        padding: '8px',
-                                        cursor: 'pointer',
-                                        backgroundColor: (state.filters[column] || []).includes(value) ? '#e6f3ff' : 'white',
-                                        borderBottom: '1px solid #f0f0f0'
-                                    }}
+                            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '5px', padding: '5px', borderBottom: '1px solid #eee', fontSize: '12px' }}>
+                                <button onClick={selectAllVisible} disabled={visibleValues.length === 0}>Select all</button>
+                                <button onClick={clearVisible} disabled={selectedValues.length === 0}>Clear</button>
+                                <button onClick={invertVisible} disabled={visibleValues.length === 0}>Invert</button>
+                                <select
+                                    value={valueOrder}
+                                    onChange={(e) => setValueOrder(e.target.value as 'value' | 'count')}
+                                    aria-label={`Sort ${column} values`}
+                                    style={{ fontSize: '12px', marginLeft: 'auto' }}
                                 >
-                                    <input
-                                        type="checkbox"
-                                        checked={(state.filters[column] || []).includes(value)}
-                                        onChange={() => {}}
-                                        style={{ marginRight: '8px' }}
-                                    />
-                                    {value}
-                                </div>
-                            ))}
+                                    <option value="value">By value</option>
+                                    <option value="count">By count</option>
+                                </select>
+                            </div>
+
+                            <div
+                                ref={listboxRef}
+                                id={`${idPrefix}-listbox`}
+                                role="listbox"
+                                aria-multiselectable="true"
+                                aria-label={`${column} values`}
+                                aria-activedescendant={activeOption ? optionId(activeIndex) : undefined}
+                                tabIndex={0}
+                                onKeyDown={handleListboxKeyDown}
+                                style={{ maxHeight: '150px', overflowY: 'auto' }}
+                            >
+                                {options.length === 0 && (
+                                    <div style={{ padding: '8px', color: '#666' }}>No matching values</div>
+                                )}
+                                {options.map(({ value, count }, index) => {
+                                    const selected = selectedValues.includes(value);
+                                    return (
+                                        <div
+                                            key={String(value)}
+                                            id={optionId(index)}
+                                            role="option"
+                                            aria-selected={selected}
+                                            onClick={() => {
+                                                setActiveIndex(index);
+                                                handleMultiSelectChange(value);
+                                            }}
+                                            style={{
+                                                padding: '8px',
+                                                cursor: 'pointer',
+                                                backgroundColor: selected ? '#e6f3ff' : 'white',
+                                                borderBottom: '1px solid #f0f0f0',
+                                                outline: index === activeIndex ? '2px solid #007bff' : 'none',
+                                                outlineOffset: '-2px'
+                                            }}
+                                        >
+                                            <span aria-hidden="true" style={{ marginRight: '8px' }}>{selected ? '☑' : '☐'}</span>
+                                            {optionLabel(value)}
+                                            <span style={{ float: 'right', color: '#666', fontSize: '12px' }}>
+                                                {count}
+                                            </span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
                         </div>
-                    </div>
-                )}
-            </div>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
 
-const Filters: React.FC = () => {
-    const { state } = useAppContext();
-    
+type RangeFilter = Extract<ColumnFilter, { mode: 'range' }>;
+type CompareFilter = Extract<ColumnFilter, { mode: 'compare' }>;
+type TextFilter = Extract<ColumnFilter, { mode: 'text' }>;
+type EmptyFilter = Extract<ColumnFilter, { mode: 'empty' }>;
+type ValuesFilter = Extract<ColumnFilter, { mode: 'values' }>;
+
+interface FilterControlProps<F extends ColumnFilter> {
+    column: string;
+    filter: F;
+    onChange: (filter: ColumnFilter) => void;
+}
+
+// Min/max sliders over the values still available under the other filters; dates get date pickers
+const RangeFilterControl: React.FC<FilterControlProps<RangeFilter>> = ({ column, filter, onChange }) => {
+    const { state, getAvailableValuesForFilter } = useAppContext();
+    const columnType = state.schema[column]?.type ?? 'float';
+
+    const numbers = getAvailableValuesForFilter(column).filter((value): value is number => typeof value === 'number');
+    const lowest = numbers.length > 0 ? numbers[0] : 0;
+    const highest = numbers.length > 0 ? numbers[numbers.length - 1] : 0;
+    const step = columnType === 'integer' ? 1 : (highest - lowest) / 100 || 1;
+
+    const setBounds = (min: number | null, max: number | null) => {
+        onChange({ mode: 'range', min, max });
+    };
+
+    const parseBound = (text: string) => {
+        if (text === '') return null;
+        const value = columnType === 'date' ? Date.parse(text) : Number(text);
+        return Number.isNaN(value) ? null : value;
+    };
+
+    if (columnType === 'date') {
+        const toInput = (value: number | null) => value === null ? '' : new Date(value).toISOString().slice(0, 10);
+        return (
+            <div style={{ fontSize: '14px' }}>
+                <input type="date" value={toInput(filter.min)} onChange={(e) => setBounds(parseBound(e.target.value), filter.max)} />
+                {' to '}
+                <input type="date" value={toInput(filter.max)} onChange={(e) => setBounds(filter.min, parseBound(e.target.value))} />
+            </div>
+        );
+    }
+
     return (
-        <div style={{ marginBottom: '20px', padding: '10px', border: '1px solid #ccc' }}>
-            <h3>Filters</h3>
-            <div style={{ display: 'flex', gap: '20px', alignItems: 'flex-start', flexWrap: 'wrap' }}>
-                {state.columns.map(column => (
-                    <FilterDropdown key={column} column={column} />
-                ))}
+        <div style={{ fontSize: '14px' }}>
+            <div>
+                <input
+                    type="range"
+                    min={lowest}
+                    max={highest}
+                    step={step}
+                    value={filter.min ?? lowest}
+                    onChange={(e) => setBounds(Math.min(Number(e.target.value), filter.max ?? highest), filter.max)}
+                    aria-label={`${column} minimum`}
+                />
+                <input
+                    type="number"
+                    value={filter.min ?? ''}
+                    placeholder={String(lowest)}
+                    onChange={(e) => setBounds(parseBound(e.target.value), filter.max)}
+                    style={{ width: '80px', marginLeft: '5px' }}
+                />
             </div>
-            <div style={{ marginTop: '10px', fontSize: '14px', color: '#666' }}>
-                Green - selected, White - unselected
+            <div>
+                <input
+                    type="range"
+                    min={lowest}
+                    max={highest}
+                    step={step}
+                    value={filter.max ?? highest}
+                    onChange={(e) => setBounds(filter.min, Math.max(Number(e.target.value), filter.min ?? lowest))}
+                    aria-label={`${column} maximum`}
+                />
+                <input
+                    type="number"
+                    value={filter.max ?? ''}
+                    placeholder={String(highest)}
+                    onChange={(e) => setBounds(filter.min, parseBound(e.target.value))}
+                    style={{ width: '80px', marginLeft: '5px' }}
+                />
             </div>
+            {(filter.min !== null || filter.max !== null) && (
+                <button onClick={() => setBounds(null, null)} style={{ padding: '2px 8px' }}>Reset range</button>
+            )}
         </div>
     );
 };
 
-const DataTable: React.FC = () => {
-    const { state, dispatch, filteredData, paginatedData, visibleData, totalPages, maxScrollIndex } = useAppContext();
+const CompareFilterControl: React.FC<FilterControlProps<CompareFilter>> = ({ column, filter, onChange }) => {
+    const { state } = useAppContext();
+    const columnType = state.schema[column]?.type ?? 'string';
+    const invalid = filter.value.trim() !== '' && !isFilterActive(filter, columnType);
 
-    const handleScroll = (direction: 'up' | 'down') => {
-        if (direction === 'up' && state.scrollIndex > 0) {
-            dispatch({ type: 'SET_SCROLL_INDEX', payload: state.scrollIndex - 1 });
-        } else if (direction === 'down' && state.scrollIndex < maxScrollIndex) {
-            dispatch({ type: 'SET_SCROLL_INDEX', payload: state.scrollIndex + 1 });
-        }
+    const update = (changes: Partial<CompareFilter>) => {
+        onChange({ ...filter, ...changes });
     };
 
-    const handlePageChange = (direction: 'prev' | 'next') => {
-        if (direction === 'prev' && state.currentPage > 1) {
-            dispatch({ type: 'SET_CURRENT_PAGE', payload: state.currentPage - 1 });
-        } else if (direction === 'next' && state.currentPage < totalPages) {
-            dispatch({ type: 'SET_CURRENT_PAGE', payload: state.currentPage + 1 });
-        }
+    return (
+        <div style={{ display: 'flex', gap: '5px' }}>
+            <select value={filter.operator} onChange={(e) => update({ operator: e.target.value as CompareOperator })}>
+                {COMPARE_OPERATORS.map(operator => (
+                    <option key={operator} value={operator}>{operator}</option>
+                ))}
+            </select>
+            <input
+                type="text"
+                value={filter.value}
+                placeholder={columnType === 'date' ? 'YYYY-MM-DD' : 'value'}
+                onChange={(e) => update({ value: e.target.value })}
+                title={invalid ? `Not a valid ${columnType}` : undefined}
+                style={{ flex: 1, padding: '6px', borderColor: invalid ? '#b00020' : undefined }}
+            />
+        </div>
+    );
+};
+
+const TextFilterControl: React.FC<FilterControlProps<TextFilter>> = ({ filter, onChange }) => {
+    const invalid = filter.operator === 'regex' && !isValidRegex(filter.value);
+
+    const update = (changes: Partial<TextFilter>) => {
+        onChange({ ...filter, ...changes });
     };
 
     return (
-        <div style={{ marginBottom: '20px' }}>
-            <div style={{ marginBottom: '10px' }}>
-                <span>Total Records: {filteredData.length}</span>
+        <div style={{ fontSize: '14px' }}>
+            <div style={{ display: 'flex', gap: '5px' }}>
+                <select value={filter.operator} onChange={(e) => update({ operator: e.target.value as TextOperator })}>
+                    {(Object.keys(TEXT_OPERATOR_LABELS) as TextOperator[]).map(operator => (
+                        <option key={operator} value={operator}>{TEXT_OPERATOR_LABELS[operator]}</option>
+                    ))}
+                </select>
+                <input
+                    type="text"
+                    value={filter.value}
+                    onChange={(e) => update({ value: e.target.value })}
+                    style={{ flex: 1, padding: '6px', borderColor: invalid ? '#b00020' : undefined }}
+                />
+            </div>
+            <label>
+                <input
+                    type="checkbox"
+                    checked={filter.caseSensitive}
+                    onChange={(e) => update({ caseSensitive: e.target.checked })}
+                />
+                Case sensitive
+            </label>
+            {invalid && <div style={{ color: '#b00020' }}>Invalid regular expression</div>}
+        </div>
+    );
+};
+
+const EmptyFilterControl: React.FC<FilterControlProps<EmptyFilter>> = ({ filter, onChange }) => (
+    <select
+        value={filter.empty === null ? '' : filter.empty ? 'empty' : 'notEmpty'}
+        onChange={(e) => onChange({ mode: 'empty', empty: e.target.value === '' ? null : e.target.value === 'empty' })}
+        style={{ width: '100%', padding: '8px' }}
+    >
+        <option value="">any value</option>
+        <option value="empty">is empty</option>
+        <option value="notEmpty">is not empty</option>
+    </select>
+);
+
+// Compact multi-select for query conditions; the panel dropdown keeps its searchable checkbox list
+const ValuesFilterControl: React.FC<FilterControlProps<ValuesFilter>> = ({ column, filter, onChange }) => {
+    const { state, getAvailableValuesForFilter } = useAppContext();
+    const columnType = state.schema[column]?.type ?? 'string';
+    const available = getAvailableValuesForFilter(column);
+    // Keep selected values listed even when the other filters have ruled them out
+    const options = [...available, ...filter.values.filter(value => !available.includes(value))];
+
+    return (
+        <select
+            multiple
+            value={filter.values.map(value => String(options.indexOf(value)))}
+            onChange={(e) => onChange({
+                mode: 'values',
+                values: Array.from(e.target.selectedOptions, option => options[Number(option.value)])
+            })}
+            style={{ minWidth: '120px', maxHeight: '80px' }}
+        >
+            {options.map((value, index) => (
+                <option key={String(value)} value={index}>
+                    {value === null ? '(empty)' : formatValue(value, columnType)}
+                </option>
+            ))}
+        </select>
+    );
+};
+
+const Filters: React.FC = () => {
+    const { state } = useAppContext();
+    
+    return (
+        <div style={{ marginBottom: '20px', padding: '10px', border: '1px solid #ccc' }}>
+            <h3>Filters</h3>
+            <div style={{ display: 'flex', gap: '20px', alignItems: 'flex-start', flexWrap: 'wrap' }}>
+                {state.columns.map(column => (
+                    <FilterDropdown key={column} column={column} />
+                ))}
+            </div>
+            <div style={{ marginTop: '10px', fontSize: '14px', color: '#666' }}>
+                Blue - selected; white in value lists or grey in charts - not selected
+            </div>
+        </div>
+    );
+};
+
+const QueryConditionEditor: React.FC<{ condition: FilterCondition; onChange: (node: FilterExpression) => void; onRemove: () => void }> = ({ condition, onChange, onRemove }) => {
+    const { state } = useAppContext();
+    const columnType = state.schema[condition.column]?.type ?? 'string';
+    const filter = condition.filter;
+
+    const setFilter = (next: ColumnFilter) => onChange({ ...condition, filter: next });
+
+    return (
+        <div style={{ display: 'flex', gap: '5px', alignItems: 'flex-start', flexWrap: 'wrap', margin: '5px 0' }}>
+            <label style={{ fontSize: '12px' }}>
+                <input
+                    type="checkbox"
+                    checked={condition.negated}
+                    onChange={(e) => onChange({ ...condition, negated: e.target.checked })}
+                />
+                NOT
+            </label>
+            <select
+                value={condition.column}
+                onChange={(e) => onChange({ ...condition, column: e.target.value, filter: emptyFilter() })}
+            >
+                {state.columns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                ))}
+            </select>
+            <select value={filter.mode} onChange={(e) => setFilter(emptyFilter(e.target.value as FilterMode))}>
+                {filterModesFor(columnType).map(mode => (
+                    <option key={mode} value={mode}>{FILTER_MODE_LABELS[mode]}</option>
+                ))}
+            </select>
+            <div style={{ minWidth: '200px' }}>
+                {filter.mode === 'values' && <ValuesFilterControl column={condition.column} filter={filter} onChange={setFilter} />}
+                {filter.mode === 'range' && <RangeFilterControl column={condition.column} filter={filter} onChange={setFilter} />}
+                {filter.mode === 'compare' && <CompareFilterControl column={condition.column} filter={filter} onChange={setFilter} />}
+                {filter.mode === 'text' && <TextFilterControl column={condition.column} filter={filter} onChange={setFilter} />}
+                {filter.mode === 'empty' && <EmptyFilterControl column={condition.column} filter={filter} onChange={setFilter} />}
+            </div>
+            <button onClick={onRemove} style={{ padding: '2px 8px' }}>Remove</button>
+        </div>
+    );
+};
+
+const QueryGroupEditor: React.FC<{ group: FilterGroup; onChange: (group: FilterGroup) => void; onRemove?: () => void }> = ({ group, onChange, onRemove }) => {
+    const { state } = useAppContext();
+
+    // Nested groups edit their own children, so only direct children are replaced here
+    const replaceChild = (id: string, next: FilterExpression) =>
+        onChange({ ...group, children: group.children.map(child => child.id === id ? next : child) });
+    const removeChild = (id: string) => onChange(removeNode(group, id));
+    const addChild = (child: FilterExpression) => onChange({ ...group, children: [...group.children, child] });
+
+    return (
+        <div style={{ borderLeft: `3px solid ${group.operator === 'and' ? '#4a90d9' : '#d98c4a'}`, paddingLeft: '10px', margin: '5px 0' }}>
+            <div style={{ display: 'flex', gap: '5px', alignItems: 'center' }}>
+                <label style={{ fontSize: '12px' }}>
+                    <input
+                        type="checkbox"
+                        checked={group.negated}
+                        onChange={(e) => onChange({ ...group, negated: e.target.checked })}
+                    />
+                    NOT
+                </label>
+                <select value={group.operator} onChange={(e) => onChange({ ...group, operator: e.target.value as GroupOperator })}>
+                    <option value="and">All of (AND)</option>
+                    <option value="or">Any of (OR)</option>
+                </select>
+                <button
+                    onClick={() => addChild(createCondition(state.columns[0], emptyFilter()))}
+                    disabled={state.columns.length === 0}
+                    style={{ padding: '2px 8px' }}
+                >
+                    + Condition
+                </button>
+                <button onClick={() => addChild(createGroup(group.operator === 'and' ? 'or' : 'and'))} style={{ padding: '2px 8px' }}>
+                    + Group
+                </button>
+                {onRemove && <button onClick={onRemove} style={{ padding: '2px 8px' }}>Remove group</button>}
+            </div>
+            {group.children.map(child => child.kind === 'group'
+                ? (
+                    <QueryGroupEditor
+                        key={child.id}
+                        group={child}
+                        onChange={(next) => replaceChild(child.id, next)}
+                        onRemove={() => removeChild(child.id)}
+                    />
+                )
+                : (
+                    <QueryConditionEditor
+                        key={child.id}
+                        condition={child}
+                        onChange={(next) => replaceChild(child.id, next)}
+                        onRemove={() => removeChild(child.id)}
+                    />
+                )
+            )}
+        </div>
+    );
+};
+
+const QueryBuilder: React.FC = () => {
+    const { state, dispatch } = useAppContext();
+    // null while the text box mirrors the tree; a string once the user starts editing it
+    const [draft, setDraft] = useState<string | null>(null);
+    const [error, setError] = useState<{ message: string; position: number } | null>(null);
+
+    const setQuery = (query: FilterGroup) => {
+        dispatch({ type: 'SET_QUERY', payload: query });
+        dispatch({ type: 'RESET_PAGINATION' });
+        setDraft(null);
+        setError(null);
+    };
+
+    const applyDraft = () => {
+        if (draft === null) return;
+        const result = parseQuery(draft, state.schema);
+        if (result.expression) {
+            setQuery(result.expression);
+        } else {
+            setError(result.error);
+        }
+    };
+
+    return (
+        <div style={{ marginBottom: '20px', padding: '10px', border: '1px solid #ccc' }}>
+            <h3>Query Builder</h3>
+            <div style={{ fontSize: '14px', color: '#666' }}>
+                Combined with the filters above using AND
+            </div>
+            <QueryGroupEditor group={state.query} onChange={setQuery} />
+            <div style={{ marginTop: '10px' }}>
+                <textarea
+                    value={draft ?? formatQuery(state.query, state.schema)}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) applyDraft();
+                    }}
+                    placeholder="e.g. mod3 = 0 OR mod5 = 0"
+                    rows={2}
+                    style={{ width: '100%', boxSizing: 'border-box', fontFamily: 'monospace', padding: '6px' }}
+                />
+                <button onClick={applyDraft} disabled={draft === null} style={{ marginRight: '10px', padding: '5px 10px' }}>
+                    Apply query
+                </button>
+                <button
+                    onClick={() => { setDraft(null); setError(null); }}
+                    disabled={draft === null}
+                    style={{ marginRight: '10px', padding: '5px 10px' }}
+                >
+                    Revert
+                </button>
+                <button onClick={() => setQuery(createGroup())} style={{ padding: '5px 10px' }}>
+                    Clear query
+                </button>
+                {error && (
+                    <div style={{ color: '#b00020', fontSize: '14px', marginTop: '5px' }}>
+                        {error.message} (at character {error.position + 1})
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const ComputedColumns: React.FC = () => {
+    const { state, dispatch } = useAppContext();
+    const [draft, setDraft] = useState<ComputedColumn>({ name: '', formula: '' });
+
+    // Checked as it is typed, against the columns this formula is allowed to read
+    const name = draft.name.trim();
+    const redefining = state.computedColumns.some(computed => computed.name === name);
+    const nameError = !name
+        ? 'Enter a column name'
+        : state.schema[name] && !redefining ? `"${name}" is a loaded column` : null;
+    const result = draft.formula.trim()
+        ? compileFormula(draft.formula, formulaSchema(state.schema, redefining ? state.computedColumns : [], name))
+        : null;
+
+    const submit = () => {
+        if (nameError || !result?.formula) return;
+        dispatch({ type: 'ADD_COMPUTED_COLUMN', payload: { name, formula: draft.formula } });
+        setDraft({ name: '', formula: '' });
+    };
+
+    // Formulas run over rows in memory, which a data server never sends
+    if (state.columns.length === 0 || state.server) return null;
+
+    return (
+        <div style={{ marginBottom: '20px', padding: '10px', border: '1px solid #ccc' }}>
+            <h3>Computed Columns</h3>
+            {state.computedColumns.length > 0 && (
+                <ul style={{ margin: '0 0 10px 0', paddingLeft: '20px' }}>
+                    {state.computedColumns.map(computed => {
+                        const readers = formulaReaders(state.schema, state.computedColumns, computed.name);
+                        return (
+                            <li key={computed.name} style={{ marginBottom: '5px' }}>
+                                <strong>{computed.name}</strong> = <code>{computed.formula}</code>
+                                <span style={{ fontSize: '12px', color: '#666', marginLeft: '10px' }}>
+                                    {state.schema[computed.name]?.type}
+                                </span>
+                                <button onClick={() => setDraft(computed)} style={{ marginLeft: '10px', padding: '2px 8px' }}>
+                                    Edit
+                                </button>
+                                <button
+                                    onClick={() => dispatch({ type: 'REMOVE_COMPUTED_COLUMN', payload: computed.name })}
+                                    disabled={readers.length > 0}
+                                    title={readers.length > 0 ? `Used by ${readers.join(', ')}` : undefined}
+                                    style={{ marginLeft: '5px', padding: '2px 8px' }}
+                                >
+                                    Remove
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', alignItems: 'center' }}>
+                <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Column name"
+                    aria-label="Computed column name"
+                />
+                <input
+                    type="text"
+                    value={draft.formula}
+                    onChange={(e) => setDraft({ ...draft, formula: e.target.value })}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') submit();
+                    }}
+                    placeholder="e.g. IF(mod3 = 0, number / 3, 0)"
+                    aria-label="Formula"
+                    style={{ flex: 1, minWidth: '250px', fontFamily: 'monospace' }}
+                />
+                <button onClick={submit} disabled={!!nameError || !result?.formula} style={{ padding: '5px 10px' }}>
+                    {redefining ? 'Update column' : 'Add column'}
+                </button>
+            </div>
+            <div role="status" style={{ fontSize: '14px', marginTop: '5px' }}>
+                {result?.error && (
+                    <span style={{ color: '#b00020' }}>{result.error.message} (at character {result.error.position + 1})</span>
+                )}
+                {result?.formula && (nameError
+                    ? <span style={{ color: '#8a6d00' }}>{nameError}</span>
+                    : <span style={{ color: '#666' }}>Gives a {result.formula.type} column</span>)}
+            </div>
+            <div style={{ fontSize: '12px', color: '#666', marginTop: '5px' }}>
+                Operators: + - * / % &amp; = != &lt; &lt;= &gt; &gt;= AND OR NOT. Functions: {FORMULA_FUNCTIONS.join(', ')}
+            </div>
+        </div>
+    );
+};
+
+const ROW_HEIGHT_ESTIMATE = 35;
+const VIEWPORT_HEIGHT = 500;
+const OVERSCAN_ROWS = 10;
+const PAGE_SIZES = [50, 100, 500, 1000];
+
+const DEFAULT_COLUMN_WIDTH = 150;
+const MIN_COLUMN_WIDTH = 60;
+
+const ColumnChooser: React.FC = () => {
+    const { state, dispatch, visibleColumns } = useAppContext();
+    const [open, setOpen] = useState(false);
+
+    return (
+        <div style={{ display: 'inline-block', position: 'relative', marginBottom: '10px' }}>
+            <button onClick={() => setOpen(!open)} aria-expanded={open} style={{ padding: '5px 10px' }}>
+                Columns ({visibleColumns.length}/{state.columnOrder.length}) ▼
+            </button>
+            {open && (
+                <div style={{ position: 'absolute', top: '100%', left: 0, backgroundColor: 'white', border: '1px solid #ccc', borderRadius: '4px', padding: '5px', zIndex: 2, minWidth: '220px' }}>
+                    {state.columnOrder.map((column, index) => {
+                        const visible = !state.hiddenColumns.includes(column);
+                        return (
+                            <div key={column} style={{ display: 'flex', alignItems: 'center', padding: '3px' }}>
+                                <label style={{ flex: 1 }}>
+                                    <input
+                                        type="checkbox"
+                                        checked={visible}
+                                        // The table always keeps at least one column
+                                        disabled={visible && visibleColumns.length === 1}
+                                        onChange={() => dispatch({ type: 'SET_COLUMN_VISIBLE', payload: { column, visible: !visible } })}
+                                        style={{ marginRight: '5px' }}
+                                    />
+                                    {column}
+                                </label>
+                                <button
+                                    onClick={() => dispatch({ type: 'MOVE_COLUMN', payload: { column, before: state.columnOrder[index - 1] } })}
+                                    disabled={index === 0}
+                                    aria-label={`Move ${column} left`}
+                                >
+                                    ↑
+                                </button>
+                                <button
+                                    onClick={() => dispatch({ type: 'MOVE_COLUMN', payload: { column, before: state.columnOrder[index + 2] ?? null } })}
+                                    disabled={index === state.columnOrder.length - 1}
+                                    aria-label={`Move ${column} right`}
+                                    style={{ marginLeft: '3px' }}
+                                >
+                                    ↓
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Click sorts, shift-click adds a sort key, dragging the header reorders and the right edge resizes
+const DataTableHeader: React.FC = () => {
+    const { state, dispatch, visibleColumns } = useAppContext();
+    const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+    const resizing = useRef<{ column: string; startX: number; startWidth: number } | null>(null);
+
+    const widthOf = (column: string) => state.columnWidths[column] ?? DEFAULT_COLUMN_WIDTH;
+
+    const setWidth = (column: string, width: number) => {
+        dispatch({ type: 'SET_COLUMN_WIDTH', payload: { column, width: Math.max(MIN_COLUMN_WIDTH, Math.round(width)) } });
+    };
+
+    const handleSort = (column: string, additive: boolean) => {
+        dispatch({ type: 'TOGGLE_SORT', payload: { column, additive } });
+        dispatch({ type: 'RESET_PAGINATION' });
+    };
+
+    const handleDrop = (target: string) => {
+        if (draggedColumn && draggedColumn !== target) {
+            dispatch({ type: 'MOVE_COLUMN', payload: { column: draggedColumn, before: target } });
+        }
+        setDraggedColumn(null);
+    };
+
+    return (
+        <tr role="row" aria-rowindex={1} style={{ backgroundColor: '#f0f0f0' }}>
+            {visibleColumns.map(column => {
+                const sortIndex = state.sort.findIndex(key => key.column === column);
+                const sortKey = state.sort[sortIndex];
+                return (
+                    <th
+                        key={column}
+                        role="columnheader"
+                        aria-sort={sortKey ? (sortKey.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                        draggable
+                        onDragStart={(e) => {
+                            if (resizing.current) {
+                                e.preventDefault();
+                                return;
+                            }
+                            e.dataTransfer.setData('text/plain', column);
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDraggedColumn(column);
+                        }}
+                        onDragOver={(e) => {
+                            if (draggedColumn) e.preventDefault();
+                        }}
+                        onDrop={(e) => {
+                            e.preventDefault();
+                            handleDrop(column);
+                        }}
+                        onDragEnd={() => setDraggedColumn(null)}
+                        style={{
+                            border: '1px solid #ccc',
+                            borderLeft: draggedColumn && draggedColumn !== column ? '3px solid #007bff' : '1px solid #ccc',
+                            padding: '8px',
+                            textAlign: 'left',
+                            position: 'sticky',
+                            top: 0,
+                            backgroundColor: '#f0f0f0',
+                            zIndex: 1,
+                            opacity: draggedColumn === column ? 0.5 : 1,
+                            overflow: 'hidden'
+                        }}
+                    >
+                        <button
+                            onClick={(e) => handleSort(column, e.shiftKey)}
+                            title="Click to sort, Shift+click to sort by several columns"
+                            style={{ background: 'none', border: 'none', padding: 0, font: 'inherit', fontWeight: 'bold', cursor: 'pointer', textAlign: 'left' }}
+                        >
+                            {column}
+                            {sortKey && (
+                                <span style={{ marginLeft: '5px' }}>
+                                    {sortKey.direction === 'asc' ? '▲' : '▼'}
+                                    {state.sort.length > 1 && <sup>{sortIndex + 1}</sup>}
+                                </span>
+                            )}
+                        </button>
+                        <div
+                            role="separator"
+                            aria-orientation="vertical"
+                            aria-label={`Resize ${column}`}
+                            aria-valuenow={widthOf(column)}
+                            tabIndex={0}
+                            onPointerDown={(e) => {
+                                e.preventDefault();
+                                e.currentTarget.setPointerCapture(e.pointerId);
+                                resizing.current = { column, startX: e.clientX, startWidth: widthOf(column) };
+                            }}
+                            onPointerMove={(e) => {
+                                const drag = resizing.current;
+                                if (drag) setWidth(drag.column, drag.startWidth + e.clientX - drag.startX);
+                            }}
+                            onPointerUp={() => { resizing.current = null; }}
+                            onKeyDown={(e) => {
+                                if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+                                    e.preventDefault();
+                                    setWidth(column, widthOf(column) + (e.key === 'ArrowRight' ? 10 : -10));
+                                }
+                            }}
+                            style={{ position: 'absolute', top: 0, right: 0, bottom: 0, width: '6px', cursor: 'col-resize' }}
+                        />
+                    </th>
+                );
+            })}
+        </tr>
+    );
+};
+
+const DataTable: React.FC = () => {
+    const { state, dispatch, matchCount, visibleColumns, paginatedData, totalPages, remoteStatus } = useAppContext();
+    const containerRef = useRef<HTMLDivElement>(null);
+    const headerRef = useRef<HTMLTableSectionElement>(null);
+    const rowRefs = useRef(new Map<number, HTMLTableRowElement>());
+    const [scrollTop, setScrollTop] = useState(0);
+    const [activeRow, setActiveRow] = useState(0);
+    const [jumpTarget, setJumpTarget] = useState('');
+    const [, setMeasuredVersion] = useState(0);
+
+    // Rows start at an estimated height and are corrected as they get rendered and measured
+    const heights = useMemo(() => createHeightIndex(paginatedData.length, ROW_HEIGHT_ESTIMATE), [paginatedData]);
+
+    // A new filter or page starts back at the top; rows streaming in while loading do not
+    useEffect(() => {
+        if (containerRef.current) containerRef.current.scrollTop = 0;
+        setScrollTop(0);
+        setActiveRow(0);
+    }, [state.filters, state.query, state.sort, state.currentPage, state.tableMode, state.pageSize]);
+
+    const headerHeight = headerRef.current?.getBoundingClientRect().height ?? ROW_HEIGHT_ESTIMATE;
+    const bodyViewport = VIEWPORT_HEIGHT - headerHeight;
+    const firstVisible = heights.indexAt(scrollTop);
+    const lastVisible = heights.indexAt(scrollTop + bodyViewport);
+    const start = Math.max(0, firstVisible - OVERSCAN_ROWS);
+    const end = Math.min(paginatedData.length, lastVisible + 1 + OVERSCAN_ROWS);
+    const topPadding = heights.offsetOf(start);
+    const bottomPadding = heights.totalHeight() - heights.offsetOf(end);
+    const pageOffset = state.tableMode === 'paged' ? (state.currentPage - 1) * state.pageSize : 0;
+
+    // Measure the rows just rendered; a changed height re-renders with corrected offsets
+    useLayoutEffect(() => {
+        let changed = false;
+        rowRefs.current.forEach((row, index) => {
+            if (heights.setHeight(index, row.getBoundingClientRect().height)) changed = true;
+        });
+        if (changed) setMeasuredVersion(version => version + 1);
+    }, [heights, start, end, visibleColumns, state.columnWidths]);
+
+    const scrollToRow = (index: number, align: 'nearest' | 'start' = 'nearest') => {
+        const container = containerRef.current;
+        if (!container) return;
+        const top = heights.offsetOf(index);
+        const bottom = top + heights.heightOf(index);
+        if (align === 'start' || top < container.scrollTop) {
+            container.scrollTop = top;
+        } else if (bottom > container.scrollTop + bodyViewport) {
+            container.scrollTop = bottom - bodyViewport;
+        }
+    };
+
+    const moveActiveRow = (index: number) => {
+        if (paginatedData.length === 0) return;
+        const next = Math.max(0, Math.min(paginatedData.length - 1, index));
+        setActiveRow(next);
+        scrollToRow(next);
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+        const pageRows = Math.max(1, lastVisible - firstVisible);
+        const moves: { [key: string]: number } = {
+            ArrowDown: activeRow + 1,
+            ArrowUp: activeRow - 1,
+            PageDown: activeRow + pageRows,
+            PageUp: activeRow - pageRows,
+            Home: 0,
+            End: paginatedData.length - 1
+        };
+        if (event.key in moves) {
+            event.preventDefault();
+            moveActiveRow(moves[event.key]);
+        }
+    };
+
+    const handleJump = () => {
+        const target = Number(jumpTarget);
+        if (!Number.isInteger(target) || target < 1) return;
+        if (state.tableMode === 'paged') {
+            dispatch({ type: 'SET_CURRENT_PAGE', payload: Math.min(target, Math.max(1, totalPages)) });
+        } else {
+            const index = Math.min(target, paginatedData.length) - 1;
+            setActiveRow(index);
+            scrollToRow(index, 'start');
+        }
+    };
+
+    const handlePageChange = (direction: 'prev' | 'next') => {
+        if (direction === 'prev' && state.currentPage > 1) {
+            dispatch({ type: 'SET_CURRENT_PAGE', payload: state.currentPage - 1 });
+        } else if (direction === 'next' && state.currentPage < totalPages) {
+            dispatch({ type: 'SET_CURRENT_PAGE', payload: state.currentPage + 1 });
+        }
+    };
+
+    const visibleRows = [];
+    for (let index = start; index < end; index++) {
+        const row = paginatedData[index];
+        visibleRows.push(
+            <tr
+                key={pageOffset + index}
+                role="row"
+                id={`data-row-${index}`}
+                ref={(element) => {
+                    if (element) {
+                        rowRefs.current.set(index, element);
+                    } else {
+                        rowRefs.current.delete(index);
+                    }
+                }}
+                aria-rowindex={pageOffset + index + 2}
+                aria-selected={index === activeRow}
+                onClick={() => setActiveRow(index)}
+                style={{ backgroundColor: index === activeRow ? '#e6f3ff' : undefined }}
+            >
+                {visibleColumns.map(column => (
+                    <td key={column} role="gridcell" style={{ border: '1px solid #ccc', padding: '8px', overflowWrap: 'anywhere' }}>
+                        {formatValue(row[column], state.schema[column]?.type ?? 'string')}
+                    </td>
+                ))}
+            </tr>
+        );
+    }
+
+    return (
+        <div style={{ marginBottom: '20px' }}>
+            <ColumnChooser />
+            <ExportMenu />
+            <div style={{ marginBottom: '10px' }}>
+                <span>Total Records: {matchCount}</span>
                 <span style={{ marginLeft: '20px' }}>
-                    Showing {state.scrollIndex + 1}-{Math.min(state.scrollIndex + 20, paginatedData.length)} of {paginatedData.length} (Page {state.currentPage} of {totalPages})
+                    Showing {paginatedData.length === 0 ? 0 : pageOffset + firstVisible + 1}-{pageOffset + Math.min(lastVisible + 1, paginatedData.length)} of {matchCount}
+                    {state.tableMode === 'paged' && ` (Page ${state.currentPage} of ${totalPages})`}
                 </span>
+                {remoteStatus?.loading && <span role="status" style={{ marginLeft: '20px', color: '#666' }}>Asking the data server…</span>}
             </div>
+            {remoteStatus?.error && (
+                <div role="alert" style={{ color: '#b00020', fontSize: '14px', marginBottom: '10px' }}>
+                    The data server did not answer: {remoteStatus.error}
+                </div>
+            )}
 
-            <div style={{ border: '1px solid #ccc', marginBottom: '10px' }}>
-                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
-                    <thead>
-                        <tr style={{ backgroundColor: '#f0f0f0' }}>
-                            {state.columns.map(column => (
-                                <th key={column} style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left' }}>
-                                    {column}
-                                </th>
-                            ))}
-                        </tr>
+            <div
+                ref={containerRef}
+                role="grid"
+                aria-rowcount={paginatedData.length + 1}
+                aria-colcount={visibleColumns.length}
+                aria-activedescendant={paginatedData.length > 0 ? `data-row-${activeRow}` : undefined}
+                tabIndex={0}
+                onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                onKeyDown={handleKeyDown}
+                style={{ border: '1px solid #ccc', marginBottom: '10px', height: `${VIEWPORT_HEIGHT}px`, overflow: 'auto' }}
+            >
+                <table
+                    role="presentation"
+                    style={{ width: `${visibleColumns.reduce((total, column) => total + (state.columnWidths[column] ?? DEFAULT_COLUMN_WIDTH), 0)}px`, minWidth: '100%', borderCollapse: 'collapse', tableLayout: 'fixed' }}
+                >
+                    <colgroup>
+                        {visibleColumns.map(column => (
+                            <col key={column} style={{ width: `${state.columnWidths[column] ?? DEFAULT_COLUMN_WIDTH}px` }} />
+                        ))}
+                    </colgroup>
+                    <thead ref={headerRef}>
+                        <DataTableHeader />
                     </thead>
                     <tbody>
-                        {visibleData.map((row, index) => (
-                            <tr key={state.scrollIndex + index}>
-                                {state.columns.map(column => (
-                                    <td key={column} style={{ border: '1px solid #ccc', padding: '8px' }}>
-                                        {row[column]}
-                                    </td>
-                                ))}
+                        {topPadding > 0 && (
+                            <tr aria-hidden="true">
+                                <td colSpan={visibleColumns.length} style={{ height: `${topPadding}px`, padding: 0, border: 'none' }} />
                             </tr>
-                        ))}
+                        )}
+                        {visibleRows}
+                        {bottomPadding > 0 && (
+                            <tr aria-hidden="true">
+                                <td colSpan={visibleColumns.length} style={{ height: `${bottomPadding}px`, padding: 0, border: 'none' }} />
+                            </tr>
+                        )}
                     </tbody>
                 </table>
             </div>
 
-            {/* Scroll Controls */}
             <div style={{ marginBottom: '10px' }}>
-                <button 
-                    onClick={() => handleScroll('up')} 
-                    disabled={state.scrollIndex === 0}
-                    style={{ marginRight: '10px', padding: '5px 10px' }}
+                <label>
+                    Navigation:{' '}
+                    <select
+                        value={state.tableMode}
+                        onChange={(e) => dispatch({ type: 'SET_TABLE_MODE', payload: e.target.value as TableMode })}
+                    >
+                        <option value="scroll" disabled={!!state.server}>Continuous scroll</option>
+                        <option value="paged">Pages</option>
+                    </select>
+                </label>
+                {state.tableMode === 'paged' && (
+                    <label style={{ marginLeft: '10px' }}>
+                        Rows per page:{' '}
+                        <select
+                            value={state.pageSize}
+                            onChange={(e) => dispatch({ type: 'SET_PAGE_SIZE', payload: Number(e.target.value) })}
+                        >
+                            {PAGE_SIZES.map(size => (
+                                <option key={size} value={size}>{size}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                <input
+                    type="number"
+                    min={1}
+                    value={jumpTarget}
+                    onChange={(e) => setJumpTarget(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleJump(); }}
+                    placeholder={state.tableMode === 'paged' ? 'Page' : 'Row'}
+                    style={{ width: '80px', marginLeft: '20px' }}
+                />
+                <button onClick={handleJump} style={{ marginLeft: '5px', padding: '5px 10px' }}>
+                    {state.tableMode === 'paged' ? 'Go to page' : 'Go to row'}
+                </button>
+            </div>
+
+            {/* Pagination Controls */}
+            {state.tableMode === 'paged' && (
+                <div>
+                    <button 
+                        onClick={() => handlePageChange('prev')} 
+                        disabled={state.currentPage === 1}
+                        style={{ marginRight: '10px', padding: '5px 10px' }}
+                    >
+                        Previous Page
+                    </button>
+                    <span style={{ margin: '0 10px' }}>
+                        Page {state.currentPage} of {totalPages}
+                    </span>
+                    <button 
+                        onClick={() => handlePageChange('next')} 
+                        disabled={state.currentPage >= totalPages}
+                        style={{ marginLeft: '10px', padding: '5px 10px' }}
+                    >
+                        Next Page
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const FilterSummary: React.FC = () => {
+    const { state, dispatch } = useAppContext();
+    const activeFilters = Object.entries(state.filters).filter(([column, filter]) =>
+        isFilterActive(filter, state.schema[column]?.type ?? 'string')
+    );
+    const queryText = formatQuery(state.query, state.schema);
+
+    if (activeFilters.length === 0 && queryText === '') return null;
+
+    return (
+        <div style={{ padding: '10px', backgroundColor: '#f9f9f9', border: '1px solid #ddd' }}>
+            <h4>
+                Active Filters:
+                <button
+                    onClick={() => dispatch({ type: 'CLEAR_FILTERS' })}
+                    style={{ marginLeft: '10px', padding: '2px 8px', fontWeight: 'normal' }}
                 >
-                    Scroll Up
+                    Clear all filters
+                </button>
+            </h4>
+            {activeFilters.map(([column, filter]) => (
+                <div key={column}>
+                    {column}: {describeFilter(filter, state.schema[column]?.type ?? 'string')}
+                </div>
+            ))}
+            {queryText !== '' && (
+                <div>
+                    {activeFilters.length > 0 && 'AND '}Query: <QuerySummary node={state.query} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Nested rendering of the query tree, one line per condition
+const QuerySummary: React.FC<{ node: FilterExpression }> = ({ node }) => {
+    const { state } = useAppContext();
+
+    if (node.kind === 'condition') {
+        return <code>{formatQuery(node, state.schema)}</code>;
+    }
+    return (
+        <span>
+            {node.negated && 'NOT '}{node.operator === 'and' ? 'all of' : 'any of'}:
+            <ul style={{ margin: '2px 0' }}>
+                {node.children.map(child => (
+                    <li key={child.id}><QuerySummary node={child} /></li>
+                ))}
+            </ul>
+        </span>
+    );
+};
+
+const EXPORT_BATCH_ROWS = 10000;
+
+type ExportScope = 'page' | 'all';
+
+const ExportMenu: React.FC = () => {
+    const { state, provider, dataQuery, matchCount, paginatedData, visibleColumns } = useAppContext();
+    const [format, setFormat] = useState<ExportFormat>('csv');
+    const [scope, setScope] = useState<ExportScope>('all');
+    const [progress, setProgress] = useState<{ rowCount: number; total: number } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const workerRef = useRef<Worker | null>(null);
+
+    const stopWorker = () => {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+    };
+
+    useEffect(() => stopWorker, []);
+
+    // Scroll mode has no pages, so only the whole result can be exported there
+    const effectiveScope: ExportScope = state.tableMode === 'paged' ? scope : 'all';
+
+    const handleExport = async () => {
+        // Snapshot now, so filtering while the export runs does not change what is written
+        const page = paginatedData;
+        const query = dataQuery;
+        const total = effectiveScope === 'page' ? page.length : matchCount;
+        const columns = visibleColumns;
+        if (format === 'xlsx' && total > XLSX_MAX_ROWS) {
+            setError(`Excel sheets hold at most ${XLSX_MAX_ROWS} rows, export ${total} rows as CSV or JSON instead`);
+            return;
+        }
+
+        stopWorker();
+        const worker = new Worker(new URL('./workers/exportWorker.ts', import.meta.url), { type: 'module' });
+        workerRef.current = worker;
+        setError(null);
+        setProgress({ rowCount: 0, total });
+
+        const fail = (message: string) => {
+            stopWorker();
+            setProgress(null);
+            setError(`Export failed: ${message}`);
+        };
+
+        worker.onmessage = (e: MessageEvent<ExportWorkerMessage>) => {
+            const message = e.data;
+            switch (message.type) {
+                case 'progress':
+                    setProgress({ rowCount: message.rowCount, total });
+                    break;
+                case 'done':
+                    stopWorker();
+                    setProgress(null);
+                    downloadBlob(message.blob, `filtered-data.${format}`);
+                    break;
+                case 'error':
+                    fail(message.message);
+                    break;
+            }
+        };
+        worker.onerror = (e) => fail(e.message);
+
+        const send = (request: ExportWorkerRequest) => worker.postMessage(request);
+        send({ type: 'start', format, columns, schema: state.schema });
+        const sendRows = async (rows: DataRow[]) => {
+            for (let start = 0; start < rows.length; start += EXPORT_BATCH_ROWS) {
+                // Cancelled or failed meanwhile
+                if (workerRef.current !== worker) throw new DOMException('The export was cancelled', 'AbortError');
+                const batch = rows.slice(start, start + EXPORT_BATCH_ROWS).map(row => columns.map(column => row[column] ?? null));
+                send({ type: 'rows', rows: batch });
+                // Yield between batches so the page keeps responding
+                await new Promise(resolve => setTimeout(resolve));
+            }
+        };
+        try {
+            // Every match comes from the provider, which streams them from the data server in remote mode
+            if (effectiveScope === 'page') {
+                await sendRows(page);
+            } else {
+                await provider.stream(query, sendRows);
+            }
+        } catch (error) {
+            if (!isAbortError(error) && workerRef.current === worker) fail((error as Error).message);
+            return;
+        }
+        if (workerRef.current === worker) send({ type: 'finish' });
+    };
+
+    const handleCancel = () => {
+        stopWorker();
+        setProgress(null);
+    };
+
+    const exportCount = effectiveScope === 'page' ? paginatedData.length : matchCount;
+
+    return (
+        <div style={{ marginBottom: '10px' }}>
+            <label>
+                Export:{' '}
+                <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} disabled={!!progress}>
+                    {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(name => (
+                        <option key={name} value={name}>{EXPORT_FORMAT_LABELS[name]}</option>
+                    ))}
+                </select>
+            </label>
+            <select
+                value={effectiveScope}
+                onChange={(e) => setScope(e.target.value as ExportScope)}
+                disabled={!!progress || state.tableMode !== 'paged'}
+                title={state.tableMode !== 'paged' ? 'Switch the table to pages to export a single page' : undefined}
+                style={{ marginLeft: '5px' }}
+            >
+                <option value="page">Current page</option>
+                <option value="all">All matching rows</option>
+            </select>
+            {progress ? (
+                <>
+                    <progress value={progress.rowCount} max={Math.max(1, progress.total)} style={{ marginLeft: '10px', verticalAlign: 'middle' }} />
+                    <span style={{ marginLeft: '5px', fontSize: '14px' }}>
+                        {progress.rowCount} / {progress.total} rows
+                    </span>
+                    <button onClick={handleCancel} style={{ marginLeft: '10px', padding: '5px 10px' }}>
+                        Cancel
+                    </button>
+                </>
+            ) : (
+                <button onClick={handleExport} disabled={visibleColumns.length === 0} style={{ marginLeft: '5px', padding: '5px 10px' }}>
+                    Export {exportCount} rows
                 </button>
-                <button 
-                    onClick={() => handleScroll('down')} 
-                    disabled={state.scrollIndex >= maxScrollIndex}
+            )}
+            {error && <div style={{ color: '#b00020', fontSize: '14px', marginTop: '5px' }}>{error}</div>}
+        </div>
+    );
+};
+
+// Text fields keep their own Ctrl+Z for the characters typed into them
+const isTextField = (target: EventTarget | null) =>
+    target instanceof HTMLTextAreaElement
+    || (target instanceof HTMLInputElement && !['checkbox', 'radio', 'range', 'button', 'submit', 'file'].includes(target.type))
+    || (target instanceof HTMLElement && target.isContentEditable);
+
+const HistoryPanel: React.FC = () => {
+    const { state, dispatch } = useAppContext();
+    const { entries, position } = state.history;
+    const canUndo = position > 0;
+    const canRedo = position < entries.length - 1;
+
+    // Ctrl+Z undoes and Ctrl+Shift+Z redoes anywhere on the page (Cmd on macOS)
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z' || isTextField(e.target)) return;
+            e.preventDefault();
+            dispatch({ type: e.shiftKey ? 'REDO' : 'UNDO' });
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [dispatch]);
+
+    if (entries.length === 0) return null;
+
+    return (
+        <div style={{ marginBottom: '20px', padding: '10px', border: '1px solid #ccc' }}>
+            <h3>History</h3>
+            <div style={{ marginBottom: '10px' }}>
+                <button
+                    onClick={() => dispatch({ type: 'UNDO' })}
+                    disabled={!canUndo}
+                    title="Ctrl+Z"
+                    aria-keyshortcuts="Control+Z"
                     style={{ padding: '5px 10px' }}
                 >
-                    Scroll Down
+                    Undo
+                </button>
+                <button
+                    onClick={() => dispatch({ type: 'REDO' })}
+                    disabled={!canRedo}
+                    title="Ctrl+Shift+Z"
+                    aria-keyshortcuts="Control+Shift+Z"
+                    style={{ marginLeft: '5px', padding: '5px 10px' }}
+                >
+                    Redo
                 </button>
-                <span style={{ marginLeft: '20px' }}>
-                    Scroll Position: {state.scrollIndex + 1} - {Math.min(state.scrollIndex + 20, paginatedData.length)}
-                </span>
             </div>
+            <ol style={{ margin: 0, paddingLeft: '25px', maxHeight: '150px', overflowY: 'auto', fontSize: '14px' }}>
+                {entries.map((entry, index) => (
+                    <li key={index}>
+                        {/* Entries after the current one are what redo would bring back */}
+                        <button
+                            onClick={() => dispatch({ type: 'JUMP_TO_HISTORY', payload: index })}
+                            aria-current={index === position ? 'step' : undefined}
+                            style={{
+                                background: 'none',
+                                border: 'none',
+                                padding: '1px 0',
+                                cursor: 'pointer',
+                                textAlign: 'left',
+                                fontWeight: index === position ? 'bold' : 'normal',
+                                color: index > position ? '#999' : 'inherit'
+                            }}
+                        >
+                            {entry.label}
+                        </button>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
 
-            {/* Pagination Controls */}
-            <div>
-                <button 
-                    onClick={() => handlePageChange('prev')} 
-                    disabled={state.currentPage === 1}
-                    style={{ marginRight: '10px', padding: '5px 10px' }}
-                >
-                    Previous Page
+const SavedViews: React.FC = () => {
+    const { state, dispatch, viewLinkNotice } = useAppContext();
+    const [views, setViews] = useState(loadSavedViews);
+    const [name, setName] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+
+    const updateViews = (next: SavedView[]) => {
+        try {
+            storeSavedViews(next);
+            setViews(next);
+            return true;
+        } catch {
+            setMessage('Could not save views: browser storage is full or disabled');
+            return false;
+        }
+    };
+
+    const handleSave = () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        const replaced = views.some(view => view.name === trimmed);
+        const saved = updateViews(mergeSavedViews(views, [{ name: trimmed, savedAt: new Date().toISOString(), view: captureView(state) }]));
+        if (saved) {
+            setName('');
+            setMessage(replaced ? `Updated view "${trimmed}"` : `Saved view "${trimmed}"`);
+        }
+    };
+
+    const handleOpen = (view: SavedView) => {
+        dispatch({ type: 'APPLY_VIEW', payload: view.view });
+        setMessage(`Opened view "${view.name}"`);
+    };
+
+    const handleDelete = (view: SavedView) => {
+        if (updateViews(views.filter(other => other.name !== view.name))) setMessage(`Deleted view "${view.name}"`);
+    };
+
+    const handleExport = () => {
+        downloadBlob(new Blob([exportViewsFile(views)], { type: 'application/json' }), 'saved-views.json');
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        // Let the same file be picked again later
+        event.target.value = '';
+        if (!file) return;
+
+        const result = parseViewsFile(await file.text());
+        if (result.views.length > 0 && !updateViews(mergeSavedViews(views, result.views))) return;
+        const imported = result.views.length > 0 ? `Imported ${result.views.length} view(s)` : '';
+        setMessage([imported, result.error].filter(Boolean).join('. '));
+    };
+
+    const handleCopyLink = () => {
+        navigator.clipboard.writeText(window.location.href).then(
+            () => setMessage('Link to this view copied'),
+            () => setMessage('Could not copy the link, copy it from the address bar instead')
+        );
+    };
+
+    return (
+        <div style={{ marginBottom: '20px', padding: '10px', border: '1px solid #ccc' }}>
+            <h3>Saved Views</h3>
+            <div style={{ marginBottom: '10px' }}>
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                    placeholder="View name"
+                    style={{ padding: '5px', marginRight: '5px' }}
+                />
+                <button onClick={handleSave} disabled={!name.trim()} style={{ marginRight: '10px', padding: '5px 10px' }}>
+                    Save current view
                 </button>
-                <span style={{ margin: '0 10px' }}>
-                    Page {state.currentPage} of {totalPages}
-                </span>
-                <button 
-                    onClick={() => handlePageChange('next')} 
-                    disabled={state.currentPage === totalPages}
-                    style={{ marginLeft: '10px', padding: '5px 10px' }}
-                >
-                    Next Page
+                <button onClick={handleCopyLink} style={{ marginRight: '10px', padding: '5px 10px' }}>
+                    Copy link
+                </button>
+                <button onClick={handleExport} disabled={views.length === 0} style={{ marginRight: '10px', padding: '5px 10px' }}>
+                    Export views
                 </button>
+                <label style={{ fontSize: '14px' }}>
+                    Import views:{' '}
+                    <input type="file" accept=".json,application/json" onChange={handleImport} />
+                </label>
             </div>
+            {views.length === 0 ? (
+                <div style={{ fontSize: '14px', color: '#666' }}>No saved views yet</div>
+            ) : (
+                <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                    {views.map(view => (
+                        <li key={view.name} style={{ marginBottom: '5px' }}>
+                            <strong>{view.name}</strong>
+                            <span style={{ fontSize: '12px', color: '#666', marginLeft: '10px' }}>
+                                {new Date(view.savedAt).toLocaleString()}
+                            </span>
+                            <button onClick={() => handleOpen(view)} style={{ marginLeft: '10px', padding: '2px 8px' }}>
+                                Open
+                            </button>
+                            <button onClick={() => handleDelete(view)} style={{ marginLeft: '5px', padding: '2px 8px' }}>
+                                Delete
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {message && <div style={{ fontSize: '14px', color: '#666', marginTop: '5px' }}>{message}</div>}
+            {viewLinkNotice && <div role="status" style={{ fontSize: '14px', color: '#b00020', marginTop: '5px' }}>{viewLinkNotice}</div>}
         </div>
     );
 };
 
-const FilterSummary: React.FC = () => {
-    const { state } = useAppContext();
-    const hasActiveFilters = Object.values(state.filters).some(filterArray => filterArray && filterArray.length > 0);
+const formatStatistic = (value: CellValue, type: ColumnType) => {
+    if (value === null) return '—';
+    if (typeof value === 'number' && type !== 'date') {
+        return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+    }
+    // Means and medians of dates land between days, show them as full timestamps
+    if (typeof value === 'number' && type === 'date') return formatValue(Math.round(value), 'date');
+    return formatValue(value, type);
+};
+
+const SummaryPanel: React.FC = () => {
+    const { state, dispatch, filteredData, matchCount } = useAppContext();
+    const [groupColumn, setGroupColumn] = useState('');
+    const [valueColumn, setValueColumn] = useState('');
+    const [aggregate, setAggregate] = useState<Aggregate>('sum');
+
+    const summaries = useMemo(
+        () => summarizeColumns(filteredData, state.columns, state.schema),
+        [filteredData, state.columns, state.schema]
+    );
+
+    // Selections that no longer exist in the dataset fall back to the first columns
+    const activeGroupColumn = state.columns.includes(groupColumn) ? groupColumn : state.columns[0] ?? '';
+    const activeValueColumn = state.columns.includes(valueColumn) ? valueColumn : state.columns[1] ?? activeGroupColumn;
+    const valueType = state.schema[activeValueColumn]?.type ?? 'string';
+    const aggregates = aggregatesFor(valueType);
+    const activeAggregate = aggregates.includes(aggregate) ? aggregate : 'count';
+
+    const groups = useMemo(
+        () => activeGroupColumn ? groupBy(filteredData, activeGroupColumn, activeValueColumn, activeAggregate, state.schema) : [],
+        [filteredData, activeGroupColumn, activeValueColumn, activeAggregate, state.schema]
+    );
+
+    const handleDrillDown = (key: CellValue) => {
+        dispatch({ type: 'SET_FILTER', payload: { filterType: activeGroupColumn, filter: { mode: 'values', values: [key] } } });
+        dispatch({ type: 'RESET_PAGINATION' });
+    };
+
+    const cellStyle: React.CSSProperties = { border: '1px solid #ccc', padding: '4px 8px', textAlign: 'right' };
+    const groupType = state.schema[activeGroupColumn]?.type ?? 'string';
+    const maxGroupRows = groups.reduce((max, group) => Math.max(max, group.rowCount), 0);
 
-    if (!hasActiveFilters) return null;
+    // Summaries read every matching row, which a data server does not send
+    if (state.server) {
+        return (
+            <div style={{ marginBottom: '20px', padding: '10px', border: '1px solid #ccc' }}>
+                <h3>Summary ({matchCount} matching rows)</h3>
+                <div style={{ fontSize: '14px', color: '#666' }}>
+                    Column statistics and grouping are not available while the rows stay on the data server
+                </div>
+            </div>
+        );
+    }
 
     return (
-        <div style={{ padding: '10px', backgroundColor: '#f9f9f9', border: '1px solid #ddd' }}>
-            <h4>Active Filters:</h4>
-            {Object.entries(state.filters).map(([column, values]) => (
-                values && values.length > 0 && (
-                    <div key={column}>{column}: {values.join(', ')}</div>
-                )
-            ))}
+        <div style={{ marginBottom: '20px', padding: '10px', border: '1px solid #ccc' }}>
+            <h3>Summary ({matchCount} matching rows)</h3>
+            <div style={{ overflowX: 'auto', marginBottom: '15px' }}>
+                <table style={{ borderCollapse: 'collapse', fontSize: '14px' }}>
+                    <thead>
+                        <tr style={{ backgroundColor: '#f0f0f0' }}>
+                            <th style={{ ...cellStyle, textAlign: 'left' }}>Column</th>
+                            <th style={cellStyle}>Count</th>
+                            <th style={cellStyle}>Empty</th>
+                            <th style={cellStyle}>Sum</th>
+                            <th style={cellStyle}>Mean</th>
+                            <th style={cellStyle}>Min</th>
+                            <th style={cellStyle}>Max</th>
+                            <th style={cellStyle}>Median</th>
+                            <th style={cellStyle}>Distinct</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {summaries.map(summary => (
+                            <tr key={summary.column}>
+                                <td style={{ ...cellStyle, textAlign: 'left' }}>
+                                    {summary.column} <span style={{ color: '#666' }}>({summary.type})</span>
+                                </td>
+                                <td style={cellStyle}>{summary.count}</td>
+                                <td style={cellStyle}>{summary.empty}</td>
+                                <td style={cellStyle}>{formatStatistic(summary.sum, summary.type)}</td>
+                                <td style={cellStyle}>{formatStatistic(summary.mean, summary.type)}</td>
+                                <td style={cellStyle}>{formatStatistic(summary.min, summary.type)}</td>
+                                <td style={cellStyle}>{formatStatistic(summary.max, summary.type)}</td>
+                                <td style={cellStyle}>{formatStatistic(summary.median, summary.type)}</td>
+                                <td style={cellStyle}>{summary.distinct}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <h4 style={{ margin: '0 0 10px 0' }}>Group by</h4>
+            <div style={{ marginBottom: '10px' }}>
+                <label>
+                    Group by{' '}
+                    <select value={activeGroupColumn} onChange={(e) => setGroupColumn(e.target.value)}>
+                        {state.columns.map(column => (
+                            <option key={column} value={column}>{column}</option>
+                        ))}
+                    </select>
+                </label>
+                <label style={{ marginLeft: '10px' }}>
+                    aggregate{' '}
+                    <select value={activeAggregate} onChange={(e) => setAggregate(e.target.value as Aggregate)}>
+                        {aggregates.map(name => (
+                            <option key={name} value={name}>{AGGREGATE_LABELS[name]}</option>
+                        ))}
+                    </select>
+                </label>
+                <label style={{ marginLeft: '10px' }}>
+                    of{' '}
+                    <select value={activeValueColumn} onChange={(e) => setValueColumn(e.target.value)}>
+                        {state.columns.map(column => (
+                            <option key={column} value={column}>{column}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+            {groups.length > 0 && (
+                <div style={{ maxHeight: '300px', overflowY: 'auto' }}>
+                    <table style={{ borderCollapse: 'collapse', fontSize: '14px' }}>
+                        <thead>
+                            <tr style={{ backgroundColor: '#f0f0f0' }}>
+                                <th style={{ ...cellStyle, textAlign: 'left' }}>{activeGroupColumn}</th>
+                                <th style={cellStyle}>Rows</th>
+                                <th style={cellStyle}>{AGGREGATE_LABELS[activeAggregate]} of {activeValueColumn}</th>
+                                <th style={cellStyle} aria-hidden="true"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {groups.map(group => (
+                                <tr key={String(group.key)}>
+                                    <td style={{ ...cellStyle, textAlign: 'left' }}>
+                                        <button
+                                            onClick={() => handleDrillDown(group.key)}
+                                            title={`Filter ${activeGroupColumn} to this group`}
+                                            style={{ background: 'none', border: 'none', padding: 0, color: '#007bff', cursor: 'pointer', font: 'inherit' }}
+                                        >
+                                            {group.key === null ? '(empty)' : formatValue(group.key, groupType)}
+                                        </button>
+                                    </td>
+                                    <td style={cellStyle}>{group.rowCount}</td>
+                                    <td style={cellStyle}>
+                                        {formatStatistic(group.value, activeAggregate === 'count' || activeAggregate === 'distinct' ? 'integer' : valueType)}
+                                    </td>
+                                    <td style={{ ...cellStyle, width: '150px' }}>
+                                        <div style={{ height: '10px', width: `${maxGroupRows ? (group.rowCount / maxGroupRows) * 100 : 0}%`, backgroundColor: '#007bff' }} />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            <div style={{ fontSize: '14px', color: '#666', marginTop: '5px' }}>
+                Click a group to filter the table to it
+            </div>
+        </div>
+    );
+};
+
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 160;
+const CHART_SELECTED_COLOR = '#007bff';
+const CHART_UNSELECTED_COLOR = '#d0d7de';
+
+// Drag across bins to filter the column to that range; a click without dragging picks one bin
+const Histogram: React.FC<{ column: string }> = ({ column }) => {
+    const { state, dispatch, getFacet } = useAppContext();
+    const [brush, setBrush] = useState<{ from: number; to: number } | null>(null);
+    const type = state.schema[column]?.type ?? 'float';
+    const filter = state.filters[column];
+    const predicate = filter ? createPredicate(filter, type) : null;
+    const bins = histogramBins(getFacet(column), type, predicate);
+
+    if (bins.length === 0) return <div style={{ fontSize: '14px', color: '#666' }}>No values to chart</div>;
+
+    const barWidth = CHART_WIDTH / bins.length;
+    const maxCount = Math.max(...bins.map(bin => bin.count));
+    const binAt = (e: React.PointerEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = ((e.clientX - rect.left) / rect.width) * CHART_WIDTH;
+        return Math.max(0, Math.min(bins.length - 1, Math.floor(x / barWidth)));
+    };
+
+    const applyBrush = () => {
+        if (!brush) return;
+        const from = Math.min(brush.from, brush.to);
+        const to = Math.max(brush.from, brush.to);
+        setBrush(null);
+        dispatch({ type: 'SET_FILTER', payload: { filterType: column, filter: { mode: 'range', min: bins[from].start, max: bins[to].end } } });
+        dispatch({ type: 'RESET_PAGINATION' });
+    };
+
+    const inBrush = (index: number) =>
+        !!brush && index >= Math.min(brush.from, brush.to) && index <= Math.max(brush.from, brush.to);
+
+    return (
+        <div>
+            <svg
+                viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                width="100%"
+                role="img"
+                aria-label={`Histogram of ${column}`}
+                style={{ maxWidth: `${CHART_WIDTH}px`, cursor: 'crosshair', touchAction: 'none', userSelect: 'none' }}
+                onPointerDown={(e) => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    const index = binAt(e);
+                    setBrush({ from: index, to: index });
+                }}
+                onPointerMove={(e) => {
+                    if (brush) setBrush({ ...brush, to: binAt(e) });
+                }}
+                onPointerUp={applyBrush}
+                onPointerCancel={() => setBrush(null)}
+            >
+                {bins.map((bin, index) => {
+                    const height = (bin.count / maxCount) * CHART_HEIGHT;
+                    const selectedHeight = (bin.selected / maxCount) * CHART_HEIGHT;
+                    return (
+                        <g key={index}>
+                            <title>
+                                {formatValue(bin.start, type)} – {formatValue(bin.end, type)}: {bin.selected} of {bin.count} rows
+                            </title>
+                            <rect x={index * barWidth + 1} y={CHART_HEIGHT - height} width={barWidth - 2} height={height} fill={CHART_UNSELECTED_COLOR} />
+                            <rect
+                                x={index * barWidth + 1}
+                                y={CHART_HEIGHT - selectedHeight}
+                                width={barWidth - 2}
+                                height={selectedHeight}
+                                fill={inBrush(index) ? '#0056b3' : CHART_SELECTED_COLOR}
+                            />
+                        </g>
+                    );
+                })}
+                {brush && (
+                    <rect
+                        x={Math.min(brush.from, brush.to) * barWidth}
+                        y={0}
+                        width={(Math.abs(brush.to - brush.from) + 1) * barWidth}
+                        height={CHART_HEIGHT}
+                        fill="rgba(0, 123, 255, 0.15)"
+                        pointerEvents="none"
+                    />
+                )}
+            </svg>
+            <div style={{ display: 'flex', justifyContent: 'space-between', maxWidth: `${CHART_WIDTH}px`, fontSize: '12px', color: '#666' }}>
+                <span>{formatValue(bins[0].start, type)}</span>
+                <span>{formatValue(bins[bins.length - 1].end, type)}</span>
+            </div>
+        </div>
+    );
+};
+
+// Clicking a bar adds its value to the column's picked values, or takes it out again
+const ValueBarChart: React.FC<{ column: string }> = ({ column }) => {
+    const { state, dispatch, getFacet } = useAppContext();
+    const type = state.schema[column]?.type ?? 'string';
+    const filter = state.filters[column];
+    const predicate = filter ? createPredicate(filter, type) : null;
+    const { bars, hidden } = valueBars(getFacet(column), predicate);
+
+    if (bars.length === 0) return <div style={{ fontSize: '14px', color: '#666' }}>No values to chart</div>;
+
+    const maxCount = Math.max(...bars.map(bar => bar.count));
+
+    const toggleValue = (value: CellValue) => {
+        const current = filter?.mode === 'values' ? filter.values : [];
+        const values = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+        dispatch({ type: 'SET_FILTER', payload: { filterType: column, filter: { mode: 'values', values } } });
+        dispatch({ type: 'RESET_PAGINATION' });
+    };
+
+    return (
+        <div style={{ maxWidth: `${CHART_WIDTH}px` }}>
+            {bars.map(bar => {
+                const label = bar.value === null ? '(empty)' : formatValue(bar.value, type);
+                return (
+                    <button
+                        key={String(bar.value)}
+                        onClick={() => toggleValue(bar.value)}
+                        aria-pressed={filter?.mode === 'values' && filter.values.includes(bar.value)}
+                        title={`${label}: ${bar.count} rows`}
+                        style={{ display: 'flex', alignItems: 'center', width: '100%', background: 'none', border: 'none', padding: '1px 0', cursor: 'pointer', font: 'inherit', fontSize: '12px' }}
+                    >
+                        <span style={{ width: '100px', textAlign: 'right', paddingRight: '5px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                            {label}
+                        </span>
+                        <span style={{ flex: 1 }}>
+                            <span
+                                style={{
+                                    display: 'block',
+                                    height: '14px',
+                                    width: `${(bar.count / maxCount) * 100}%`,
+                                    backgroundColor: bar.selected ? CHART_SELECTED_COLOR : CHART_UNSELECTED_COLOR
+                                }}
+                            />
+                        </span>
+                        <span style={{ width: '60px', textAlign: 'right' }}>{bar.count}</span>
+                    </button>
+                );
+            })}
+            {hidden > 0 && (
+                <div style={{ fontSize: '12px', color: '#666' }}>{hidden} less frequent values not shown</div>
+            )}
+        </div>
+    );
+};
+
+const ChartsPanel: React.FC = () => {
+    const { state, dispatch } = useAppContext();
+    const [charted, setCharted] = useState<string[]>([]);
+    const [nextColumn, setNextColumn] = useState('');
+
+    // Charts for columns the current dataset does not have are dropped
+    const chartColumns = charted.filter(column => state.columns.includes(column));
+    const available = state.columns.filter(column => !chartColumns.includes(column));
+    const columnToAdd = available.includes(nextColumn) ? nextColumn : available[0] ?? '';
+
+    const clearFilter = (column: string) => {
+        dispatch({ type: 'SET_FILTER', payload: { filterType: column, filter: emptyFilter(state.filters[column]?.mode) } });
+        dispatch({ type: 'RESET_PAGINATION' });
+    };
+
+    return (
+        <div style={{ marginBottom: '20px', padding: '10px', border: '1px solid #ccc' }}>
+            <h3>Charts</h3>
+            <div style={{ marginBottom: '10px' }}>
+                <select value={columnToAdd} onChange={(e) => setNextColumn(e.target.value)} disabled={available.length === 0}>
+                    {available.map(column => (
+                        <option key={column} value={column}>{column}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => setCharted([...chartColumns, columnToAdd])}
+                    disabled={!columnToAdd}
+                    style={{ marginLeft: '5px', padding: '5px 10px' }}
+                >
+                    Add chart
+                </button>
+                <span style={{ marginLeft: '10px', fontSize: '14px', color: '#666' }}>
+                    Numeric and date columns get a histogram (drag to select a range), others a bar chart (click to pick values)
+                </span>
+            </div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '20px' }}>
+                {chartColumns.map(column => {
+                    const type = state.schema[column]?.type ?? 'string';
+                    return (
+                        <div key={column} style={{ flex: `0 1 ${CHART_WIDTH}px`, minWidth: '250px' }}>
+                            <div style={{ marginBottom: '5px' }}>
+                                <strong>{column}</strong>
+                                {isFilterActive(state.filters[column], type) && (
+                                    <button onClick={() => clearFilter(column)} style={{ marginLeft: '10px', padding: '2px 8px' }}>
+                                        Clear filter
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => setCharted(chartColumns.filter(other => other !== column))}
+                                    aria-label={`Remove chart of ${column}`}
+                                    style={{ marginLeft: '5px', padding: '2px 8px' }}
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                            {isHistogramType(type) ? <Histogram column={column} /> : <ValueBarChart column={column} />}
+                        </div>
+                    );
+                })}
+            </div>
         </div>
     );
 };
@@ -493,30 +2883,40 @@ const FilterSummary: React.FC = () => {
 const Dashboard: React.FC = () => {
     const { dispatch } = useAppContext();
 
-    // Load default data
+    // Reopen the dataset used last, or start with the sample the first time
     useEffect(() => {
-        const sampleData: DataRow[] = [
-            { number: 12, mod3: 0, mod4: 0, mod5: 2, mod6: 0 },
-            { number: 24, mod3: 0, mod4: 0, mod5: 4, mod6: 0 },
-            { number: 36, mod3: 0, mod4: 0, mod5: 1, mod6: 0 },
-            { number: 48, mod3: 0, mod4: 0, mod5: 3, mod6: 0 },
-            { number: 60, mod3: 0, mod4: 0, mod5: 0, mod6: 0 },
-            { number: 34, mod3: 1, mod4: 2, mod5: 4, mod6: 4 },
-            { number: 888, mod3: 0, mod4: 0, mod5: 3, mod6: 0 },
-            { number: 446, mod3: 2, mod4: 2, mod5: 1, mod6: 2 },
-            { number: 6, mod3: 0, mod4: 2, mod5: 1, mod6: 0 },
-            { number: 23, mod3: 2, mod4: 3, mod5: 3, mod6: 5 },
-            { number: 5664, mod3: 0, mod4: 0, mod5: 4, mod6: 0 }
-        ];
-        const columns = ['number', 'mod3', 'mod4', 'mod5', 'mod6'];
-        dispatch({ type: 'SET_DATA', payload: { data: sampleData, columns } });
+        let cancelled = false;
+        const lastId = loadLastDatasetId();
+        const restored = lastId ? loadStoredDataset(lastId).catch(() => null) : Promise.resolve(null);
+        restored
+            .then(stored => stored ? storedDatasetPayload(stored) : loadSampleDataset())
+            .then(
+                payload => {
+                    if (!cancelled) dispatch({ type: 'SET_DATA', payload });
+                },
+                (error: Error) => {
+                    if (cancelled) return;
+                    dispatch({
+                        type: 'SET_PARSE_REPORT',
+                        payload: { fileName: 'sample.csv', meta: null, warnings: [], errors: [{ code: 'EmptyFile', message: error.message }] }
+                    });
+                }
+            );
+        return () => { cancelled = true; };
     }, [dispatch]);
 
     return (
         <div style={{ padding: '20px', fontFamily: 'Arial, sans-serif' }}>
             <h1>Business Intelligence Dashboard</h1>
-            <FileUpload />
+            <DataSources />
+            <DatasetManager />
+            <ComputedColumns />
+            <HistoryPanel />
             <Filters />
+            <QueryBuilder />
+            <SavedViews />
+            <SummaryPanel />
+            <ChartsPanel />
             <DataTable />
             <FilterSummary />
         </div>
@@ -0,0 +1,172 @@
+// @vitest-environment jsdom
+import '@testing-library/jest-dom/vitest';
+import { cleanup, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import App from './App';
+
+// The app opens with the sample dataset; these rows stand in for it
+const SAMPLE = 'city,visits\nBerlin,3\nBoston,1\nCairo,4\nDelhi,1\nDenver,5\nOslo,9\n';
+const CITIES = ['Berlin', 'Boston', 'Cairo', 'Delhi', 'Denver', 'Oslo'];
+
+beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(SAMPLE)));
+    // jsdom does no layout
+    Element.prototype.scrollIntoView = () => {};
+});
+
+afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+});
+
+const openCityDropdown = async () => {
+    const user = userEvent.setup();
+    render(<App />);
+    const trigger = await screen.findByRole('button', { name: /^city values:/ });
+    await user.click(trigger);
+    const search = screen.getByRole('combobox', { name: 'Search city values' });
+    const listbox = screen.getByRole('listbox', { name: 'city values' });
+    return { user, trigger, search, listbox };
+};
+
+const activeOption = (owner: HTMLElement) => {
+    const id = owner.getAttribute('aria-activedescendant');
+    return id ? document.getElementById(id) : null;
+};
+
+describe('FilterDropdown', () => {
+    it('opens as a combobox with a multi-select listbox and focuses the search', async () => {
+        const { trigger, search, listbox } = await openCityDropdown();
+        expect(trigger).toHaveAttribute('aria-haspopup', 'listbox');
+        expect(trigger).toHaveAttribute('aria-expanded', 'true');
+        expect(search).toHaveFocus();
+        expect(search).toHaveAttribute('aria-controls', listbox.id);
+        expect(listbox).toHaveAttribute('aria-multiselectable', 'true');
+        expect(within(listbox).getAllByRole('option').map(option => option.textContent)).toEqual(
+            CITIES.map(city => expect.stringContaining(city))
+        );
+        expect(search).not.toHaveAttribute('aria-activedescendant');
+    });
+
+    it('moves the active option with the arrow keys, Home and End', async () => {
+        const { user, search, listbox } = await openCityDropdown();
+
+        await user.keyboard('{ArrowDown}');
+        expect(listbox).toHaveFocus();
+        expect(activeOption(listbox)).toHaveTextContent('Berlin');
+        expect(activeOption(search)).toBe(activeOption(listbox));
+
+        await user.keyboard('{ArrowDown}{ArrowDown}');
+        expect(activeOption(listbox)).toHaveTextContent('Cairo');
+
+        await user.keyboard('{End}');
+        expect(activeOption(listbox)).toHaveTextContent('Oslo');
+        // Stays on the last option
+        await user.keyboard('{ArrowDown}');
+        expect(activeOption(listbox)).toHaveTextContent('Oslo');
+
+        await user.keyboard('{Home}');
+        expect(activeOption(listbox)).toHaveTextContent('Berlin');
+
+        // Up from the first option goes back to the search box
+        await user.keyboard('{ArrowUp}');
+        expect(search).toHaveFocus();
+    });
+
+    it('jumps to a value by typing its first letters', async () => {
+        const { user, listbox } = await openCityDropdown();
+        await user.keyboard('{ArrowDown}');
+
+        await user.keyboard('d');
+        expect(activeOption(listbox)).toHaveTextContent('Delhi');
+        // The same letter again moves on to the next value starting with it
+        await user.keyboard('d');
+        expect(activeOption(listbox)).toHaveTextContent('Denver');
+
+        // Letters typed in quick succession build up a prefix
+        await user.keyboard('{Home}');
+        await user.keyboard('bo');
+        expect(activeOption(listbox)).toHaveTextContent('Boston');
+    });
+
+    it('starts a new prefix after a pause', async () => {
+        const { user, listbox } = await openCityDropdown();
+        const now = vi.spyOn(Date, 'now');
+        await user.keyboard('{ArrowDown}');
+
+        now.mockReturnValue(10000);
+        await user.keyboard('c');
+        expect(activeOption(listbox)).toHaveTextContent('Cairo');
+        now.mockReturnValue(11000);
+        await user.keyboard('o');
+        expect(activeOption(listbox)).toHaveTextContent('Oslo');
+        now.mockRestore();
+    });
+
+    it('toggles aria-selected with Space and Enter and reports the count on the trigger', async () => {
+        const { user, trigger, listbox } = await openCityDropdown();
+        await user.keyboard('{ArrowDown}{ArrowDown}');
+        const boston = activeOption(listbox);
+        expect(boston).toHaveAttribute('aria-selected', 'false');
+
+        await user.keyboard(' ');
+        expect(boston).toHaveAttribute('aria-selected', 'true');
+        expect(trigger).toHaveAccessibleName('city values: 1 selected');
+
+        await user.keyboard('{End}{Enter}');
+        expect(activeOption(listbox)).toHaveAttribute('aria-selected', 'true');
+        expect(trigger).toHaveAccessibleName('city values: 2 selected');
+
+        await user.keyboard('{Enter}');
+        expect(activeOption(listbox)).toHaveAttribute('aria-selected', 'false');
+        expect(trigger).toHaveAccessibleName('city values: 1 selected');
+    });
+
+    it('closes on Escape and gives focus back to the trigger', async () => {
+        const { user, trigger } = await openCityDropdown();
+        await user.keyboard('{ArrowDown}{ArrowDown}');
+        await user.keyboard('{Escape}');
+
+        expect(screen.queryByRole('listbox', { name: 'city values' })).not.toBeInTheDocument();
+        expect(trigger).toHaveAttribute('aria-expanded', 'false');
+        expect(trigger).toHaveFocus();
+
+        // Arrow keys on the closed trigger open it again
+        await user.keyboard('{ArrowDown}');
+        expect(trigger).toHaveAttribute('aria-expanded', 'true');
+        await waitFor(() => expect(screen.getByRole('combobox', { name: 'Search city values' })).toHaveFocus());
+    });
+
+    it('closes on a click outside without moving focus back', async () => {
+        const { user, trigger } = await openCityDropdown();
+        await user.click(screen.getByRole('heading', { name: 'Filters' }));
+
+        expect(screen.queryByRole('listbox', { name: 'city values' })).not.toBeInTheDocument();
+        expect(trigger).toHaveAttribute('aria-expanded', 'false');
+        expect(trigger).not.toHaveFocus();
+    });
+
+    it('keeps clicks inside the dropdown from closing it', async () => {
+        const { user, listbox } = await openCityDropdown();
+        await user.click(within(listbox).getByRole('option', { name: /Cairo/ }));
+        expect(within(listbox).getByRole('option', { name: /Cairo/ })).toHaveAttribute('aria-selected', 'true');
+        expect(screen.getByRole('listbox', { name: 'city values' })).toBeInTheDocument();
+    });
+
+    it('clears the active option when the search changes what is listed', async () => {
+        const { user, search, listbox } = await openCityDropdown();
+        await user.keyboard('{ArrowDown}');
+        expect(listbox).toHaveAttribute('aria-activedescendant');
+
+        await user.click(search);
+        await user.keyboard('de');
+        expect(within(listbox).getAllByRole('option').map(option => option.textContent)).toEqual([
+            expect.stringContaining('Delhi'),
+            expect.stringContaining('Denver')
+        ]);
+        expect(search).not.toHaveAttribute('aria-activedescendant');
+        expect(listbox).not.toHaveAttribute('aria-activedescendant');
+    });
+});
@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import '@testing-library/jest-dom/vitest';
+import { cleanup, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import App from './App';
+import { encodeView, readViewFromUrl, toViewState } from './utils/viewState';
+
+const SAMPLE = 'city,visits\nBerlin,3\nBoston,1\nCairo,4\nDelhi,1\nDenver,5\nOslo,9\n';
+
+const openWithView = (view: { [key: string]: unknown }) => {
+    window.history.replaceState(null, '', `/?view=${encodeView(toViewState(view)!)}`);
+    render(<App />);
+};
+
+beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(SAMPLE)));
+    Element.prototype.scrollIntoView = () => {};
+});
+
+afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+});
+
+describe('opening a link with a view', () => {
+    it('applies a view that fits the dataset', async () => {
+        openWithView({ filters: { visits: { mode: 'compare', operator: '>', value: '3' } }, query: "city = 'Oslo'", sort: [] });
+        await screen.findByRole('heading', { name: 'Summary (1 matching rows)' });
+        expect(screen.queryByText(/only partly applied/)).not.toBeInTheDocument();
+        expect(readViewFromUrl()?.query).toBe("city = 'Oslo'");
+    });
+
+    it('applies what fits, reports the rest and lets the address follow the app again', async () => {
+        const user = userEvent.setup();
+        openWithView({
+            filters: { visits: { mode: 'compare', operator: '>', value: '3' }, region: { mode: 'values', values: ['EU'] } },
+            query: 'city IN (',
+            sort: [{ column: 'region', direction: 'asc' }]
+        });
+
+        const notice = await screen.findByText(/only partly applied/);
+        expect(notice).toHaveTextContent('this dataset has no column region');
+        expect(notice).toHaveTextContent('its query could not be read');
+        expect(readViewFromUrl()).toMatchObject({ filters: { visits: { mode: 'compare', operator: '>', value: '3' } }, query: '', sort: [] });
+
+        await user.click(screen.getByRole('button', { name: 'Clear all filters' }));
+        await waitFor(() => expect(readViewFromUrl()?.filters).toEqual({}));
+    });
+});
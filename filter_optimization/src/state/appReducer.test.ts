@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { describeFilter, emptyFilter, isFilterActive, type ColumnFilter } from '../utils/filters';
+import { coerceRows, createRowTyper, inferSchema } from '../utils/schema';
+import { appReducer, initialState, type AppAction, type AppState } from './appReducer';
+
+const columns = ['name', 'city', 'age'];
+const raw = [['Ann', 'Oslo', '31'], ['Bob', '', '45'], ['Cy', 'Rome', '']];
+const schema = inferSchema(columns, raw);
+
+const run = (state: AppState, ...actions: AppAction[]) => actions.reduce(appReducer, state);
+
+const loaded = run(initialState, {
+    type: 'SET_DATA',
+    payload: { id: 'people', name: 'People', data: coerceRows(columns, raw, schema), columns, schema }
+});
+
+const setFilter = (column: string, filter: ColumnFilter): AppAction =>
+    ({ type: 'SET_FILTER', payload: { filterType: column, filter } });
+
+const activeColumns = (state: AppState) =>
+    state.columns.filter(column => isFilterActive(state.filters[column], state.schema[column].type));
+
+describe('CLEAR_FILTERS', () => {
+    it('leaves no column filtered, including ones on "is empty" or "is not empty"', () => {
+        const filtered = run(
+            loaded,
+            setFilter('name', { mode: 'text', operator: 'contains', value: 'a', caseSensitive: false }),
+            setFilter('city', { mode: 'empty', empty: true }),
+            setFilter('age', { mode: 'empty', empty: false })
+        );
+        expect(activeColumns(filtered)).toEqual(['name', 'city', 'age']);
+
+        const cleared = run(filtered, { type: 'CLEAR_FILTERS' });
+        expect(activeColumns(cleared)).toEqual([]);
+    });
+
+    it('keeps each column on the mode it was using', () => {
+        const cleared = run(
+            loaded,
+            setFilter('city', { mode: 'empty', empty: true }),
+            setFilter('age', { mode: 'range', min: 40, max: null }),
+            { type: 'CLEAR_FILTERS' }
+        );
+        expect(cleared.filters).toEqual({
+            name: emptyFilter('values'),
+            city: { mode: 'empty', empty: null },
+            age: { mode: 'range', min: null, max: null }
+        });
+    });
+});
+
+describe('emptyFilter', () => {
+    it('starts every mode inactive', () => {
+        (['values', 'range', 'compare', 'text', 'empty'] as const).forEach(mode => {
+            expect(isFilterActive(emptyFilter(mode), 'string')).toBe(false);
+        });
+    });
+
+    it('describes a range with neither bound as nothing', () => {
+        expect(describeFilter(emptyFilter('range'), 'integer')).toBe('');
+        expect(describeFilter({ mode: 'range', min: null, max: 20 }, 'integer')).toBe('<= 20');
+    });
+});
+
+describe('SET_COLUMN_TYPE', () => {
+    it('re-reads what the file said for rows loaded in batches', () => {
+        const typer = createRowTyper(['zip', 'note']);
+        const header: AppAction = { type: 'SET_DATA', payload: { id: 'zips', name: 'Zips', data: [], columns: ['zip', 'note'], schema: typer.schema() } };
+        const batch = (rows: string[][]): AppAction => ({ type: 'APPEND_DATA', payload: { datasetId: 'zips', ...typer.add(rows) } });
+        // The second batch widens note to text, which re-reads the first batch's notes
+        const state = run(initialState, header, batch([['00501', '7']]), batch([['02134', 'x']]));
+        expect(state.data).toEqual([{ zip: 501, note: '7' }, { zip: 2134, note: 'x' }]);
+
+        const text = run(state, { type: 'SET_COLUMN_TYPE', payload: { column: 'zip', columnType: 'string' } });
+        expect(text.data.map(row => row.zip)).toEqual(['00501', '02134']);
+        // Switching back reads the file again, not the text it was just switched to
+        const back = run(text, { type: 'SET_COLUMN_TYPE', payload: { column: 'zip', columnType: 'float' } });
+        expect(back.data.map(row => row.zip)).toEqual([501, 2134]);
+        expect(back.datasets[0].sourceText.zip).toEqual(['00501', '02134']);
+    });
+});
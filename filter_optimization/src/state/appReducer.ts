@@ -0,0 +1,630 @@
+// The app's state and every change to it. AppProvider runs historyReducer, which wraps appReducer with the
+// undo history; nothing here touches the DOM, storage or the network.
+import type { ParseIssue, ParseMeta } from '../utils/csvParser';
+import type { RemoteSource } from '../utils/dataProvider';
+import type { DataSourceConfig, RowBatch } from '../utils/dataSources';
+import type { StoredDatasetInfo } from '../utils/datasetStore';
+import { compileFormula, computeColumns, formulaReaders, formulaSchema, type ComputedColumn } from '../utils/formula';
+import { emptyFilter, isFilterActive, type ColumnFilter, type ColumnFilters } from '../utils/filters';
+import {
+    createGroup,
+    countConditions,
+    formatQuery,
+    parseQuery,
+    removeColumnConditions,
+    type FilterGroup
+} from '../utils/filterExpression';
+import { applyRetypedColumns, retypeColumn, type ColumnType, type DataRow, type Schema, type SourceText } from '../utils/schema';
+import { toggleSort, type SortKey } from '../utils/sorting';
+import type { TableMode, ViewState } from '../utils/viewState';
+
+interface SearchTerms {
+    [key: string]: string;
+}
+
+interface DropdownState {
+    [key: string]: boolean;
+}
+
+interface ParseReport {
+    fileName: string;
+    meta: ParseMeta | null;
+    warnings: ParseIssue[];
+    errors: ParseIssue[];
+}
+
+export interface LoadProgress {
+    fileName: string;
+    loadedBytes: number;
+    totalBytes: number;
+    rowCount: number;
+}
+
+export interface Dataset {
+    id: string;
+    name: string;
+    data: DataRow[];
+    columns: string[];
+    schema: Schema;
+    // What a type override re-reads; only rows just loaded from a source have it
+    sourceText: SourceText;
+    // Formula columns, in definition order; their values are stored in data like any other column
+    computedColumns: ComputedColumn[];
+    // Filters, sort and layout it had when another dataset was opened
+    view: ViewState | null;
+    // Opened from the library, so IndexedDB already holds these rows
+    stored: boolean;
+    // Where the rows came from, for refreshing; null for joins and the sample
+    source: DataSourceConfig | null;
+    // Set when the rows stay on a data server and data is empty
+    server: RemoteSource | null;
+}
+
+// The part of the state undo and redo bring back: filters, search, sort and column layout
+type HistorySnapshot = Pick<AppState, 'filters' | 'query' | 'searchTerms' | 'sort' | 'columnOrder' | 'hiddenColumns' | 'columnWidths'>;
+
+interface HistoryEntry {
+    label: string;
+    // Consecutive changes with the same key, such as keystrokes in one search box, share an entry
+    mergeKey: string | null;
+    // The state right after this change
+    snapshot: HistorySnapshot;
+}
+
+interface History {
+    // The first entry is the dataset as it was opened
+    entries: HistoryEntry[];
+    // The entry the current state matches; the ones after it can be redone
+    position: number;
+}
+
+export interface AppState {
+    // Every loaded dataset; data, columns and schema below are the working copy of the active one
+    datasets: Dataset[];
+    activeDatasetId: string | null;
+    data: DataRow[];
+    filters: ColumnFilters;
+    // Extra boolean expression, ANDed with the per-column filters
+    query: FilterGroup;
+    searchTerms: SearchTerms;
+    dropdownOpen: DropdownState;
+    currentPage: number;
+    tableMode: TableMode;
+    pageSize: number;
+    // Applied to the matching rows before they are paginated
+    sort: SortKey[];
+    columns: string[];
+    // Table layout: display order, hidden columns and widths in pixels
+    columnOrder: string[];
+    hiddenColumns: string[];
+    columnWidths: { [column: string]: number };
+    schema: Schema;
+    sourceText: SourceText;
+    computedColumns: ComputedColumn[];
+    // Datasets saved in IndexedDB, whether or not they are loaded right now
+    library: StoredDatasetInfo[];
+    libraryError: string | null;
+    parseReport: ParseReport | null;
+    loadProgress: LoadProgress | null;
+    // The active dataset's data server; filtering, facets and paging are asked of it instead of done here
+    server: RemoteSource | null;
+    history: History;
+}
+
+// A dataset to load; one reopened from the library brings its formulas and last view along
+export interface DatasetPayload {
+    id: string;
+    name: string;
+    data: DataRow[];
+    columns: string[];
+    schema: Schema;
+    sourceText?: SourceText;
+    computedColumns?: ComputedColumn[];
+    view?: ViewState | null;
+    stored?: boolean;
+    source?: DataSourceConfig | null;
+    server?: RemoteSource | null;
+}
+
+export type AppAction =
+    | { type: 'SET_DATA'; payload: DatasetPayload }
+    | { type: 'APPEND_DATA'; payload: { datasetId: string } & RowBatch }
+    | { type: 'SELECT_DATASET'; payload: string }
+    | { type: 'RENAME_DATASET'; payload: { id: string; name: string } }
+    | { type: 'REMOVE_DATASET'; payload: string }
+    | { type: 'SET_LIBRARY'; payload: StoredDatasetInfo[] }
+    | { type: 'SET_LIBRARY_ERROR'; payload: string | null }
+    | { type: 'SET_LOAD_PROGRESS'; payload: LoadProgress | null }
+    | { type: 'SET_PARSE_REPORT'; payload: ParseReport | null }
+    | { type: 'SET_COLUMN_TYPE'; payload: { column: string; columnType: ColumnType } }
+    | { type: 'ADD_COMPUTED_COLUMN'; payload: ComputedColumn }
+    | { type: 'REMOVE_COMPUTED_COLUMN'; payload: string }
+    | { type: 'SET_FILTER'; payload: { filterType: string; filter: ColumnFilter } }
+    | { type: 'SET_QUERY'; payload: FilterGroup }
+    | { type: 'CLEAR_FILTERS' }
+    | { type: 'SET_SEARCH_TERM'; payload: { filterType: string; value: string } }
+    | { type: 'TOGGLE_DROPDOWN'; payload: string }
+    | { type: 'CLOSE_DROPDOWN'; payload: string }
+    | { type: 'SET_CURRENT_PAGE'; payload: number }
+    | { type: 'SET_TABLE_MODE'; payload: TableMode }
+    | { type: 'SET_PAGE_SIZE'; payload: number }
+    | { type: 'TOGGLE_SORT'; payload: { column: string; additive: boolean } }
+    | { type: 'MOVE_COLUMN'; payload: { column: string; before: string | null } }
+    | { type: 'SET_COLUMN_VISIBLE'; payload: { column: string; visible: boolean } }
+    | { type: 'SET_COLUMN_WIDTH'; payload: { column: string; width: number } }
+    | { type: 'APPLY_VIEW'; payload: ViewState }
+    | { type: 'RESET_PAGINATION' }
+    | { type: 'UNDO' }
+    | { type: 'REDO' }
+    | { type: 'JUMP_TO_HISTORY'; payload: number };
+
+export const initialState: AppState = {
+    datasets: [],
+    activeDatasetId: null,
+    data: [],
+    filters: {},
+    query: createGroup(),
+    searchTerms: {},
+    dropdownOpen: {},
+    currentPage: 1,
+    tableMode: 'scroll',
+    pageSize: 100,
+    sort: [],
+    columns: [],
+    columnOrder: [],
+    hiddenColumns: [],
+    columnWidths: {},
+    schema: {},
+    sourceText: {},
+    computedColumns: [],
+    library: [],
+    libraryError: null,
+    parseReport: null,
+    loadProgress: null,
+    server: null,
+    history: { entries: [], position: 0 }
+};
+
+// Only active filters go into a view, which keeps shared links short
+export const captureView = (state: AppState): ViewState => {
+    const filters: ColumnFilters = {};
+    state.columns.forEach(column => {
+        if (isFilterActive(state.filters[column], state.schema[column]?.type ?? 'string')) filters[column] = state.filters[column];
+    });
+    return {
+        filters,
+        query: countConditions(state.query) > 0 ? formatQuery(state.query, state.schema) : '',
+        sort: state.sort,
+        currentPage: state.currentPage,
+        tableMode: state.tableMode,
+        pageSize: state.pageSize,
+        columnOrder: state.columnOrder,
+        hiddenColumns: state.hiddenColumns,
+        columnWidths: state.columnWidths
+    };
+};
+
+// Whatever in the view refers to columns this dataset does not have is dropped
+const applyView = (state: AppState, view: ViewState): AppState => {
+    const known = (column: string) => state.columns.includes(column);
+    const filters: ColumnFilters = {};
+    state.columns.forEach(column => {
+        filters[column] = view.filters[column] ?? emptyFilter();
+    });
+    const parsed = parseQuery(view.query, state.schema);
+    const columnOrder = view.columnOrder.filter(known);
+    const hiddenColumns = view.hiddenColumns.filter(known);
+    const columnWidths: { [column: string]: number } = {};
+    Object.entries(view.columnWidths).forEach(([column, width]) => {
+        if (known(column)) columnWidths[column] = width;
+    });
+
+    return {
+        ...state,
+        filters,
+        query: parsed.expression ?? createGroup(),
+        sort: view.sort.filter(key => known(key.column)),
+        currentPage: view.currentPage,
+        // A data server hands out pages, never every row at once
+        tableMode: state.server ? 'paged' : view.tableMode,
+        pageSize: view.pageSize,
+        columnOrder: [...columnOrder, ...state.columns.filter(column => !columnOrder.includes(column))],
+        // The table always keeps at least one column
+        hiddenColumns: hiddenColumns.length < state.columns.length ? hiddenColumns : [],
+        columnWidths
+    };
+};
+
+// Makes a dataset the active one, with fresh filters and layout unless it remembers a view
+const openDataset = (state: AppState, dataset: Dataset): AppState => {
+    // Initialize filters and search terms for new columns
+    const newFilters: ColumnFilters = {};
+    const newSearchTerms: SearchTerms = {};
+    const newDropdownOpen: DropdownState = {};
+
+    const columns = dataset.columns;
+    columns.forEach(col => {
+        newFilters[col] = emptyFilter();
+        newSearchTerms[col] = '';
+        newDropdownOpen[col] = false;
+    });
+
+    const opened: AppState = {
+        ...state,
+        activeDatasetId: dataset.id,
+        data: dataset.data,
+        columns: columns,
+        schema: dataset.schema,
+        sourceText: dataset.sourceText,
+        computedColumns: dataset.computedColumns,
+        server: dataset.server,
+        tableMode: dataset.server ? 'paged' : state.tableMode,
+        filters: newFilters,
+        query: createGroup(),
+        searchTerms: newSearchTerms,
+        dropdownOpen: newDropdownOpen,
+        currentPage: 1,
+        sort: [],
+        columnOrder: columns,
+        hiddenColumns: [],
+        columnWidths: {}
+    };
+    return dataset.view ? applyView(opened, dataset.view) : opened;
+};
+
+// The dataset list with the active entry brought up to date: its working copy and, when leaving it, its view
+const syncActiveDataset = (state: AppState, leaving = false): Dataset[] =>
+    state.datasets.map(dataset => dataset.id !== state.activeDatasetId ? dataset : {
+        ...dataset,
+        data: state.data,
+        columns: state.columns,
+        schema: state.schema,
+        sourceText: state.sourceText,
+        computedColumns: state.computedColumns,
+        view: leaving ? captureView(state) : dataset.view
+    });
+
+// Names are unique across loaded datasets and the library
+export const uniqueDatasetName = (datasets: { id: string; name: string }[], name: string, id?: string) => {
+    const taken = (candidate: string) => datasets.some(dataset => dataset.name === candidate && dataset.id !== id);
+    let unique = name;
+    for (let n = 2; taken(unique); n++) unique = `${name} (${n})`;
+    return unique;
+};
+
+// A later batch widened some column types, so the rows already loaded take the values it re-read before appending.
+// Computed columns are filled in for the new rows, or recomputed throughout when a column they read was retyped.
+// Source text carries on for the columns the batch still sends it for; the others have reached text.
+const appendRows = (
+    { data, schema: currentSchema, sourceText: currentText, computedColumns }: Pick<Dataset, 'data' | 'schema' | 'sourceText' | 'computedColumns'>,
+    { rows, schema, retypedColumns, sourceText: batchText }: RowBatch
+) => {
+    const loadedSchema = { ...currentSchema, ...schema };
+    const sourceText: SourceText = {};
+    Object.keys(batchText).forEach(column => {
+        sourceText[column] = (currentText[column] ?? []).concat(batchText[column]);
+    });
+    if (Object.keys(retypedColumns).length > 0) {
+        const retyped = computeColumns(applyRetypedColumns(data, retypedColumns).concat(rows), loadedSchema, computedColumns);
+        return { data: retyped.rows, schema: retyped.schema, sourceText };
+    }
+    const appended = computeColumns(rows, loadedSchema, computedColumns, true);
+    return { data: data.concat(appended.rows), schema: appended.schema, sourceText };
+};
+
+// Rows without the given column
+const withoutColumn = (data: DataRow[], column: string) => data.map(row => {
+    const next = { ...row };
+    delete next[column];
+    return next;
+});
+
+let nextDatasetId = 0;
+export const newDatasetId = () => `dataset-${Date.now().toString(36)}-${++nextDatasetId}`;
+
+export const appReducer = (state: AppState, action: AppAction): AppState => {
+    switch (action.type) {
+        case 'SET_DATA': {
+            // Loading under an existing id replaces that dataset, anything else adds one
+            const { id, name, sourceText = {}, computedColumns = [], view = null, stored = false, source = null, server = null } = action.payload;
+            const others = syncActiveDataset(state, true).filter(dataset => dataset.id !== id);
+            const taken = [...others, ...state.library.filter(info => info.id !== id)];
+            // Refreshed rows come without the computed columns, which are filled in again
+            const missing = computedColumns.filter(computed => !action.payload.columns.includes(computed.name));
+            const { rows, schema } = missing.length > 0
+                ? computeColumns(action.payload.data, action.payload.schema, computedColumns)
+                : { rows: action.payload.data, schema: action.payload.schema };
+            const columns = [...action.payload.columns, ...missing.map(computed => computed.name)];
+            const dataset: Dataset = {
+                id,
+                name: uniqueDatasetName(taken, name),
+                data: rows,
+                columns,
+                schema,
+                sourceText,
+                computedColumns,
+                view,
+                stored,
+                source,
+                server
+            };
+            return openDataset({ ...state, datasets: [...others, dataset] }, dataset);
+        }
+        case 'SELECT_DATASET': {
+            if (action.payload === state.activeDatasetId) return state;
+            const datasets = syncActiveDataset(state, true);
+            const dataset = datasets.find(candidate => candidate.id === action.payload);
+            if (!dataset) return state;
+            return openDataset({ ...state, datasets }, dataset);
+        }
+        case 'RENAME_DATASET': {
+            const { id, name } = action.payload;
+            if (!name.trim()) return state;
+            return {
+                ...state,
+                datasets: state.datasets.map(dataset =>
+                    dataset.id === id ? { ...dataset, name: uniqueDatasetName([...state.datasets, ...state.library], name.trim(), id) } : dataset)
+            };
+        }
+        case 'REMOVE_DATASET': {
+            const datasets = state.datasets.filter(dataset => dataset.id !== action.payload);
+            if (action.payload !== state.activeDatasetId) return { ...state, datasets };
+            // The active dataset went away: open the most recent remaining one, or go back to empty
+            const next = datasets[datasets.length - 1];
+            return next
+                ? openDataset({ ...state, datasets }, next)
+                : { ...initialState, library: state.library, libraryError: state.libraryError, parseReport: state.parseReport, loadProgress: state.loadProgress };
+        }
+        case 'SET_LIBRARY':
+            return { ...state, library: action.payload, libraryError: null };
+        case 'SET_LIBRARY_ERROR':
+            return { ...state, libraryError: action.payload };
+        case 'APPEND_DATA': {
+            const { datasetId } = action.payload;
+
+            // Rows for a dataset that is not open go straight into its entry
+            if (datasetId !== state.activeDatasetId) {
+                return {
+                    ...state,
+                    datasets: state.datasets.map(dataset => dataset.id !== datasetId ? dataset : {
+                        ...dataset,
+                        ...appendRows(dataset, action.payload)
+                    })
+                };
+            }
+
+            const next = { ...state, ...appendRows(state, action.payload) };
+            return { ...next, datasets: syncActiveDataset(next) };
+        }
+        case 'SET_LOAD_PROGRESS':
+            return { ...state, loadProgress: action.payload };
+        case 'SET_PARSE_REPORT':
+            return { ...state, parseReport: action.payload };
+        case 'SET_COLUMN_TYPE': {
+            const { column, columnType } = action.payload;
+            if (!state.schema[column] || state.schema[column].type === columnType) return state;
+            // A computed column's type follows from its formula; a data server keeps the types it inferred
+            if (state.computedColumns.some(computed => computed.name === column) || state.server) return state;
+
+            // Selected values belong to the old type, so the column's filter starts over;
+            // computed columns are recomputed in case they read this one. The source text stays as it was, so
+            // switching back reads the file again too.
+            const retyped = retypeColumn(state.data, state.schema, column, columnType, state.sourceText[column]);
+            const computed = computeColumns(retyped.data, retyped.schema, state.computedColumns);
+            const next = {
+                ...state,
+                data: computed.rows,
+                schema: computed.schema,
+                filters: { ...state.filters, [column]: emptyFilter() },
+                query: removeColumnConditions(state.query, column),
+                currentPage: 1
+            };
+            return { ...next, datasets: syncActiveDataset(next) };
+        }
+        case 'ADD_COMPUTED_COLUMN': {
+            // Adding under a computed column's name redefines it; loaded columns cannot be overwritten
+            const name = action.payload.name.trim();
+            const existing = state.computedColumns.some(computed => computed.name === name);
+            // Formulas are evaluated over rows in memory, which a data server does not send
+            if (!name || (state.schema[name] && !existing) || state.server) return state;
+            const definition = { name, formula: action.payload.formula };
+            const computedColumns = existing
+                ? state.computedColumns.map(computed => computed.name === name ? definition : computed)
+                : [...state.computedColumns, definition];
+            if (!compileFormula(definition.formula, formulaSchema(state.schema, computedColumns, name)).formula) return state;
+
+            const computed = computeColumns(state.data, state.schema, computedColumns);
+            const columns = existing ? state.columns : [...state.columns, name];
+            const next = {
+                ...state,
+                data: computed.rows,
+                schema: computed.schema,
+                computedColumns,
+                columns,
+                columnOrder: existing ? state.columnOrder : [...state.columnOrder, name],
+                filters: { ...state.filters, [name]: emptyFilter() },
+                query: removeColumnConditions(state.query, name),
+                searchTerms: { ...state.searchTerms, [name]: '' },
+                dropdownOpen: { ...state.dropdownOpen, [name]: false },
+                currentPage: 1
+            };
+            return { ...next, datasets: syncActiveDataset(next) };
+        }
+        case 'REMOVE_COMPUTED_COLUMN': {
+            // Columns that other formulas read stay until those formulas are removed
+            const name = action.payload;
+            if (!state.computedColumns.some(computed => computed.name === name)) return state;
+            if (formulaReaders(state.schema, state.computedColumns, name).length > 0) return state;
+
+            const schema = { ...state.schema };
+            delete schema[name];
+            const filters = { ...state.filters };
+            delete filters[name];
+            const columnWidths = { ...state.columnWidths };
+            delete columnWidths[name];
+            const next = {
+                ...state,
+                data: withoutColumn(state.data, name),
+                schema,
+                computedColumns: state.computedColumns.filter(computed => computed.name !== name),
+                columns: state.columns.filter(column => column !== name),
+                columnOrder: state.columnOrder.filter(column => column !== name),
+                hiddenColumns: state.hiddenColumns.filter(column => column !== name),
+                columnWidths,
+                filters,
+                query: removeColumnConditions(state.query, name),
+                sort: state.sort.filter(key => key.column !== name),
+                currentPage: 1
+            };
+            return { ...next, datasets: syncActiveDataset(next) };
+        }
+        case 'SET_FILTER':
+            return {
+                ...state,
+                filters: {
+                    ...state.filters,
+                    [action.payload.filterType]: action.payload.filter
+                }
+            };
+        case 'SET_QUERY':
+            return { ...state, query: action.payload };
+        case 'CLEAR_FILTERS': {
+            // Every panel keeps its filter mode, only the settings are emptied
+            const filters: ColumnFilters = {};
+            state.columns.forEach(column => {
+                filters[column] = emptyFilter(state.filters[column]?.mode);
+            });
+            return { ...state, filters, query: createGroup(), currentPage: 1 };
+        }
+        case 'SET_SEARCH_TERM':
+            return {
+                ...state,
+                searchTerms: {
+                    ...state.searchTerms,
+                    [action.payload.filterType]: action.payload.value
+                }
+            };
+        case 'TOGGLE_DROPDOWN': {
+            // Opening one dropdown closes every other
+            const dropdownOpen: DropdownState = {};
+            state.columns.forEach(column => { dropdownOpen[column] = false; });
+            dropdownOpen[action.payload] = !state.dropdownOpen[action.payload];
+            return { ...state, dropdownOpen };
+        }
+        case 'CLOSE_DROPDOWN':
+            if (!state.dropdownOpen[action.payload]) return state;
+            return { ...state, dropdownOpen: { ...state.dropdownOpen, [action.payload]: false } };
+        case 'SET_CURRENT_PAGE':
+            return { ...state, currentPage: action.payload };
+        case 'SET_TABLE_MODE':
+            if (state.server && action.payload === 'scroll') return state;
+            return { ...state, tableMode: action.payload, currentPage: 1 };
+        case 'SET_PAGE_SIZE':
+            return { ...state, pageSize: action.payload, currentPage: 1 };
+        case 'RESET_PAGINATION':
+            return { ...state, currentPage: 1 };
+        case 'TOGGLE_SORT':
+            return { ...state, sort: toggleSort(state.sort, action.payload.column, action.payload.additive) };
+        case 'MOVE_COLUMN': {
+            // Moves the column in front of another one, or to the end when before is null
+            const { column, before } = action.payload;
+            if (column === before) return state;
+            const rest = state.columnOrder.filter(name => name !== column);
+            const target = before === null ? rest.length : rest.indexOf(before);
+            if (target === -1) return state;
+            return { ...state, columnOrder: [...rest.slice(0, target), column, ...rest.slice(target)] };
+        }
+        case 'SET_COLUMN_VISIBLE': {
+            const { column, visible } = action.payload;
+            const hiddenColumns = state.hiddenColumns.filter(name => name !== column);
+            return { ...state, hiddenColumns: visible ? hiddenColumns : [...hiddenColumns, column] };
+        }
+        case 'SET_COLUMN_WIDTH':
+            return {
+                ...state,
+                columnWidths: {
+                    ...state.columnWidths,
+                    [action.payload.column]: action.payload.width
+                }
+            };
+        case 'APPLY_VIEW':
+            return applyView(state, action.payload);
+        case 'UNDO':
+            return restoreHistory(state, state.history.position - 1);
+        case 'REDO':
+            return restoreHistory(state, state.history.position + 1);
+        case 'JUMP_TO_HISTORY':
+            return restoreHistory(state, action.payload);
+        default:
+            return state;
+    }
+};
+
+const HISTORY_LIMIT = 100;
+
+const takeSnapshot = ({ filters, query, searchTerms, sort, columnOrder, hiddenColumns, columnWidths }: AppState): HistorySnapshot =>
+    ({ filters, query, searchTerms, sort, columnOrder, hiddenColumns, columnWidths });
+
+const sameSnapshot = (a: HistorySnapshot, b: HistorySnapshot) =>
+    (Object.keys(a) as (keyof HistorySnapshot)[]).every(key => a[key] === b[key]);
+
+const restoreHistory = (state: AppState, position: number): AppState => {
+    const entry = state.history.entries[position];
+    if (!entry || position === state.history.position) return state;
+    return { ...state, ...entry.snapshot, currentPage: 1, history: { ...state.history, position } };
+};
+
+// Which actions are recorded and how they read in the history list; everything else, like paging,
+// scrolling and opening dropdowns, is left out. Text typed into a box and dragged widths merge into one entry.
+const describeChange = (action: AppAction): { label: string; mergeKey: string | null } | null => {
+    switch (action.type) {
+        case 'SET_FILTER': {
+            const { filterType: column, filter } = action.payload;
+            // Picking values is a click each; ranges and typed operands change continuously
+            const continuous = filter.mode !== 'values' && filter.mode !== 'empty';
+            return { label: `Filter ${column}`, mergeKey: continuous ? `filter:${column}` : null };
+        }
+        case 'SET_QUERY':
+            return { label: 'Edit query', mergeKey: 'query' };
+        case 'CLEAR_FILTERS':
+            return { label: 'Clear all filters', mergeKey: null };
+        case 'SET_SEARCH_TERM':
+            return { label: `Search ${action.payload.filterType}`, mergeKey: `search:${action.payload.filterType}` };
+        case 'TOGGLE_SORT':
+            return { label: `Sort by ${action.payload.column}`, mergeKey: null };
+        case 'MOVE_COLUMN':
+            return { label: `Move ${action.payload.column}`, mergeKey: null };
+        case 'SET_COLUMN_VISIBLE':
+            return { label: `${action.payload.visible ? 'Show' : 'Hide'} ${action.payload.column}`, mergeKey: null };
+        case 'SET_COLUMN_WIDTH':
+            return { label: `Resize ${action.payload.column}`, mergeKey: `width:${action.payload.column}` };
+        case 'APPLY_VIEW':
+            return { label: 'Apply view', mergeKey: null };
+        default:
+            return null;
+    }
+};
+
+// Wraps appReducer to keep the history. A different dataset, or columns that changed type or came and went,
+// start it over, since earlier snapshots could refer to columns that are no longer there.
+export const historyReducer = (state: AppState, action: AppAction): AppState => {
+    const next = appReducer(state, action);
+    if (next.activeDatasetId !== state.activeDatasetId || next.columns !== state.columns || next.schema !== state.schema) {
+        return { ...next, history: { entries: [{ label: 'Opened dataset', mergeKey: null, snapshot: takeSnapshot(next) }], position: 0 } };
+    }
+
+    const change = describeChange(action);
+    const { entries, position } = next.history;
+    const snapshot = takeSnapshot(next);
+    if (!change || entries.length === 0 || sameSnapshot(snapshot, takeSnapshot(state))) return next;
+
+    // Keep extending the latest entry while the same box is being typed into
+    const latest = entries[position];
+    if (change.mergeKey !== null && latest.mergeKey === change.mergeKey && position === entries.length - 1) {
+        return { ...next, history: { entries: [...entries.slice(0, position), { ...latest, snapshot }], position } };
+    }
+
+    // A new change drops whatever could have been redone
+    const kept = [...entries.slice(0, position + 1), { ...change, snapshot }].slice(-HISTORY_LIMIT);
+    return { ...next, history: { entries: kept, position: kept.length - 1 } };
+};
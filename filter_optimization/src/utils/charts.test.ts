@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { histogramBins } from './charts';
+import { createPredicate } from './filters';
+import type { ColumnType } from './schema';
+
+const facetOf = (values: number[]) => {
+    const sorted = [...new Set(values)].sort((a, b) => a - b);
+    return { values: sorted, counts: sorted.map(value => values.filter(other => other === value).length) };
+};
+
+// What brushing bins from..to filters the column to, counted over the charted values
+const brushedCount = (values: number[], type: ColumnType, from: number, to: number) => {
+    const bins = histogramBins(facetOf(values), type, null);
+    const predicate = createPredicate({ mode: 'range', min: bins[from].start, max: bins[to].end }, type);
+    return values.filter(value => predicate?.(value)).length;
+};
+
+const barCount = (values: number[], type: ColumnType, from: number, to: number) =>
+    histogramBins(facetOf(values), type, null).slice(from, to + 1).reduce((total, bin) => total + bin.count, 0);
+
+describe('histogramBins', () => {
+    // 0 to 20 in steps of 0.5: values sit exactly on every bin edge
+    const edges = Array.from({ length: 41 }, (_, index) => index / 2);
+
+    it('puts every value in one bin', () => {
+        const bins = histogramBins(facetOf(edges), 'float', null);
+        expect(bins).toHaveLength(20);
+        expect(bins.reduce((total, bin) => total + bin.count, 0)).toBe(edges.length);
+    });
+
+    it('selects exactly the rows in the brushed bars, even on a bin edge', () => {
+        [[0, 0], [3, 3], [3, 7], [19, 19], [0, 19]].forEach(([from, to]) => {
+            expect(brushedCount(edges, 'float', from, to)).toBe(barCount(edges, 'float', from, to));
+        });
+    });
+
+    it('matches nothing for an empty bin', () => {
+        const values = [0, 0.1, 9.9, 10];
+        const bins = histogramBins(facetOf(values), 'float', null);
+        const empty = bins.findIndex(bin => bin.count === 0);
+        expect(brushedCount(values, 'float', empty, empty)).toBe(0);
+        expect(brushedCount(values, 'float', 0, empty)).toBe(barCount(values, 'float', 0, empty));
+    });
+
+    it('keeps bin edges awkward for floating point apart', () => {
+        const values = Array.from({ length: 100 }, (_, index) => index * 0.1);
+        for (let bin = 0; bin < 20; bin++) {
+            expect(brushedCount(values, 'float', bin, bin)).toBe(barCount(values, 'float', bin, bin));
+        }
+    });
+
+    it('uses whole-number bins for integers', () => {
+        const values = Array.from({ length: 100 }, (_, index) => index);
+        const bins = histogramBins(facetOf(values), 'integer', null);
+        expect(bins[0]).toMatchObject({ start: 0, end: 4, count: 5 });
+        expect(brushedCount(values, 'integer', 2, 4)).toBe(15);
+    });
+
+    it('counts the part the column filter lets through', () => {
+        const predicate = createPredicate({ mode: 'range', min: 0, max: 1 }, 'float');
+        const bins = histogramBins(facetOf(edges), 'float', predicate);
+        expect(bins[0]).toMatchObject({ count: 2, selected: 2 });
+        expect(bins[1]).toMatchObject({ count: 2, selected: 1 });
+    });
+});
@@ -0,0 +1,81 @@
+import type { Facet } from './filterEngine';
+import type { ValuePredicate } from './filters';
+import type { CellValue, ColumnType } from './schema';
+
+// Charts are drawn from a facet: the rows that pass every filter except the charted column's own,
+// so its bars stay visible and clickable while the column is filtered. "selected" is the part the
+// column's filter lets through.
+
+export interface HistogramBin {
+    // Inclusive bounds, ready to go into a range filter. A bin's end is the largest value it holds (its start when
+    // it holds none), so a range over whole bins matches exactly the rows in their bars, never the next bin's edge.
+    start: number;
+    end: number;
+    count: number;
+    selected: number;
+}
+
+export interface BarDatum {
+    value: CellValue;
+    count: number;
+    selected: boolean;
+}
+
+export const MAX_BINS = 20;
+export const MAX_BARS = 20;
+
+export const isHistogramType = (type: ColumnType) => type === 'integer' || type === 'float' || type === 'date';
+
+export const histogramBins = (facet: Facet, type: ColumnType, predicate: ValuePredicate | null): HistogramBin[] => {
+    const numbers: number[] = [];
+    const counts: number[] = [];
+    facet.values.forEach((value, index) => {
+        if (typeof value !== 'number') return;
+        numbers.push(value);
+        counts.push(facet.counts[index]);
+    });
+    if (numbers.length === 0) return [];
+
+    // Facet values are sorted, so the ends are the extremes
+    const min = numbers[0];
+    const max = numbers[numbers.length - 1];
+    const bins: HistogramBin[] = [];
+    if (type === 'integer') {
+        // Whole-number bins so every integer falls in exactly one of them
+        const width = Math.max(1, Math.ceil((max - min + 1) / MAX_BINS));
+        for (let start = min; start <= max; start += width) {
+            bins.push({ start, end: start + width - 1, count: 0, selected: 0 });
+        }
+    } else {
+        const binCount = min === max ? 1 : MAX_BINS;
+        const width = (max - min) / binCount;
+        for (let i = 0; i < binCount; i++) {
+            const start = min + i * width;
+            bins.push({ start, end: start, count: 0, selected: 0 });
+        }
+    }
+
+    // Values sit in the last bin whose start they reach, judged with the same comparisons a range filter makes
+    const width = bins.length > 1 ? bins[1].start - bins[0].start : 1;
+    numbers.forEach((value, index) => {
+        let at = Math.max(0, Math.min(bins.length - 1, Math.floor((value - min) / width)));
+        while (at + 1 < bins.length && value >= bins[at + 1].start) at++;
+        while (at > 0 && value < bins[at].start) at--;
+        const bin = bins[at];
+        bin.count += counts[index];
+        if (!predicate || predicate(value)) bin.selected += counts[index];
+        if (type !== 'integer') bin.end = Math.max(bin.end, value);
+    });
+    return bins;
+};
+
+// The most frequent values, most frequent first; hidden is how many values did not fit
+export const valueBars = (facet: Facet, predicate: ValuePredicate | null): { bars: BarDatum[]; hidden: number } => {
+    const order = facet.values.map((_, index) => index).sort((a, b) => facet.counts[b] - facet.counts[a]);
+    const bars = order.slice(0, MAX_BARS).map(index => ({
+        value: facet.values[index],
+        count: facet.counts[index],
+        selected: !predicate || predicate(facet.values[index])
+    }));
+    return { bars, hidden: Math.max(0, order.length - MAX_BARS) };
+};
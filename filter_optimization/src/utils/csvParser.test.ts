@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { createCSVStream, createStreamDecoder, fitRow, normalizeHeader, type ParseIssue } from './csvParser';
+
+const encoder = new TextEncoder();
+
+// Feeds the pieces one push at a time and collects every row that comes out
+const streamRows = (pieces: string[]) => {
+    const stream = createCSVStream();
+    const rows = pieces.flatMap(piece => stream.push(piece));
+    rows.push(...stream.finish());
+    return { rows, columns: stream.columns(), report: stream.report() };
+};
+
+// Every way of cutting the text in two
+const splits = (text: string) => Array.from({ length: text.length + 1 }, (_, at) => [text.slice(0, at), text.slice(at)]);
+
+const decodeChunks = (chunks: Uint8Array[], encoding?: string) => {
+    const decoder = createStreamDecoder(encoding);
+    const text = chunks.map((chunk, index) => decoder.decode(chunk, index === chunks.length - 1)).join('');
+    return { text, decoder };
+};
+
+const concat = (...parts: (Uint8Array | number[])[]) => Uint8Array.from(parts.flatMap(part => [...part]));
+
+describe('createCSVStream', () => {
+    const text = 'id,note\n1,"first line\nsecond line"\n2,"say ""hi"", then go"\r\n3,plain\n';
+    const expected = [
+        ['1', 'first line\nsecond line'],
+        ['2', 'say "hi", then go'],
+        ['3', 'plain']
+    ];
+
+    it('parses the whole text in one push', () => {
+        const { rows, columns } = streamRows([text]);
+        expect(columns).toEqual(['id', 'note']);
+        expect(rows).toEqual(expected);
+    });
+
+    it('keeps quoted newlines and "" escapes intact wherever a chunk boundary falls', () => {
+        splits(text).forEach(pieces => {
+            expect(streamRows(pieces).rows).toEqual(expected);
+        });
+    });
+
+    it('survives one character per push', () => {
+        const { rows, report } = streamRows([...text]);
+        expect(rows).toEqual(expected);
+        expect(report.rowCount).toBe(3);
+    });
+
+    it('drops a BOM at the start of the first chunk only', () => {
+        const { columns, rows } = streamRows(['\ufeff', 'a,b\n1,\ufeff2\n']);
+        expect(columns).toEqual(['a', 'b']);
+        expect(rows).toEqual([['1', '\ufeff2']]);
+    });
+
+    it('reports a file without a header row', () => {
+        const { rows, report } = streamRows(['']);
+        expect(rows).toEqual([]);
+        expect(report.errors.map(error => error.code)).toEqual(['EmptyFile']);
+    });
+
+    it('lines ragged rows up with the header and caps the issue list', () => {
+        const body = Array.from({ length: 150 }, (_, index) => index % 2 === 0 ? `${index}` : `${index},x,extra`);
+        const { rows, report } = streamRows([`a,b\n${body.join('\n')}\n`]);
+        expect(rows).toHaveLength(150);
+        expect(rows[0]).toEqual(['0', '']);
+        expect(rows[1]).toEqual(['1', 'x']);
+
+        const codes = report.warnings.map(warning => warning.code);
+        expect(codes.filter(code => code === 'TooFewFields' || code === 'TooManyFields')).toHaveLength(100);
+        const last = report.warnings[report.warnings.length - 1];
+        expect(last.code).toBe('TooManyIssues');
+        expect(last.message).toContain('50 more');
+    });
+});
+
+describe('createStreamDecoder', () => {
+    it('joins a multi-byte UTF-8 character split across chunks', () => {
+        const bytes = encoder.encode('name\nJosé 日本\n');
+        for (let at = 0; at <= bytes.length; at++) {
+            const { text, decoder } = decodeChunks([bytes.slice(0, at), bytes.slice(at)]);
+            expect(text).toBe('name\nJosé 日本\n');
+            expect(decoder.encoding()).toBe('utf-8');
+            expect(decoder.warnings).toEqual([]);
+        }
+    });
+
+    it('sniffs and strips a UTF-8 BOM, even when it is split', () => {
+        const bytes = concat([0xef, 0xbb, 0xbf], encoder.encode('a,b\n'));
+        for (let at = 0; at <= 4; at++) {
+            const { text, decoder } = decodeChunks([bytes.slice(0, at), bytes.slice(at)]);
+            expect(text).toBe('a,b\n');
+            expect(decoder.encoding()).toBe('utf-8');
+        }
+    });
+
+    it('sniffs a UTF-16 BOM', () => {
+        const bytes = concat([0xff, 0xfe], [0x61, 0, 0x2c, 0, 0x62, 0]);
+        const { text, decoder } = decodeChunks([bytes]);
+        expect(text).toBe('a,b');
+        expect(decoder.encoding()).toBe('utf-16le');
+    });
+
+    it('falls back to windows-1252 with a warning when the bytes are not UTF-8', () => {
+        // "café,€5" in windows-1252; the encoding is settled from the first chunk
+        const bytes = concat(encoder.encode('caf'), [0xe9, 0x2c, 0x80, 0x35]);
+        const { text, decoder } = decodeChunks([bytes.slice(0, 5), bytes.slice(5)]);
+        expect(decoder.encoding()).toBe('windows-1252');
+        expect(decoder.warnings.map(warning => warning.code)).toEqual(['EncodingFallback']);
+        expect(text).toBe('café,€5');
+    });
+
+    it('uses an explicit encoding without sniffing', () => {
+        const { text, decoder } = decodeChunks([Uint8Array.from([0xe9])], 'iso-8859-1');
+        expect(text).toBe('é');
+        expect(decoder.encoding()).toBe('iso-8859-1');
+    });
+
+    it('reports an encoding it cannot decode', () => {
+        const { text, decoder } = decodeChunks([encoder.encode('a')], 'no-such-encoding');
+        expect(text).toBe('');
+        expect(decoder.errors.map(error => error.code)).toEqual(['UnsupportedEncoding']);
+    });
+});
+
+describe('normalizeHeader', () => {
+    it('names blank columns by position and suffixes duplicates', () => {
+        const { columns, warnings } = normalizeHeader(['id', ' ', 'name', 'name', 'name_2', '', 'id ']);
+        expect(columns).toEqual(['id', 'column_2', 'name', 'name_2', 'name_2_2', 'column_6', 'id_2']);
+        expect(warnings.map(warning => warning.code)).toEqual([
+            'EmptyHeader',
+            'DuplicateHeader',
+            'DuplicateHeader',
+            'EmptyHeader',
+            'DuplicateHeader'
+        ]);
+    });
+});
+
+describe('fitRow', () => {
+    const fit = (row: string[]) => {
+        const issues: ParseIssue[] = [];
+        return { row: fitRow(row, 3, 7, issue => issues.push(issue)), issues };
+    };
+
+    it('leaves a row of the right width alone', () => {
+        expect(fit(['a', 'b', 'c'])).toEqual({ row: ['a', 'b', 'c'], issues: [] });
+    });
+
+    it('pads a short row with empty cells', () => {
+        const { row, issues } = fit(['a']);
+        expect(row).toEqual(['a', '', '']);
+        expect(issues).toMatchObject([{ code: 'TooFewFields', row: 7 }]);
+    });
+
+    it('cuts a long row to the header width', () => {
+        const { row, issues } = fit(['a', 'b', 'c', 'd']);
+        expect(row).toEqual(['a', 'b', 'c']);
+        expect(issues).toMatchObject([{ code: 'TooManyFields', row: 7 }]);
+    });
+});
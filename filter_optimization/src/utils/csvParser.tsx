@@ -1,5 +1,324 @@
+import Papa from 'papaparse';
+import { coerceRows, inferSchema, sourceTextOf, type DataRow, type Schema, type SourceText } from './schema';
 
-module.export = {
-    ParserCSV,
-    DataRow,
+export type ParseIssueCode =
+    | 'UnsupportedEncoding'
+    | 'EncodingFallback'
+    | 'EmptyFile'
+    | 'UndetectableDelimiter'
+    | 'InvalidQuotes'
+    | 'MissingQuotes'
+    | 'EmptyHeader'
+    | 'DuplicateHeader'
+    | 'TooFewFields'
+    | 'TooManyFields'
+    | 'TooManyIssues'
+    | 'LoadCancelled'
+    | 'InvalidRecord'
+    | 'RepeatedPage';
+
+export interface ParseIssue {
+    code: ParseIssueCode;
+    message: string;
+    // 1-based data row, not counting the header
+    row?: number;
+}
+
+export interface ParseOptions {
+    // 'auto' sniffs the BOM and falls back to windows-1252 when the bytes are not valid UTF-8
+    encoding?: string;
+    // Empty string lets the parser guess from the first rows
+    delimiter?: string;
+}
+
+export interface ParseMeta {
+    delimiter: string;
+    linebreak: string;
+    encoding: string;
+    rowCount: number;
 }
+
+export interface CSVParseResult {
+    columns: string[];
+    data: DataRow[];
+    schema: Schema;
+    sourceText: SourceText;
+    meta: ParseMeta;
+    warnings: ParseIssue[];
+    errors: ParseIssue[];
+}
+
+export const ENCODINGS = ['auto', 'utf-8', 'utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-1', 'shift_jis', 'gbk'];
+export const DELIMITERS_TO_GUESS = [',', ';', '\t', '|'];
+
+// Ragged files can produce one issue per row, keep the report readable
+const MAX_ROW_ISSUES = 100;
+
+const BOMS: { encoding: string; bytes: number[] }[] = [
+    { encoding: 'utf-8', bytes: [0xef, 0xbb, 0xbf] },
+    { encoding: 'utf-16le', bytes: [0xff, 0xfe] },
+    { encoding: 'utf-16be', bytes: [0xfe, 0xff] }
+];
+
+export const sniffEncoding = (bytes: Uint8Array): string | null => {
+    const match = BOMS.find(bom => bom.bytes.every((byte, index) => bytes[index] === byte));
+    return match ? match.encoding : null;
+};
+
+// Picks the encoding from the first bytes it sees, then decodes chunk by chunk without splitting characters
+export const createStreamDecoder = (requested = 'auto') => {
+    const warnings: ParseIssue[] = [];
+    const errors: ParseIssue[] = [];
+    let encoding = requested;
+    // Spelled this way so the Node type definitions used by the data server accept it too
+    let decoder: InstanceType<typeof TextDecoder> | null = null;
+
+    const open = (firstBytes: Uint8Array) => {
+        if (requested !== 'auto') {
+            try {
+                return new TextDecoder(requested);
+            } catch {
+                errors.push({ code: 'UnsupportedEncoding', message: `This browser cannot decode "${requested}"` });
+                return null;
+            }
+        }
+
+        const sniffed = sniffEncoding(firstBytes);
+        if (sniffed) {
+            encoding = sniffed;
+            return new TextDecoder(sniffed);
+        }
+
+        try {
+            new TextDecoder('utf-8', { fatal: true }).decode(firstBytes, { stream: true });
+            encoding = 'utf-8';
+        } catch {
+            encoding = 'windows-1252';
+            warnings.push({
+                code: 'EncodingFallback',
+                message: 'File is not valid UTF-8, decoded as windows-1252. Pick the encoding explicitly if characters look wrong.'
+            });
+        }
+        return new TextDecoder(encoding);
+    };
+
+    return {
+        decode: (bytes: Uint8Array, last: boolean) => {
+            if (!decoder && errors.length === 0) decoder = open(bytes);
+            return decoder ? decoder.decode(bytes, { stream: !last }) : '';
+        },
+        encoding: () => encoding,
+        warnings,
+        errors
+    };
+};
+
+export const decodeCSV = (buffer: ArrayBuffer, encoding = 'auto') => {
+    const decoder = createStreamDecoder(encoding);
+    const text = decoder.decode(new Uint8Array(buffer), true);
+    return { text, encoding: decoder.encoding(), warnings: decoder.warnings, errors: decoder.errors };
+};
+
+export const stripBOM = (text: string) => (text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+
+// Blank header cells get a positional name and repeated names get a numeric suffix
+export const normalizeHeader = (fields: string[]) => {
+    const warnings: ParseIssue[] = [];
+    const seen = new Set<string>();
+    const columns = fields.map((field, index) => {
+        let name = field.trim();
+        if (name === '') {
+            name = `column_${index + 1}`;
+            warnings.push({ code: 'EmptyHeader', message: `Column ${index + 1} has no name, using "${name}"` });
+        }
+        if (seen.has(name)) {
+            let suffix = 2;
+            while (seen.has(`${name}_${suffix}`)) suffix++;
+            warnings.push({ code: 'DuplicateHeader', message: `Column "${name}" appears more than once, renamed to "${name}_${suffix}"` });
+            name = `${name}_${suffix}`;
+        }
+        seen.add(name);
+        return name;
+    });
+    return { columns, warnings };
+};
+
+// Collects per-row issues up to MAX_ROW_ISSUES and counts the rest
+export const createIssueCollector = () => {
+    const issues: ParseIssue[] = [];
+    let dropped = 0;
+    return {
+        add: (issue: ParseIssue) => {
+            if (issues.length < MAX_ROW_ISSUES) {
+                issues.push(issue);
+            } else {
+                dropped++;
+            }
+        },
+        list: (): ParseIssue[] => dropped === 0
+            ? issues
+            : [...issues, { code: 'TooManyIssues', message: `${dropped} more row issues were not listed` }]
+    };
+};
+
+// Pad short rows and cut long ones so every row lines up with the header
+export const fitRow = (row: string[], width: number, rowNumber: number, report: (issue: ParseIssue) => void) => {
+    if (row.length === width) return row;
+    if (row.length < width) {
+        report({ code: 'TooFewFields', message: `Row ${rowNumber} has ${row.length} fields, expected ${width}; missing cells are left empty`, row: rowNumber });
+        return [...row, ...new Array<string>(width - row.length).fill('')];
+    }
+    report({ code: 'TooManyFields', message: `Row ${rowNumber} has ${row.length} fields, expected ${width}; extra cells were dropped`, row: rowNumber });
+    return row.slice(0, width);
+};
+
+// rowOffset maps Papa's row index within one parse call to a data row number
+export const toParseIssue = (error: Papa.ParseError, rowOffset = 0): ParseIssue => {
+    const row = error.row === undefined ? undefined : error.row + rowOffset;
+    switch (error.code) {
+        case 'UndetectableDelimiter':
+            return { code: 'UndetectableDelimiter', message: `Could not detect the delimiter, assumed ","` };
+        case 'MissingQuotes':
+            return { code: 'MissingQuotes', message: `Row ${row}: quoted field is never closed`, row };
+        default:
+            return { code: 'InvalidQuotes', message: `Row ${row}: ${error.message}`, row };
+    }
+};
+
+// Incremental parser: text goes in as it is decoded, complete rows come out.
+// Rows are only cut at line breaks outside quotes, so quoted newlines survive chunk boundaries.
+export const createCSVStream = (options: ParseOptions = {}) => {
+    const warnings: ParseIssue[] = [];
+    const errors: ParseIssue[] = [];
+    const rowIssues = createIssueCollector();
+    let delimiter = options.delimiter ?? '';
+    let linebreak = '';
+    let columns: string[] | null = null;
+    let rowCount = 0;
+
+    let pending = '';
+    let scanned = 0;
+    let inQuotes = false;
+    let boundary = 0;
+
+    const parseComplete = (text: string): string[][] => {
+        const parsed = Papa.parse<string[]>(text, {
+            header: false,
+            dynamicTyping: false,
+            skipEmptyLines: true,
+            delimiter,
+            newline: linebreak as Papa.ParseConfig['newline'],
+            delimitersToGuess: DELIMITERS_TO_GUESS
+        });
+
+        // The first block fixes the delimiter and line break for the rest of the stream, so a file with mixed
+        // line endings splits the same way wherever the chunk boundaries fall
+        const rowOffset = columns ? rowCount + 1 : 0;
+        parsed.errors.forEach(error => {
+            const issue = toParseIssue(error, rowOffset);
+            if (error.type === 'Delimiter') {
+                warnings.push(issue);
+            } else {
+                errors.push(issue);
+            }
+        });
+        delimiter = parsed.meta.delimiter;
+        linebreak = linebreak || parsed.meta.linebreak;
+
+        let body = parsed.data;
+        if (!columns) {
+            if (body.length === 0) return [];
+            const header = normalizeHeader(body[0]);
+            warnings.push(...header.warnings);
+            columns = header.columns;
+            body = body.slice(1);
+        }
+
+        const width = columns.length;
+        return body.map(row => {
+            rowCount++;
+            return fitRow(row, width, rowCount, rowIssues.add);
+        });
+    };
+
+    const push = (text: string): string[][] => {
+        pending += pending === '' && !columns ? stripBOM(text) : text;
+        for (let i = scanned; i < pending.length; i++) {
+            const code = pending.charCodeAt(i);
+            if (code === 34) {
+                inQuotes = !inQuotes;
+            } else if (code === 10 && !inQuotes) {
+                boundary = i + 1;
+            }
+        }
+        scanned = pending.length;
+
+        if (boundary === 0) return [];
+        const complete = pending.slice(0, boundary);
+        pending = pending.slice(boundary);
+        scanned -= boundary;
+        boundary = 0;
+        return parseComplete(complete);
+    };
+
+    const finish = (): string[][] => {
+        const rows = pending === '' ? [] : parseComplete(pending);
+        pending = '';
+        if (!columns) {
+            errors.push({ code: 'EmptyFile', message: 'The file has no header row' });
+        }
+        return rows;
+    };
+
+    return {
+        push,
+        finish,
+        columns: () => columns,
+        report: () => ({
+            delimiter,
+            linebreak,
+            rowCount,
+            warnings: [...warnings, ...rowIssues.list()],
+            errors
+        })
+    };
+};
+
+// Split text into a header and string rows, without any typing
+export const parseCSVText = (text: string, options: ParseOptions = {}) => {
+    const stream = createCSVStream(options);
+    const rows = [...stream.push(text), ...stream.finish()];
+    const report = stream.report();
+
+    return {
+        columns: stream.columns() ?? [],
+        rows,
+        delimiter: report.delimiter,
+        linebreak: report.linebreak,
+        warnings: report.warnings,
+        errors: report.errors
+    };
+};
+
+export const parseCSV = (buffer: ArrayBuffer, options: ParseOptions = {}): CSVParseResult => {
+    const decoded = decodeCSV(buffer, options.encoding);
+    const parsed = decoded.errors.length > 0
+        ? { columns: [], rows: [], delimiter: '', linebreak: '', warnings: [], errors: [] }
+        : parseCSVText(decoded.text, options);
+    const schema = inferSchema(parsed.columns, parsed.rows);
+
+    return {
+        columns: parsed.columns,
+        data: coerceRows(parsed.columns, parsed.rows, schema),
+        schema,
+        sourceText: sourceTextOf(parsed.columns, parsed.rows, schema),
+        meta: {
+            delimiter: parsed.delimiter,
+            linebreak: parsed.linebreak,
+            encoding: decoded.encoding,
+            rowCount: parsed.rows.length
+        },
+        warnings: [...decoded.warnings, ...parsed.warnings],
+        errors: [...decoded.errors, ...parsed.errors]
+    };
+};
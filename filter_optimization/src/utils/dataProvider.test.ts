@@ -0,0 +1,157 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createDataHandler } from '../../scripts/dataService';
+import { createMemoryProvider, createRemoteProvider, fetchRemoteDataset, STREAM_BATCH_ROWS, type DataProvider, type DataQuery } from './dataProvider';
+import { createFilterEngine } from './filterEngine';
+import { createCondition, createGroup } from './filterExpression';
+import type { ColumnFilter } from './filters';
+import { coerceRows, inferSchema, type DataRow } from './schema';
+
+const CITIES = ['Berlin', 'Cairo', 'Oslo', 'Lima'];
+const columns = ['id', 'city', 'score'];
+// More rows than one stream batch, so streams arrive in several
+const raw = Array.from({ length: STREAM_BATCH_ROWS * 2 + 500 }, (_, index) =>
+    [String(index), CITIES[index % CITIES.length], index % 7 === 0 ? '' : String((index % 100) / 4)]);
+const schema = inferSchema(columns, raw);
+const data = coerceRows(columns, raw, schema);
+
+const createProvider = () => createMemoryProvider(createFilterEngine(data, columns, schema), data);
+
+const query = (filters: DataQuery['filters'] = {}, sort: DataQuery['sort'] = [], root = createGroup()): DataQuery =>
+    ({ filters, query: root, sort });
+
+const inOslo: ColumnFilter = { mode: 'values', values: ['Oslo'] };
+const highScore: ColumnFilter = { mode: 'range', min: 20, max: null };
+const scoresHigh = (row: DataRow) => typeof row.score === 'number' && row.score >= 20;
+const expected = data.filter(row => row.city === 'Oslo' && scoresHigh(row));
+
+let server: Server;
+let baseUrl = '';
+
+beforeAll(async () => {
+    server = createServer(createDataHandler({ name: 'test.csv', columns, schema, rowCount: data.length }, createProvider()));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+// The same questions go to the in-memory provider and to the data server through its client
+describe.each([
+    { mode: 'memory', provider: () => createProvider(), badQueryError: /Unknown compare operator/ },
+    { mode: 'remote', provider: () => createRemoteProvider(baseUrl), badQueryError: /HTTP 400/ }
+])('$mode provider', ({ provider: create, badQueryError }) => {
+    let provider: DataProvider;
+    beforeAll(() => { provider = create(); });
+
+    it('pages through the matching rows in sort order', async () => {
+        const sorted = [...expected].sort((a, b) => Number(b.score) - Number(a.score) || Number(a.id) - Number(b.id));
+        const sort: DataQuery['sort'] = [{ column: 'score', direction: 'desc' }, { column: 'id', direction: 'asc' }];
+
+        const first = await provider.page(query({ city: inOslo, score: highScore }, sort), 0, 50);
+        expect(first).toEqual({ offset: 0, rows: sorted.slice(0, 50), total: expected.length });
+        const later = await provider.page(query({ city: inOslo, score: highScore }, sort), 100, 50);
+        expect(later.rows).toEqual(sorted.slice(100, 150));
+    });
+
+    it('applies the query builder tree as well as the column filters', async () => {
+        const root = createGroup('or', [createCondition('city', inOslo), createCondition('city', { mode: 'values', values: ['Lima'] })]);
+        const page = await provider.page(query({ score: highScore }, [], root), 0, 10);
+        expect(page.total).toBe(data.filter(row => (row.city === 'Oslo' || row.city === 'Lima') && scoresHigh(row)).length);
+        expect(page.rows.every(row => row.city === 'Oslo' || row.city === 'Lima')).toBe(true);
+    });
+
+    it('counts facets among the rows every other filter lets through', async () => {
+        const facets = await provider.facets(['city', 'score'], query({ city: inOslo, score: highScore }));
+        // The city facet ignores the city filter but not the score one
+        expect(facets.city.values).toEqual(['Berlin', 'Cairo', 'Lima', 'Oslo']);
+        expect(facets.city.counts[facets.city.values.indexOf('Oslo')]).toBe(expected.length);
+        const osloScores = data.filter(row => row.city === 'Oslo').map(row => row.score);
+        expect(facets.score.counts.reduce((total, count) => total + count, 0)).toBe(osloScores.length);
+    });
+
+    it('streams every match in order, in batches', async () => {
+        const batches: DataRow[][] = [];
+        const count = await provider.stream(query({}, [{ column: 'id', direction: 'desc' }]), rows => { batches.push(rows); });
+        expect(count).toBe(data.length);
+        expect(batches.length).toBeGreaterThan(1);
+        expect(batches.flat()).toEqual([...data].reverse());
+    });
+
+    it('stops when aborted, before or during a request', async () => {
+        await expect(provider.page(query(), 0, 10, AbortSignal.abort())).rejects.toMatchObject({ name: 'AbortError' });
+
+        const controller = new AbortController();
+        let received = 0;
+        await expect(provider.stream(query(), rows => {
+            received += rows.length;
+            controller.abort();
+        }, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+        expect(received).toBeGreaterThan(0);
+        expect(received).toBeLessThan(data.length);
+
+        // Still answers afterwards
+        expect((await provider.page(query(), 0, 1)).total).toBe(data.length);
+    });
+
+    it('rejects a query with a filter it does not understand', async () => {
+        const bad = { mode: 'compare', operator: '~', value: '1' } as unknown as ColumnFilter;
+        await expect(provider.page(query({ score: bad }), 0, 10)).rejects.toThrow(badQueryError);
+        await expect(provider.facets(['city'], query({ score: bad }))).rejects.toThrow(badQueryError);
+    });
+});
+
+describe('data server', () => {
+    it('describes its dataset', async () => {
+        expect(await fetchRemoteDataset(baseUrl)).toEqual({ name: 'test.csv', columns, schema, rowCount: data.length });
+    });
+
+    it('answers 400 to malformed requests', async () => {
+        const post = (path: string, body: unknown) =>
+            fetch(new URL(path, baseUrl), { method: 'POST', body: typeof body === 'string' ? body : JSON.stringify(body) });
+
+        expect((await post('page', '{')).status).toBe(400);
+        expect((await post('page', { query: query(), offset: 0, limit: 1e9 })).status).toBe(400);
+        expect((await post('page', { query: { ...query(), sort: [{ column: 'id', direction: 'up' }] }, offset: 0, limit: 1 })).status).toBe(400);
+        const badCondition = { ...createCondition('city', inOslo), filter: { mode: 'values' } };
+        expect((await post('rows', { query: { ...query(), query: { ...createGroup(), children: [badCondition] } } })).status).toBe(400);
+        expect((await post('facets', { query: query(), columns: ['nope'] })).status).toBe(400);
+    });
+});
+
+describe('remote provider against a server that answers something else', () => {
+    let other: Server;
+    let otherUrl = '';
+    // What the server answers on each path
+    let answers: { [path: string]: string } = {};
+
+    beforeAll(async () => {
+        other = createServer((request, response) => {
+            response.end(answers[new URL(request.url ?? '/', 'http://localhost').pathname.slice(1)] ?? '');
+        });
+        await new Promise<void>(resolve => other.listen(0, '127.0.0.1', resolve));
+        otherUrl = `http://127.0.0.1:${(other.address() as AddressInfo).port}/`;
+    });
+
+    afterAll(() => new Promise<void>(resolve => other.close(() => resolve())));
+
+    it('refuses a dataset description that is missing fields or is not JSON', async () => {
+        answers = { dataset: JSON.stringify({ name: 'test.csv', columns, schema: { id: schema.id }, rowCount: 10 }) };
+        await expect(fetchRemoteDataset(otherUrl)).rejects.toThrow("The server's answer is not a dataset description");
+        answers = { dataset: '<html>Not here</html>' };
+        await expect(fetchRemoteDataset(otherUrl)).rejects.toThrow("The server's answer is not a dataset description");
+    });
+
+    it('refuses pages, facets and streamed rows of the wrong shape', async () => {
+        answers = {
+            page: JSON.stringify({ offset: 0, rows: [{ id: 1 }], total: '1' }),
+            facets: JSON.stringify({ city: { values: ['Oslo', 'Lima'], counts: [3] } }),
+            rows: '{"id":1}\n{"id":{"nested":true}}\n'
+        };
+        const provider = createRemoteProvider(otherUrl);
+        await expect(provider.page(query(), 0, 10)).rejects.toThrow("The server's answer is not a page of rows");
+        await expect(provider.facets(['city'], query())).rejects.toThrow("The server's answer is not facets for city");
+        await expect(provider.stream(query(), () => undefined)).rejects.toThrow("The server's answer is not a stream of rows");
+    });
+});
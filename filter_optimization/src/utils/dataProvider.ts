@@ -0,0 +1,204 @@
+import type { Facet, FilterEngine } from './filterEngine';
+import type { FilterGroup } from './filterExpression';
+import type { ColumnFilters } from './filters';
+import { COLUMN_TYPES, type CellValue, type DataRow, type Schema } from './schema';
+import type { SortKey } from './sorting';
+
+// What the UI asks of a dataset: which rows match and in what order, a page of them, and facet counts.
+// The in-memory provider answers from a filter engine; scripts/dataServer.ts runs that same provider behind HTTP,
+// and the remote provider is its client, so both modes share one set of filter semantics.
+
+export interface DataQuery {
+    filters: ColumnFilters;
+    query: FilterGroup;
+    sort: SortKey[];
+}
+
+export interface DataPage {
+    offset: number;
+    rows: DataRow[];
+    // Matching rows in all, not just on this page
+    total: number;
+}
+
+export interface DataProvider {
+    // Rows offset..offset+limit of the matches, in sort order
+    page: (query: DataQuery, offset: number, limit: number, signal?: AbortSignal) => Promise<DataPage>;
+    // Facets of several columns at once: each column's values among rows passing every other filter
+    facets: (columns: string[], query: DataQuery, signal?: AbortSignal) => Promise<{ [column: string]: Facet }>;
+    // Every match in sort order, handed over a batch at a time; a returned promise holds back the next batch.
+    // Resolves with the row count.
+    stream: (query: DataQuery, onRows: (rows: DataRow[]) => void | Promise<void>, signal?: AbortSignal) => Promise<number>;
+}
+
+// What a server says about the dataset it holds
+export interface RemoteDatasetInfo {
+    name: string;
+    columns: string[];
+    schema: Schema;
+    rowCount: number;
+}
+
+// A dataset whose rows stay on a data server; url ends in a slash
+export interface RemoteSource {
+    url: string;
+    rowCount: number;
+}
+
+export const STREAM_BATCH_ROWS = 10000;
+
+const abortIfNeeded = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new DOMException('The request was cancelled', 'AbortError');
+};
+
+export const createMemoryProvider = (engine: FilterEngine, data: DataRow[]): DataProvider => {
+    // Paging through one query should not filter and sort again for every page
+    let last: { key: string; rows: Uint32Array } | null = null;
+    const matches = (query: DataQuery) => {
+        const key = JSON.stringify(query);
+        if (last?.key !== key) {
+            last = { key, rows: engine.sortRows(engine.matchingRows(query.filters, query.query), query.sort) };
+        }
+        return last.rows;
+    };
+
+    return {
+        page: async (query, offset, limit, signal) => {
+            abortIfNeeded(signal);
+            const rows = matches(query);
+            return { offset, rows: Array.from(rows.subarray(offset, offset + limit), row => data[row]), total: rows.length };
+        },
+        facets: async (columns, query, signal) => {
+            abortIfNeeded(signal);
+            const facets: { [column: string]: Facet } = {};
+            columns.forEach(column => { facets[column] = engine.facet(column, query.filters, query.query); });
+            return facets;
+        },
+        stream: async (query, onRows, signal) => {
+            const rows = matches(query);
+            for (let start = 0; start < rows.length; start += STREAM_BATCH_ROWS) {
+                abortIfNeeded(signal);
+                await onRows(Array.from(rows.subarray(start, start + STREAM_BATCH_ROWS), row => data[row]));
+                // Yield between batches so a long stream does not hold up everything else
+                await new Promise(resolve => setTimeout(resolve));
+            }
+            return rows.length;
+        }
+    };
+};
+
+// The server may be another version of the app, or something else entirely at that address,
+// so its answers are checked field by field before anything relies on them
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+
+const isCellValue = (value: unknown): value is CellValue =>
+    value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+const isDataRow = (value: unknown): value is DataRow => isObject(value) && Object.values(value).every(isCellValue);
+
+const isColumnType = (value: unknown) => COLUMN_TYPES.some(type => type === value);
+
+const isDatasetInfo = (value: unknown): value is RemoteDatasetInfo => {
+    if (!isObject(value) || typeof value.name !== 'string' || !isCount(value.rowCount)) return false;
+    const { columns, schema } = value;
+    return Array.isArray(columns) && columns.every(column => typeof column === 'string') && isObject(schema) &&
+        columns.every(column => {
+            const entry = schema[column];
+            return isObject(entry) && entry.name === column && isColumnType(entry.type) && isColumnType(entry.inferredType) &&
+                typeof entry.nullable === 'boolean';
+        });
+};
+
+const isDataPage = (value: unknown): value is DataPage =>
+    isObject(value) && isCount(value.offset) && isCount(value.total) && Array.isArray(value.rows) && value.rows.every(isDataRow);
+
+const isFacet = (value: unknown): value is Facet =>
+    isObject(value) && Array.isArray(value.values) && value.values.every(isCellValue) &&
+    Array.isArray(value.counts) && value.counts.length === value.values.length && value.counts.every(isCount);
+
+const isFacetsOf = (columns: string[]) => (value: unknown): value is { [column: string]: Facet } =>
+    isObject(value) && columns.every(column => isFacet(value[column]));
+
+const readAnswer = async <T>(response: Response, isExpected: (value: unknown) => value is T, expected: string): Promise<T> => {
+    const value: unknown = await response.json().catch((error: unknown) => {
+        if (error instanceof DOMException && error.name === 'AbortError') throw error;
+        return undefined;
+    });
+    if (!isExpected(value)) throw new Error(`The server's answer is not ${expected}`);
+    return value;
+};
+
+const request = async <T>(
+    url: string,
+    body: unknown,
+    isExpected: (value: unknown) => value is T,
+    expected: string,
+    signal?: AbortSignal
+): Promise<T> => {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal
+    });
+    if (!response.ok) throw new Error(`The server answered HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    return readAnswer(response, isExpected, expected);
+};
+
+export const fetchRemoteDataset = async (baseUrl: string, signal?: AbortSignal): Promise<RemoteDatasetInfo> => {
+    const response = await fetch(new URL('dataset', baseUrl).href, { signal });
+    if (!response.ok) throw new Error(`The server answered HTTP ${response.status}`);
+    return readAnswer(response, isDatasetInfo, 'a dataset description (name, columns, schema and rowCount)');
+};
+
+// baseUrl ends in a slash; the endpoints are resolved against it
+export const createRemoteProvider = (baseUrl: string): DataProvider => {
+    const endpoint = (path: string) => new URL(path, baseUrl).href;
+    return {
+        page: (query, offset, limit, signal) =>
+            request(endpoint('page'), { query, offset, limit }, isDataPage, 'a page of rows (offset, rows and total)', signal),
+        facets: (columns, query, signal) =>
+            request(endpoint('facets'), { query, columns }, isFacetsOf(columns), `facets for ${columns.join(', ')}`, signal),
+        // The server streams NDJSON, one row per line
+        stream: async (query, onRows, signal) => {
+            const response = await fetch(endpoint('rows'), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ query }),
+                signal
+            });
+            if (!response.ok || !response.body) throw new Error(`The server answered HTTP ${response.status}`);
+
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffered = '';
+            let count = 0;
+            const emit = async (lines: string[]) => {
+                const rows = lines.filter(line => line.trim()).map(line => {
+                    const row: unknown = JSON.parse(line);
+                    if (!isDataRow(row)) throw new Error("The server's answer is not a stream of rows");
+                    return row;
+                });
+                count += rows.length;
+                if (rows.length > 0) await onRows(rows);
+            };
+            try {
+                for (;;) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    const lines = (buffered + value).split('\n');
+                    buffered = lines.pop() ?? '';
+                    await emit(lines);
+                }
+                await emit([buffered]);
+            } catch (error) {
+                // A consumer that gives up mid-stream closes the connection too
+                await reader.cancel().catch(() => undefined);
+                throw error;
+            }
+            return count;
+        }
+    };
+};
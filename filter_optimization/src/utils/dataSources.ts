@@ -0,0 +1,318 @@
+import type { ParseIssue, ParseMeta } from './csvParser';
+import { createRowTyper, type DataRow, type RetypedColumns, type Schema, type SourceText } from './schema';
+import type { CSVWorkerMessage, CSVWorkerRequest } from '../workers/csvWorker';
+
+// Every way of getting data in sits behind the same adapter: it reports a header, then batches of typed rows
+// (exactly what SET_DATA and APPEND_DATA take), and resolves with a report once the source is exhausted.
+// A source reads from the start each time load() is called, so refreshing is just loading again.
+
+export type UrlFormat = 'csv' | 'json' | 'ndjson';
+
+export type DataSourceConfig =
+    | { kind: 'csv-file'; file: File; encoding: string }
+    | { kind: 'url'; url: string; format: UrlFormat }
+    | { kind: 'rest'; url: string; pageSize: number };
+
+export type DataSourceKind = DataSourceConfig['kind'];
+
+export const DATA_SOURCE_LABELS: Record<DataSourceKind, string> = {
+    'csv-file': 'CSV file',
+    url: 'File from a URL',
+    rest: 'Paginated REST endpoint'
+};
+
+export const URL_FORMAT_LABELS: Record<UrlFormat, string> = {
+    csv: 'CSV',
+    json: 'JSON (array of objects)',
+    ndjson: 'NDJSON (one object per line)'
+};
+
+export interface RowBatch {
+    rows: DataRow[];
+    schema: Schema;
+    // Columns whose type widened since the previous batch, with new values for the rows already delivered
+    retypedColumns: RetypedColumns;
+    // These rows' source text for the columns whose type could still change, kept for type overrides
+    sourceText: SourceText;
+}
+
+export interface DataSourceSink {
+    // Called once, before any rows
+    header: (columns: string[], schema: Schema) => void;
+    rows: (batch: RowBatch) => void;
+    // total is 0 when the size is not known up front
+    progress: (progress: { loadedBytes: number; totalBytes: number; rowCount: number }) => void;
+}
+
+export interface DataSourceReport {
+    // Only CSV sources have a delimiter and encoding to report
+    meta: ParseMeta | null;
+    warnings: ParseIssue[];
+    errors: ParseIssue[];
+}
+
+export interface DataSource {
+    name: string;
+    load: (sink: DataSourceSink, signal: AbortSignal) => Promise<DataSourceReport>;
+}
+
+const abortError = () => new DOMException('Loading was cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// The CSV parse runs in the worker and streams rows back batch by batch
+const createCSVFileSource = (file: File, encoding: string): DataSource => ({
+    name: file.name,
+    load: (sink, signal) => new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(abortError());
+            return;
+        }
+        const worker = new Worker(new URL('../workers/csvWorker.ts', import.meta.url), { type: 'module' });
+        const settle = (finish: () => void) => {
+            worker.terminate();
+            signal.removeEventListener('abort', abort);
+            finish();
+        };
+        const abort = () => settle(() => reject(abortError()));
+        signal.addEventListener('abort', abort);
+
+        worker.onmessage = (e: MessageEvent<CSVWorkerMessage>) => {
+            const message = e.data;
+            switch (message.type) {
+                case 'header':
+                    sink.header(message.columns, message.schema);
+                    break;
+                case 'rows':
+                    sink.rows({ rows: message.rows, schema: message.schema, retypedColumns: message.retypedColumns, sourceText: message.sourceText });
+                    break;
+                case 'progress':
+                    sink.progress({ loadedBytes: message.loadedBytes, totalBytes: file.size, rowCount: message.rowCount });
+                    break;
+                case 'done':
+                    settle(() => resolve({ meta: message.meta, warnings: message.warnings, errors: message.errors }));
+                    break;
+                case 'error':
+                    settle(() => reject(new Error(message.message)));
+                    break;
+            }
+        };
+        worker.onerror = (e) => settle(() => reject(new Error(e.message)));
+
+        const request: CSVWorkerRequest = { file, options: { encoding } };
+        worker.postMessage(request);
+    })
+});
+
+// Reads the whole body, reporting bytes as they arrive
+const fetchBody = async (url: string, signal: AbortSignal, onBytes: (loadedBytes: number, totalBytes: number) => void) => {
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw new Error(`${url} answered HTTP ${response.status} ${response.statusText}`.trim());
+    const totalBytes = Number(response.headers.get('Content-Length')) || 0;
+    if (!response.body) return response.blob();
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loadedBytes = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        loadedBytes += value.length;
+        onBytes(loadedBytes, totalBytes);
+    }
+    return new Blob(chunks);
+};
+
+type JsonRecord = { [field: string]: unknown };
+
+const isRecord = (value: unknown): value is JsonRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// JSON values go through the same text-based inference as CSV cells; nested values stay as JSON text
+const cellText = (value: unknown) => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+// Turns batches of JSON records into typed row batches. The columns are the fields of the first batch,
+// in the order they first appear; fields that only show up later are reported and left out.
+const createRecordIngest = (sink: DataSourceSink) => {
+    let columns: string[] | null = null;
+    let typer: ReturnType<typeof createRowTyper> | null = null;
+    let rowCount = 0;
+    const warnings: ParseIssue[] = [];
+    const ignored = new Set<string>();
+
+    const add = (records: JsonRecord[]) => {
+        if (records.length === 0) return;
+        if (!columns || !typer) {
+            const fields = new Set<string>();
+            records.forEach(record => Object.keys(record).forEach(field => fields.add(field)));
+            columns = [...fields];
+            typer = createRowTyper(columns);
+            sink.header(columns, typer.schema());
+        }
+
+        const known = columns;
+        const rows = records.map((record, index) => {
+            Object.keys(record).forEach(field => {
+                if (known.includes(field) || ignored.has(field)) return;
+                ignored.add(field);
+                const row = rowCount + index + 1;
+                warnings.push({ code: 'TooManyFields', message: `Field "${field}" first appears in record ${row} and was left out`, row });
+            });
+            return known.map(column => cellText(record[column]));
+        });
+        sink.rows(typer.add(rows));
+        rowCount += rows.length;
+    };
+
+    const finish = (): DataSourceReport => {
+        if (!columns) throw new Error('The source did not return any records');
+        return { meta: null, warnings, errors: [] };
+    };
+
+    return { add, finish, rowCount: () => rowCount };
+};
+
+// A JSON document is either the array of records itself or an object wrapping it
+const RECORD_LIST_FIELDS = ['data', 'items', 'results', 'records', 'rows'];
+
+const recordList = (body: unknown): unknown[] | null => {
+    if (Array.isArray(body)) return body;
+    if (!isRecord(body)) return null;
+    const field = RECORD_LIST_FIELDS.find(name => Array.isArray(body[name]));
+    return field ? body[field] as unknown[] : null;
+};
+
+// Anything in the list that is not an object is skipped with a warning
+const toRecords = (list: unknown[], firstRow: number, warnings: ParseIssue[]) => {
+    const records: JsonRecord[] = [];
+    list.forEach((item, index) => {
+        if (isRecord(item)) {
+            records.push(item);
+        } else {
+            warnings.push({ code: 'InvalidRecord', message: `Record ${firstRow + index} is not an object and was skipped`, row: firstRow + index });
+        }
+    });
+    return records;
+};
+
+const parseJSONText = (text: string) => {
+    try {
+        return JSON.parse(text) as unknown;
+    } catch (error) {
+        throw new Error(`The response is not valid JSON: ${(error as Error).message}`);
+    }
+};
+
+const urlName = (url: string) => {
+    try {
+        const { hostname, pathname } = new URL(url, location.href);
+        return pathname.split('/').filter(Boolean).pop() ?? hostname;
+    } catch {
+        return url;
+    }
+};
+
+const createURLSource = (url: string, format: UrlFormat): DataSource => {
+    const name = urlName(url);
+    return {
+        name,
+        load: async (sink, signal) => {
+            const body = await fetchBody(url, signal, (loadedBytes, totalBytes) => sink.progress({ loadedBytes, totalBytes, rowCount: 0 }));
+            // Downloaded CSV goes through the same streaming parse and encoding detection as an uploaded file
+            if (format === 'csv') return createCSVFileSource(new File([body], name), 'auto').load(sink, signal);
+
+            const text = await body.text();
+            const ingest = createRecordIngest(sink);
+            const warnings: ParseIssue[] = [];
+            if (format === 'json') {
+                const list = recordList(parseJSONText(text));
+                if (!list) throw new Error(`Expected an array of records, or an object with one of ${RECORD_LIST_FIELDS.join(', ')}`);
+                ingest.add(toRecords(list, 1, warnings));
+            } else {
+                const records: JsonRecord[] = [];
+                text.split(/\r?\n/).forEach((line, index) => {
+                    if (!line.trim()) return;
+                    try {
+                        records.push(...toRecords([JSON.parse(line)], index + 1, warnings));
+                    } catch {
+                        warnings.push({ code: 'InvalidRecord', message: `Line ${index + 1} is not valid JSON and was skipped`, row: index + 1 });
+                    }
+                });
+                ingest.add(records);
+            }
+            const report = ingest.finish();
+            return { ...report, warnings: [...warnings, ...report.warnings] };
+        }
+    };
+};
+
+// Pages are requested as ?page=1&pageSize=N, counting from 1. A page body is a bare array or a wrapper object;
+// a wrapper may name the next page's URL in "next" (null on the last page) and the record count in "total".
+// Without a "next" field the last page is the first one shorter than the page size.
+const MAX_PAGES = 10000;
+
+const pageURL = (url: string, page: number, pageSize: number) => {
+    const target = new URL(url, location.href);
+    target.searchParams.set('page', String(page));
+    target.searchParams.set('pageSize', String(pageSize));
+    return target.href;
+};
+
+const createRESTSource = (url: string, pageSize: number): DataSource => ({
+    name: urlName(url),
+    load: async (sink, signal) => {
+        const ingest = createRecordIngest(sink);
+        const warnings: ParseIssue[] = [];
+        let loadedBytes = 0;
+        let next: string | null = pageURL(url, 1, pageSize);
+        let previousFirst: string | null = null;
+
+        for (let page = 1; next; page++) {
+            if (page > MAX_PAGES) throw new Error(`Stopped after ${MAX_PAGES} pages`);
+            const pageStart = loadedBytes;
+            const body = parseJSONText(await (await fetchBody(next, signal, bytes => {
+                loadedBytes = pageStart + bytes;
+            })).text());
+            const list = recordList(body);
+            if (!list) throw new Error(`Page ${page} is not an array of records, nor an object with one of ${RECORD_LIST_FIELDS.join(', ')}`);
+
+            // A server that ignores the paging parameters sends the same page forever
+            const first = list.length > 0 ? JSON.stringify(list[0]) : null;
+            if (first !== null && first === previousFirst) {
+                warnings.push({ code: 'RepeatedPage', message: `Page ${page} repeats the previous page; the endpoint seems to ignore paging, so loading stopped there` });
+                break;
+            }
+            previousFirst = first;
+            ingest.add(toRecords(list, ingest.rowCount() + 1, warnings));
+
+            // With a record total to go by, progress counts records instead of bytes
+            const total = isRecord(body) && typeof body.total === 'number' ? body.total : 0;
+            sink.progress({ loadedBytes: total ? ingest.rowCount() : loadedBytes, totalBytes: total, rowCount: ingest.rowCount() });
+
+            if (isRecord(body) && 'next' in body) {
+                next = typeof body.next === 'string' && body.next ? new URL(body.next, next).href : null;
+            } else {
+                next = list.length < pageSize ? null : pageURL(url, page + 1, pageSize);
+            }
+        }
+
+        const report = ingest.finish();
+        return { ...report, warnings: [...warnings, ...report.warnings] };
+    }
+});
+
+export const createDataSource = (config: DataSourceConfig): DataSource => {
+    switch (config.kind) {
+        case 'csv-file':
+            return createCSVFileSource(config.file, config.encoding);
+        case 'url':
+            return createURLSource(config.url, config.format);
+        case 'rest':
+            return createRESTSource(config.url, config.pageSize);
+    }
+};
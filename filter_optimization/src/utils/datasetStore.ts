@@ -0,0 +1,122 @@
+import type { RemoteSource } from './dataProvider';
+import type { DataSourceConfig } from './dataSources';
+import type { ComputedColumn } from './formula';
+import type { DataRow, Schema } from './schema';
+import type { ViewState } from './viewState';
+
+// Loaded datasets are kept in IndexedDB so a reload does not mean uploading the same file again.
+// The library store holds what the dataset list shows; rows have a store of their own and are only read on open.
+
+const DB_NAME = 'filter_optimization';
+const DB_VERSION = 1;
+const LIBRARY_STORE = 'library';
+const ROWS_STORE = 'rows';
+const LAST_DATASET_KEY = 'filter_optimization.lastDataset';
+
+export interface StoredDatasetInfo {
+    id: string;
+    name: string;
+    columns: string[];
+    schema: Schema;
+    computedColumns: ComputedColumn[];
+    view: ViewState | null;
+    // Where the rows came from, so they can be refreshed; uploaded files are stored along with it
+    source: DataSourceConfig | null;
+    // Set for a dataset on a data server, which is reconnected on open; its stored rows are empty
+    server: RemoteSource | null;
+    rowCount: number;
+    savedAt: string;
+}
+
+export interface StoredDataset extends StoredDatasetInfo {
+    data: DataRow[];
+}
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    // Running out of quota aborts the transaction rather than failing a request
+    transaction.onabort = () => reject(transaction.error ?? new Error('The transaction was aborted'));
+});
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+    if (!database) {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(LIBRARY_STORE, { keyPath: 'id' });
+            request.result.createObjectStore(ROWS_STORE);
+        };
+        database = requestResult(request);
+        // A failed open is tried again next time instead of failing for good
+        database.catch(() => { database = null; });
+    }
+    return database;
+};
+
+// Most recently saved first
+export const listStoredDatasets = async (): Promise<StoredDatasetInfo[]> => {
+    const db = await openDatabase();
+    const entries = await requestResult(db.transaction(LIBRARY_STORE).objectStore(LIBRARY_STORE).getAll());
+    return (entries as StoredDatasetInfo[]).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const loadStoredDataset = async (id: string): Promise<StoredDataset | null> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([LIBRARY_STORE, ROWS_STORE]);
+    const [info, data] = await Promise.all([
+        requestResult(transaction.objectStore(LIBRARY_STORE).get(id)) as Promise<StoredDatasetInfo | undefined>,
+        requestResult(transaction.objectStore(ROWS_STORE).get(id)) as Promise<DataRow[] | undefined>
+    ]);
+    return info && data ? { ...info, data } : null;
+};
+
+// Rows are rewritten only when they are passed, so a rename or a remembered view stays cheap
+export const saveStoredDataset = async (info: StoredDatasetInfo, data?: DataRow[]) => {
+    const db = await openDatabase();
+    const transaction = db.transaction([LIBRARY_STORE, ROWS_STORE], 'readwrite');
+    transaction.objectStore(LIBRARY_STORE).put(info);
+    if (data) transaction.objectStore(ROWS_STORE).put(data, info.id);
+    await transactionDone(transaction);
+};
+
+export const renameStoredDataset = async (id: string, name: string) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(LIBRARY_STORE, 'readwrite');
+    const store = transaction.objectStore(LIBRARY_STORE);
+    const info = await requestResult(store.get(id)) as StoredDatasetInfo | undefined;
+    if (info) store.put({ ...info, name });
+    await transactionDone(transaction);
+};
+
+export const deleteStoredDataset = async (id: string) => {
+    const db = await openDatabase();
+    const transaction = db.transaction([LIBRARY_STORE, ROWS_STORE], 'readwrite');
+    transaction.objectStore(LIBRARY_STORE).delete(id);
+    transaction.objectStore(ROWS_STORE).delete(id);
+    await transactionDone(transaction);
+};
+
+// The dataset to reopen on the next start. Storage can be unavailable, as in some private windows;
+// then nothing is reopened and the app starts as on a first visit.
+export const loadLastDatasetId = () => {
+    try {
+        return localStorage.getItem(LAST_DATASET_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const storeLastDatasetId = (id: string) => {
+    try {
+        localStorage.setItem(LAST_DATASET_KEY, id);
+    } catch {
+        // Not remembering is fine, the dataset stays open
+    }
+};
@@ -0,0 +1,172 @@
+import * as Papa from 'papaparse';
+import { formatValue, type CellValue, type Schema } from './schema';
+import { createZip } from './zip';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+    csv: 'CSV',
+    json: 'JSON',
+    xlsx: 'Excel (XLSX)'
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv',
+    json: 'application/json',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// One sheet holds 1,048,576 rows, one of which is the header
+export const XLSX_MAX_ROWS = 1048575;
+
+// Rows arrive in batches as arrays of cells in column order; finish() assembles the file
+export interface ExportWriter {
+    write: (rows: CellValue[][]) => void;
+    finish: () => Promise<Blob>;
+}
+
+const createCSVWriter = (columns: string[], schema: Schema): ExportWriter => {
+    const types = columns.map(column => schema[column]?.type ?? 'string');
+    const unparse = (rows: string[][]) => Papa.unparse(rows, { newline: '\r\n' }) + '\r\n';
+    const parts: string[] = [unparse([columns])];
+    return {
+        write: rows => {
+            if (rows.length === 0) return;
+            parts.push(unparse(rows.map(row => row.map((value, index) => formatValue(value, types[index])))));
+        },
+        finish: async () => new Blob(parts, { type: MIME_TYPES.csv })
+    };
+};
+
+// Dates become their display text, everything else keeps its JSON type
+const createJSONWriter = (columns: string[], schema: Schema): ExportWriter => {
+    const types = columns.map(column => schema[column]?.type ?? 'string');
+    const parts: string[] = ['['];
+    let first = true;
+    return {
+        write: rows => {
+            const lines = rows.map(row => {
+                const record: { [column: string]: CellValue } = {};
+                row.forEach((value, index) => {
+                    record[columns[index]] = types[index] === 'date' && value !== null ? formatValue(value, 'date') : value;
+                });
+                return JSON.stringify(record);
+            });
+            if (lines.length === 0) return;
+            parts.push((first ? '\n' : ',\n') + lines.join(',\n'));
+            first = false;
+        },
+        finish: async () => new Blob([...parts, first ? ']' : '\n]\n'], { type: MIME_TYPES.json })
+    };
+};
+
+const XML_ENTITIES: { [char: string]: string } = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' };
+// Characters XML 1.0 cannot carry at all
+const INVALID_XML = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+// Excel refuses longer cell text
+const MAX_CELL_TEXT = 32767;
+
+const xmlText = (text: string) =>
+    text.replace(INVALID_XML, '').slice(0, MAX_CELL_TEXT).replace(/[&<>"]/g, char => XML_ENTITIES[char]);
+
+const MS_PER_DAY = 86400000;
+// Days between Excel's epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET = 25569;
+
+const XLSX_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const XLSX_FILES: { [name: string]: string } = {
+    '[Content_Types].xml': `${XLSX_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + '</Types>',
+    '_rels/.rels': `${XLSX_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>',
+    'xl/workbook.xml': `${XLSX_HEAD}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`
+        + '<sheets><sheet name="Data" sheetId="1" r:id="rId1"/></sheets>'
+        + '</workbook>',
+    'xl/_rels/workbook.xml.rels': `${XLSX_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+        + '</Relationships>',
+    // Style 1 is a plain date, style 2 a date with time, style 3 the bold header
+    'xl/styles.xml': `${XLSX_HEAD}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+        + '<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>'
+        + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+        + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+        + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+        + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+        + '<cellXfs count="4">'
+        + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+        + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+        + '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+        + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+        + '</cellXfs>'
+        + '</styleSheet>'
+};
+
+const textCell = (text: string, style = 0) =>
+    `<c t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${xmlText(text)}</t></is></c>`;
+
+// Numbers, booleans and dates are written as real cell values so Excel can compute with them
+const createXLSXWriter = (columns: string[], schema: Schema): ExportWriter => {
+    const types = columns.map(column => schema[column]?.type ?? 'string');
+    const parts: string[] = [
+        `${XLSX_HEAD}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>`,
+        `<row r="1">${columns.map(column => textCell(column, 3)).join('')}</row>`
+    ];
+    let rowNumber = 1;
+
+    const cell = (value: CellValue, index: number) => {
+        if (value === null) return '<c/>';
+        if (typeof value === 'boolean') return `<c t="b"><v>${value ? 1 : 0}</v></c>`;
+        if (typeof value === 'number') {
+            if (!Number.isFinite(value)) return textCell(String(value));
+            if (types[index] !== 'date') return `<c><v>${value}</v></c>`;
+            const style = value % MS_PER_DAY === 0 ? 1 : 2;
+            return `<c s="${style}"><v>${value / MS_PER_DAY + EXCEL_EPOCH_OFFSET}</v></c>`;
+        }
+        return textCell(value);
+    };
+
+    return {
+        write: rows => {
+            if (rowNumber + rows.length > XLSX_MAX_ROWS + 1) {
+                throw new Error(`Excel sheets hold at most ${XLSX_MAX_ROWS} data rows`);
+            }
+            parts.push(rows.map(row => `<row r="${++rowNumber}">${row.map(cell).join('')}</row>`).join(''));
+        },
+        finish: async () => {
+            parts.push('</sheetData></worksheet>');
+            const entries = Object.entries(XLSX_FILES).map(([name, xml]) => ({ name, data: new Blob([xml]) }));
+            entries.push({ name: 'xl/worksheets/sheet1.xml', data: new Blob(parts) });
+            const zip = await createZip(entries);
+            return new Blob([zip], { type: MIME_TYPES.xlsx });
+        }
+    };
+};
+
+export const createExportWriter = (format: ExportFormat, columns: string[], schema: Schema): ExportWriter => {
+    switch (format) {
+        case 'csv':
+            return createCSVWriter(columns, schema);
+        case 'json':
+            return createJSONWriter(columns, schema);
+        case 'xlsx':
+            return createXLSXWriter(columns, schema);
+    }
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoking in the same tick can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url));
+};
@@ -0,0 +1,282 @@
+import type { FilterExpression } from './filterExpression';
+import { createPredicate, type ColumnFilter, type ColumnFilters } from './filters';
+import { compareValues, type CellValue, type DataRow, type Schema } from './schema';
+import type { SortKey } from './sorting';
+
+export interface Facet {
+    // Distinct values in sorted order, with how many matching rows hold each one
+    values: CellValue[];
+    counts: number[];
+}
+
+export interface FilterEngine {
+    rowCount: number;
+    matchingRows: (filters: ColumnFilters, query?: FilterExpression) => Uint32Array;
+    facet: (column: string, filters: ColumnFilters, query?: FilterExpression) => Facet;
+    sortRows: (rows: Uint32Array, sort: SortKey[]) => Uint32Array;
+}
+
+// Dictionary-encoded column with an inverted index from value to the rows holding it
+interface ColumnIndex {
+    values: CellValue[];
+    ids: Map<CellValue, number>;
+    codes: Uint32Array;
+    postings: Uint32Array[];
+    sortedIds: number[];
+    // Position of each row's value in sorted order, built on first sort
+    ranks?: Uint32Array;
+}
+
+type Bitset = Uint32Array;
+
+const wordCount = (size: number) => (size + 31) >>> 5;
+
+const popcount = (bits: Bitset) => {
+    let total = 0;
+    for (let i = 0; i < bits.length; i++) {
+        let word = bits[i] - ((bits[i] >>> 1) & 0x55555555);
+        word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+        total += Math.imul((word + (word >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+    }
+    return total;
+};
+
+const forEachSetBit = (bits: Bitset, callback: (row: number) => void) => {
+    for (let i = 0; i < bits.length; i++) {
+        let word = bits[i];
+        while (word !== 0) {
+            const lowest = word & -word;
+            callback((i << 5) + 31 - Math.clz32(lowest));
+            word ^= lowest;
+        }
+    }
+};
+
+const intersect = (sets: Bitset[], words: number): Bitset => {
+    const result = sets[0].slice();
+    for (let s = 1; s < sets.length; s++) {
+        const other = sets[s];
+        for (let i = 0; i < words; i++) result[i] &= other[i];
+    }
+    return result;
+};
+
+const union = (sets: Bitset[], words: number): Bitset => {
+    const result = sets[0].slice();
+    for (let s = 1; s < sets.length; s++) {
+        const other = sets[s];
+        for (let i = 0; i < words; i++) result[i] |= other[i];
+    }
+    return result;
+};
+
+// Bits past the last row stay clear so popcount and iteration never see phantom rows
+const complement = (bits: Bitset, size: number): Bitset => {
+    const result = bits.map(word => ~word);
+    if (size % 32 !== 0) result[result.length - 1] &= (1 << (size % 32)) - 1;
+    return result;
+};
+
+const buildColumnIndex = (data: DataRow[], column: string): ColumnIndex => {
+    const ids = new Map<CellValue, number>();
+    const values: CellValue[] = [];
+    const counts: number[] = [];
+    const codes = new Uint32Array(data.length);
+
+    for (let row = 0; row < data.length; row++) {
+        const value = data[row][column] ?? null;
+        let id = ids.get(value);
+        if (id === undefined) {
+            id = values.length;
+            ids.set(value, id);
+            values.push(value);
+            counts.push(0);
+        }
+        codes[row] = id;
+        counts[id]++;
+    }
+
+    // Counting sort lays every value's rows out contiguously in one buffer
+    const offsets = new Uint32Array(values.length + 1);
+    counts.forEach((count, id) => { offsets[id + 1] = offsets[id] + count; });
+    const cursor = offsets.slice(0, values.length);
+    const rows = new Uint32Array(data.length);
+    for (let row = 0; row < data.length; row++) {
+        rows[cursor[codes[row]]++] = row;
+    }
+    const postings = values.map((_, id) => rows.subarray(offsets[id], offsets[id + 1]));
+
+    const sortedIds = values.map((_, id) => id).sort((a, b) => compareValues(values[a], values[b]));
+
+    return { values, ids, codes, postings, sortedIds };
+};
+
+export const createFilterEngine = (data: DataRow[], columns: string[], schema: Schema): FilterEngine => {
+    const rowCount = data.length;
+    const words = wordCount(rowCount);
+    const indexes = new Map<string, ColumnIndex>();
+    // Bitsets are cached per filter object and per expression node; the reducer replaces
+    // only what changed, so unchanged filters and subtrees are never recomputed
+    const selectionCache = new WeakMap<ColumnFilter, Bitset | null>();
+    const expressionCache = new WeakMap<FilterExpression, Bitset | null>();
+    let facetCache: { filters: ColumnFilters; query?: FilterExpression; facets: Map<string, Facet> } | null = null;
+    let allRows: Uint32Array | null = null;
+
+    // Columns are indexed the first time they are filtered or faceted
+    const indexFor = (column: string) => {
+        let index = indexes.get(column);
+        if (!index) {
+            index = buildColumnIndex(data, column);
+            indexes.set(column, index);
+        }
+        return index;
+    };
+
+    // Predicates run once per distinct value, then the postings of the values that pass are merged.
+    // Null means the filter does not restrict anything.
+    const selectionBits = (column: string, filter: ColumnFilter) => {
+        const cached = selectionCache.get(filter);
+        if (cached !== undefined) return cached;
+
+        const predicate = createPredicate(filter, schema[column]?.type ?? 'string');
+        let bits: Bitset | null = null;
+        if (predicate) {
+            const index = indexFor(column);
+            bits = new Uint32Array(words);
+            for (let id = 0; id < index.values.length; id++) {
+                if (!predicate(index.values[id])) continue;
+                const rows = index.postings[id];
+                for (let i = 0; i < rows.length; i++) {
+                    bits[rows[i] >>> 5] |= 1 << (rows[i] & 31);
+                }
+            }
+        }
+        selectionCache.set(filter, bits);
+        return bits;
+    };
+
+    // Conditions that do not restrict anything drop out of their group; null means "all rows"
+    const expressionBits = (node: FilterExpression): Bitset | null => {
+        const cached = expressionCache.get(node);
+        if (cached !== undefined) return cached;
+
+        let bits: Bitset | null;
+        if (node.kind === 'condition') {
+            bits = columns.includes(node.column) ? selectionBits(node.column, node.filter) : null;
+        } else {
+            const children = node.children.map(expressionBits);
+            const active = children.filter((child): child is Bitset => child !== null);
+            if (active.length === 0) {
+                bits = null;
+            } else if (node.operator === 'and') {
+                bits = intersect(active, words);
+            } else {
+                // An unrestricted branch of an OR lets every row through
+                bits = active.length < children.length ? null : union(active, words);
+            }
+        }
+        if (bits && node.negated) bits = complement(bits, rowCount);
+
+        expressionCache.set(node, bits);
+        return bits;
+    };
+
+    // Intersection of every active column filter and the query, or null when nothing restricts the rows
+    const maskFor = (filters: ColumnFilters, query?: FilterExpression, exclude?: string): Bitset | null => {
+        const active: Bitset[] = [];
+        columns.forEach(column => {
+            if (column === exclude || !filters[column]) return;
+            const bits = selectionBits(column, filters[column]);
+            if (bits) active.push(bits);
+        });
+        const queryBits = query ? expressionBits(query) : null;
+        if (queryBits) active.push(queryBits);
+        return active.length === 0 ? null : intersect(active, words);
+    };
+
+    const matchingRows = (filters: ColumnFilters, query?: FilterExpression) => {
+        const mask = maskFor(filters, query);
+        if (!mask) {
+            if (!allRows) allRows = Uint32Array.from({ length: rowCount }, (_, row) => row);
+            return allRows;
+        }
+        const rows = new Uint32Array(popcount(mask));
+        let next = 0;
+        forEachSetBit(mask, row => { rows[next++] = row; });
+        return rows;
+    };
+
+    // The column's own panel filter is left out so its other values stay pickable; the query still applies
+    const computeFacet = (column: string, filters: ColumnFilters, query?: FilterExpression): Facet => {
+        const index = indexFor(column);
+        const mask = maskFor(filters, query, column);
+        let counts: Uint32Array;
+        if (mask) {
+            counts = new Uint32Array(index.values.length);
+            forEachSetBit(mask, row => { counts[index.codes[row]]++; });
+        } else {
+            counts = Uint32Array.from(index.postings, rows => rows.length);
+        }
+
+        const values: CellValue[] = [];
+        const facetCounts: number[] = [];
+        index.sortedIds.forEach(id => {
+            if (counts[id] === 0) return;
+            values.push(index.values[id]);
+            facetCounts.push(counts[id]);
+        });
+        return { values, counts: facetCounts };
+    };
+
+    // Facets are memoised per filters object and query, so re-renders with unchanged filters cost nothing
+    const facet = (column: string, filters: ColumnFilters, query?: FilterExpression) => {
+        if (!facetCache || facetCache.filters !== filters || facetCache.query !== query) {
+            facetCache = { filters, query, facets: new Map() };
+        }
+        let result = facetCache.facets.get(column);
+        if (!result) {
+            result = computeFacet(column, filters, query);
+            facetCache.facets.set(column, result);
+        }
+        return result;
+    };
+
+    const ranksFor = (column: string) => {
+        const index = indexFor(column);
+        if (!index.ranks) {
+            const rankOfId = new Uint32Array(index.values.length);
+            index.sortedIds.forEach((id, rank) => { rankOfId[id] = rank; });
+            index.ranks = index.codes.map(code => rankOfId[code]);
+        }
+        return index.ranks;
+    };
+
+    // Compares precomputed ranks instead of cell values; ties fall back to row order so the sort is stable.
+    // Empty cells stay last in both directions.
+    const sortRows = (rows: Uint32Array, sort: SortKey[]) => {
+        const keys = sort.filter(key => columns.includes(key.column)).map(key => {
+            const index = indexFor(key.column);
+            const nullId = index.ids.get(null);
+            return {
+                ranks: ranksFor(key.column),
+                nullRank: nullId === undefined ? -1 : index.sortedIds.indexOf(nullId),
+                sign: key.direction === 'asc' ? 1 : -1
+            };
+        });
+        if (keys.length === 0) return rows;
+
+        return rows.slice().sort((a, b) => {
+            for (const { ranks, nullRank, sign } of keys) {
+                const rankA = ranks[a];
+                const rankB = ranks[b];
+                if (rankA === rankB) continue;
+                if (rankA === nullRank) return 1;
+                if (rankB === nullRank) return -1;
+                return (rankA - rankB) * sign;
+            }
+            return a - b;
+        });
+    };
+
+    return { rowCount, matchingRows, facet, sortRows };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createCondition, createGroup, formatQuery, parseQuery } from './filterExpression';
+import { emptyFilter, type FilterMode } from './filters';
+import type { Schema } from './schema';
+
+const schema: Schema = {
+    n: { name: 'n', type: 'integer', inferredType: 'integer', nullable: true },
+    city: { name: 'city', type: 'string', inferredType: 'string', nullable: true }
+};
+
+const MODES: FilterMode[] = ['values', 'range', 'compare', 'text', 'empty'];
+
+describe('formatQuery', () => {
+    it.each(MODES)('leaves out a %s condition that filters nothing yet, so the text parses back', mode => {
+        ['n', 'city'].forEach(column => {
+            const alone = formatQuery(createGroup('and', [createCondition(column, emptyFilter(mode))]), schema);
+            expect(alone).toBe('');
+            expect(parseQuery(alone, schema)).toMatchObject({ expression: { kind: 'group', children: [] }, error: null });
+
+            const root = createGroup('and', [
+                createCondition(column, emptyFilter(mode), true),
+                createCondition('n', { mode: 'compare', operator: '>', value: '3' })
+            ]);
+            const text = formatQuery(root, schema);
+            expect(text).toBe('n > 3');
+            const parsed = parseQuery(text, schema);
+            expect(parsed.error).toBeNull();
+            expect(formatQuery(parsed.expression!, schema)).toBe(text);
+        });
+    });
+
+    it('leaves out a comparison whose value the column cannot hold', () => {
+        const root = createGroup('or', [createCondition('n', { mode: 'compare', operator: '=', value: 'abc' })]);
+        expect(formatQuery(root, schema)).toBe('');
+    });
+});
@@ -0,0 +1,335 @@
+import { createPredicate, type ColumnFilter, type CompareOperator, type TextOperator } from './filters';
+import { coerceValue, formatValue, type CellValue, type ColumnType, type Schema } from './schema';
+
+export type GroupOperator = 'and' | 'or';
+
+export type FilterExpression =
+    | { kind: 'group'; id: string; operator: GroupOperator; negated: boolean; children: FilterExpression[] }
+    | { kind: 'condition'; id: string; column: string; filter: ColumnFilter; negated: boolean };
+
+export type FilterGroup = Extract<FilterExpression, { kind: 'group' }>;
+export type FilterCondition = Extract<FilterExpression, { kind: 'condition' }>;
+
+export interface QueryParseResult {
+    expression: FilterGroup | null;
+    error: { message: string; position: number } | null;
+}
+
+let nextId = 0;
+const newId = () => `node-${++nextId}`;
+
+export const createGroup = (operator: GroupOperator = 'and', children: FilterExpression[] = [], negated = false): FilterGroup =>
+    ({ kind: 'group', id: newId(), operator, negated, children });
+
+export const createCondition = (column: string, filter: ColumnFilter, negated = false): FilterCondition =>
+    ({ kind: 'condition', id: newId(), column, filter, negated });
+
+// Tree edits return new objects along the changed path only, so untouched subtrees keep their cached results
+
+export const removeNode = (node: FilterGroup, id: string): FilterGroup => {
+    const children = node.children
+        .filter(child => child.id !== id)
+        .map(child => child.kind === 'group' ? removeNode(child, id) : child);
+    return children.length === node.children.length && children.every((child, index) => child === node.children[index])
+        ? node
+        : { ...node, children };
+};
+
+export const removeColumnConditions = (node: FilterGroup, column: string): FilterGroup => {
+    const children = node.children
+        .filter(child => child.kind === 'group' || child.column !== column)
+        .map(child => child.kind === 'group' ? removeColumnConditions(child, column) : child);
+    return children.length === node.children.length && children.every((child, index) => child === node.children[index])
+        ? node
+        : { ...node, children };
+};
+
+export const countConditions = (node: FilterExpression): number =>
+    node.kind === 'condition' ? 1 : node.children.reduce((total, child) => total + countConditions(child), 0);
+
+// ---- Text syntax ----
+//
+//   query      := or
+//   or         := and ( OR and )*
+//   and        := unary ( AND unary )*
+//   unary      := NOT unary | '(' or ')' | condition
+//   condition  := column ( op value | IN '(' value, ... ')' | BETWEEN value AND value
+//                        | IS [NOT] EMPTY | CONTAINS/STARTSWITH/ENDSWITH/MATCHES value [MATCHCASE] )
+//
+// e.g. `mod3 = 0 OR mod5 = 0`, `NOT (mod4 IN (1, 2))`, `name contains 'ab' AND price BETWEEN 10 AND 20`.
+// Columns with spaces or symbols go in backticks, strings in single or double quotes.
+
+type TokenType = 'word' | 'string' | 'column' | 'operator' | 'lparen' | 'rparen' | 'comma';
+
+interface Token {
+    type: TokenType;
+    text: string;
+    position: number;
+}
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'in', 'between', 'is', 'empty', 'contains', 'startswith', 'endswith', 'matches', 'matchcase', 'null']);
+
+const TEXT_KEYWORDS: { [keyword: string]: TextOperator } = {
+    contains: 'contains',
+    startswith: 'startsWith',
+    endswith: 'endsWith',
+    matches: 'regex'
+};
+
+const TEXT_OPERATOR_KEYWORDS: Record<TextOperator, string> = {
+    contains: 'CONTAINS',
+    startsWith: 'STARTSWITH',
+    endsWith: 'ENDSWITH',
+    regex: 'MATCHES'
+};
+
+const syntaxError = (message: string, position: number) => Object.assign(new Error(message), { position });
+
+const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '(' || char === ')' || char === ',') {
+            tokens.push({ type: char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'comma', text: char, position: i });
+            i++;
+        } else if (char === "'" || char === '"' || char === '`') {
+            // Quotes are escaped by doubling them
+            let value = '';
+            let j = i + 1;
+            for (;;) {
+                if (j >= text.length) throw syntaxError('Unterminated quote', i);
+                if (text[j] === char) {
+                    if (text[j + 1] === char) {
+                        value += char;
+                        j += 2;
+                        continue;
+                    }
+                    break;
+                }
+                value += text[j++];
+            }
+            tokens.push({ type: char === '`' ? 'column' : 'string', text: value, position: i });
+            i = j + 1;
+        } else {
+            const operator = /^(!=|<>|>=|<=|=|>|<)/.exec(text.slice(i));
+            if (operator) {
+                tokens.push({ type: 'operator', text: operator[1] === '<>' ? '!=' : operator[1], position: i });
+                i += operator[1].length;
+                continue;
+            }
+            const word = /^[^\s()=!<>,'"`]+/.exec(text.slice(i));
+            if (!word) throw syntaxError(`Unexpected "${char}"`, i);
+            tokens.push({ type: 'word', text: word[0], position: i });
+            i += word[0].length;
+        }
+    }
+    return tokens;
+};
+
+export const parseQuery = (text: string, schema: Schema): QueryParseResult => {
+    let tokens: Token[];
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const isKeyword = (token: Token | undefined, keyword: string) =>
+        !!token && token.type === 'word' && token.text.toLowerCase() === keyword;
+    const endPosition = () => text.length;
+    const expectKeyword = (keyword: string) => {
+        const token = peek();
+        if (!isKeyword(token, keyword)) {
+            throw syntaxError(`Expected ${keyword.toUpperCase()}`, token ? token.position : endPosition());
+        }
+        index++;
+    };
+
+    const readColumn = () => {
+        const token = peek();
+        if (!token || (token.type !== 'word' && token.type !== 'column')) {
+            throw syntaxError('Expected a column name', token ? token.position : endPosition());
+        }
+        if (token.type === 'word' && KEYWORDS.has(token.text.toLowerCase())) {
+            throw syntaxError(`Expected a column name, found ${token.text.toUpperCase()}`, token.position);
+        }
+        if (!schema[token.text]) throw syntaxError(`Unknown column "${token.text}"`, token.position);
+        index++;
+        return token.text;
+    };
+
+    const readRawValue = () => {
+        const token = peek();
+        if (!token || (token.type !== 'word' && token.type !== 'string')) {
+            throw syntaxError('Expected a value', token ? token.position : endPosition());
+        }
+        index++;
+        return token;
+    };
+
+    const readValue = (type: ColumnType): CellValue => {
+        const token = readRawValue();
+        if (token.type === 'word' && token.text.toLowerCase() === 'null') return null;
+        const value = coerceValue(token.text, type);
+        if (value === null) throw syntaxError(`"${token.text}" is not a valid ${type}`, token.position);
+        return value;
+    };
+
+    const readNumber = (type: ColumnType) => {
+        const position = peek()?.position ?? endPosition();
+        const value = readValue(type);
+        if (typeof value !== 'number') throw syntaxError('BETWEEN needs numeric or date bounds', position);
+        return value;
+    };
+
+    const parseCondition = (): FilterExpression => {
+        const column = readColumn();
+        const type = schema[column].type;
+        const token = peek();
+        if (!token) throw syntaxError('Expected an operator', endPosition());
+
+        if (token.type === 'operator') {
+            index++;
+            const operator = token.text as CompareOperator;
+            if (operator === '=') {
+                return createCondition(column, { mode: 'values', values: [readValue(type)] });
+            }
+            const operand = readRawValue();
+            if (coerceValue(operand.text, type) === null) {
+                throw syntaxError(`"${operand.text}" is not a valid ${type}`, operand.position);
+            }
+            return createCondition(column, { mode: 'compare', operator, value: operand.text });
+        }
+
+        const keyword = token.type === 'word' ? token.text.toLowerCase() : '';
+        if (keyword === 'in') {
+            index++;
+            if (peek()?.type !== 'lparen') throw syntaxError('Expected "(" after IN', peek()?.position ?? endPosition());
+            index++;
+            const values: CellValue[] = [readValue(type)];
+            while (peek()?.type === 'comma') {
+                index++;
+                values.push(readValue(type));
+            }
+            if (peek()?.type !== 'rparen') throw syntaxError('Expected ")"', peek()?.position ?? endPosition());
+            index++;
+            return createCondition(column, { mode: 'values', values });
+        }
+        if (keyword === 'between') {
+            index++;
+            const min = readNumber(type);
+            expectKeyword('and');
+            const max = readNumber(type);
+            return createCondition(column, { mode: 'range', min, max });
+        }
+        if (keyword === 'is') {
+            index++;
+            const negated = isKeyword(peek(), 'not');
+            if (negated) index++;
+            expectKeyword('empty');
+            return createCondition(column, { mode: 'empty', empty: !negated });
+        }
+        if (keyword in TEXT_KEYWORDS) {
+            index++;
+            const value = readRawValue().text;
+            const caseSensitive = isKeyword(peek(), 'matchcase');
+            if (caseSensitive) index++;
+            return createCondition(column, { mode: 'text', operator: TEXT_KEYWORDS[keyword], value, caseSensitive });
+        }
+        throw syntaxError(`Unknown operator "${token.text}"`, token.position);
+    };
+
+    const parseUnary = (): FilterExpression => {
+        const token = peek();
+        if (isKeyword(token, 'not')) {
+            index++;
+            const inner = parseUnary();
+            return { ...inner, negated: !inner.negated };
+        }
+        if (token?.type === 'lparen') {
+            index++;
+            const inner = parseOr();
+            if (peek()?.type !== 'rparen') throw syntaxError('Expected ")"', peek()?.position ?? endPosition());
+            index++;
+            return inner;
+        }
+        return parseCondition();
+    };
+
+    // Same-operator chains flatten into one group: a AND b AND c
+    const parseChain = (operator: GroupOperator, parseOperand: () => FilterExpression): FilterExpression => {
+        const operands = [parseOperand()];
+        while (isKeyword(peek(), operator)) {
+            index++;
+            operands.push(parseOperand());
+        }
+        return operands.length === 1 ? operands[0] : createGroup(operator, operands);
+    };
+
+    const parseAnd = () => parseChain('and', parseUnary);
+    const parseOr = (): FilterExpression => parseChain('or', parseAnd);
+
+    try {
+        tokens = tokenize(text);
+        if (tokens.length === 0) return { expression: createGroup(), error: null };
+        const expression = parseOr();
+        if (index < tokens.length) throw syntaxError(`Unexpected "${tokens[index].text}"`, tokens[index].position);
+        const root = expression.kind === 'group' ? expression : createGroup('and', [expression]);
+        return { expression: root, error: null };
+    } catch (error) {
+        const { message, position } = error as Error & { position?: number };
+        return { expression: null, error: { message, position: position ?? 0 } };
+    }
+};
+
+const formatColumn = (column: string) =>
+    /^[A-Za-z_][\w.]*$/.test(column) && !KEYWORDS.has(column.toLowerCase()) ? column : `\`${column.replace(/`/g, '``')}\``;
+
+const quote = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+const formatLiteral = (value: CellValue, type: ColumnType) => {
+    if (value === null) return 'NULL';
+    if (typeof value === 'number' && type !== 'date') return String(value);
+    if (typeof value === 'boolean') return String(value);
+    return quote(formatValue(value, type));
+};
+
+const formatCondition = (condition: FilterCondition, schema: Schema) => {
+    const { column, filter } = condition;
+    const type = schema[column]?.type ?? 'string';
+    // A condition that filters nothing yet, like the one "+ Condition" adds, has nothing to write
+    if (createPredicate(filter, type) === null) return '';
+    const name = formatColumn(column);
+    switch (filter.mode) {
+        case 'values':
+            return filter.values.length === 1
+                ? `${name} = ${formatLiteral(filter.values[0], type)}`
+                : `${name} IN (${filter.values.map(value => formatLiteral(value, type)).join(', ')})`;
+        case 'range':
+            if (filter.min !== null && filter.max !== null) {
+                return `${name} BETWEEN ${formatLiteral(filter.min, type)} AND ${formatLiteral(filter.max, type)}`;
+            }
+            return filter.min !== null
+                ? `${name} >= ${formatLiteral(filter.min, type)}`
+                : `${name} <= ${formatLiteral(filter.max, type)}`;
+        case 'compare':
+            return `${name} ${filter.operator} ${/^[-+]?\d+(\.\d+)?$/.test(filter.value) ? filter.value : quote(filter.value)}`;
+        case 'text':
+            return `${name} ${TEXT_OPERATOR_KEYWORDS[filter.operator]} ${quote(filter.value)}${filter.caseSensitive ? ' MATCHCASE' : ''}`;
+        case 'empty':
+            return `${name} IS ${filter.empty ? '' : 'NOT '}EMPTY`;
+    }
+};
+
+// Prints the tree in the text syntax; parseQuery reads the output back into an equivalent tree
+export const formatQuery = (node: FilterExpression, schema: Schema, nested = false): string => {
+    if (node.kind === 'condition') {
+        const text = formatCondition(node, schema);
+        return node.negated && text !== '' ? `NOT ${text}` : text;
+    }
+    const parts = node.children.map(child => formatQuery(child, schema, true)).filter(part => part !== '');
+    if (parts.length === 0) return '';
+    const joined = parts.join(` ${node.operator.toUpperCase()} `);
+    const wrapped = (nested && parts.length > 1) || node.negated ? `(${joined})` : joined;
+    return node.negated ? `NOT ${wrapped}` : wrapped;
+};
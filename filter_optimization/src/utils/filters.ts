@@ -0,0 +1,207 @@
+import { coerceValue, compareValues, formatValue, type CellValue, type ColumnType } from './schema';
+
+export type FilterMode = 'values' | 'range' | 'compare' | 'text' | 'empty';
+export type CompareOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+export type TextOperator = 'contains' | 'startsWith' | 'endsWith' | 'regex';
+
+export type ColumnFilter =
+    | { mode: 'values'; values: CellValue[] }
+    // Bounds are inclusive; dates use epoch milliseconds like the cells do
+    | { mode: 'range'; min: number | null; max: number | null }
+    // The operand is kept as typed and read with the column type when the filter runs
+    | { mode: 'compare'; operator: CompareOperator; value: string }
+    | { mode: 'text'; operator: TextOperator; value: string; caseSensitive: boolean }
+    // Null until "is empty" or "is not empty" is picked
+    | { mode: 'empty'; empty: boolean | null };
+
+export interface ColumnFilters {
+    [column: string]: ColumnFilter;
+}
+
+export type ValuePredicate = (value: CellValue) => boolean;
+
+export const FILTER_MODE_LABELS: Record<FilterMode, string> = {
+    values: 'Pick values',
+    range: 'Range',
+    compare: 'Compare',
+    text: 'Text match',
+    empty: 'Empty / not empty'
+};
+
+export const COMPARE_OPERATORS: CompareOperator[] = ['=', '!=', '>', '>=', '<', '<='];
+
+export const TEXT_OPERATOR_LABELS: Record<TextOperator, string> = {
+    contains: 'contains',
+    startsWith: 'starts with',
+    endsWith: 'ends with',
+    regex: 'matches regex'
+};
+
+export const filterModesFor = (type: ColumnType): FilterMode[] => {
+    switch (type) {
+        case 'integer':
+        case 'float':
+        case 'date':
+            return ['values', 'range', 'compare', 'empty'];
+        case 'string':
+            return ['values', 'text', 'compare', 'empty'];
+        case 'boolean':
+            return ['values', 'empty'];
+    }
+};
+
+export const emptyFilter = (mode: FilterMode = 'values'): ColumnFilter => {
+    switch (mode) {
+        case 'values':
+            return { mode, values: [] };
+        case 'range':
+            return { mode, min: null, max: null };
+        case 'compare':
+            return { mode, operator: '=', value: '' };
+        case 'text':
+            return { mode, operator: 'contains', value: '', caseSensitive: false };
+        case 'empty':
+            return { mode, empty: null };
+    }
+};
+
+const compile = (pattern: string, caseSensitive: boolean) => {
+    try {
+        return new RegExp(pattern, caseSensitive ? '' : 'i');
+    } catch {
+        return null;
+    }
+};
+
+export const isValidRegex = (pattern: string) => compile(pattern, true) !== null;
+
+// Filters from a link, a file or a request are checked with isColumnFilter first, so getting here is a bug
+const unexpected = (value: never, what: string): never => {
+    throw new Error(`Unknown ${what}: ${JSON.stringify(value)}`);
+};
+
+const compareTest = (operator: CompareOperator): ((order: number) => boolean) => {
+    switch (operator) {
+        case '=': return order => order === 0;
+        case '!=': return order => order !== 0;
+        case '>': return order => order > 0;
+        case '>=': return order => order >= 0;
+        case '<': return order => order < 0;
+        case '<=': return order => order <= 0;
+        default: return unexpected(operator, 'compare operator');
+    }
+};
+
+const textTest = (operator: Exclude<TextOperator, 'regex'>, needle: string): ((text: string) => boolean) => {
+    switch (operator) {
+        case 'contains': return text => text.includes(needle);
+        case 'startsWith': return text => text.startsWith(needle);
+        case 'endsWith': return text => text.endsWith(needle);
+        default: return unexpected(operator, 'text operator');
+    }
+};
+
+// Builds the test a cell must pass, or null when the filter does not restrict anything yet.
+// Nulls only ever match "is empty" and "!=".
+export const createPredicate = (filter: ColumnFilter, type: ColumnType): ValuePredicate | null => {
+    switch (filter.mode) {
+        case 'values': {
+            if (filter.values.length === 0) return null;
+            const selected = new Set(filter.values);
+            return value => selected.has(value);
+        }
+        case 'range': {
+            const { min, max } = filter;
+            if (min === null && max === null) return null;
+            return value => typeof value === 'number'
+                && (min === null || value >= min)
+                && (max === null || value <= max);
+        }
+        case 'compare': {
+            const matches = compareTest(filter.operator);
+            if (filter.value.trim() === '') return null;
+            const operand = coerceValue(filter.value, type);
+            if (operand === null) return null;
+            const nullMatches = filter.operator === '!=';
+            return value => value === null ? nullMatches : matches(compareValues(value, operand));
+        }
+        case 'text': {
+            const { operator, caseSensitive } = filter;
+            if (operator === 'regex') {
+                if (filter.value === '') return null;
+                const pattern = compile(filter.value, caseSensitive);
+                if (!pattern) return null;
+                return value => value !== null && pattern.test(formatValue(value, type));
+            }
+            const matches = textTest(operator, caseSensitive ? filter.value : filter.value.toLowerCase());
+            if (filter.value === '') return null;
+            return value => {
+                if (value === null) return false;
+                return matches(caseSensitive ? formatValue(value, type) : formatValue(value, type).toLowerCase());
+            };
+        }
+        case 'empty': {
+            const empty = filter.empty;
+            if (empty === null) return null;
+            return value => (value === null) === empty;
+        }
+        default:
+            return unexpected(filter, 'filter');
+    }
+};
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumberOrNull = (value: unknown) => value === null || typeof value === 'number';
+
+export const isCompareOperator = (value: unknown): value is CompareOperator =>
+    COMPARE_OPERATORS.some(operator => operator === value);
+
+export const isTextOperator = (value: unknown): value is TextOperator =>
+    Object.keys(TEXT_OPERATOR_LABELS).some(operator => operator === value);
+
+// Checks a filter that arrived from outside the app field by field, operators included
+export const isColumnFilter = (value: unknown): value is ColumnFilter => {
+    if (!isObject(value)) return false;
+    switch (value.mode) {
+        case 'values':
+            return Array.isArray(value.values) && value.values.every(item =>
+                item === null || ['string', 'number', 'boolean'].includes(typeof item));
+        case 'range':
+            return isNumberOrNull(value.min) && isNumberOrNull(value.max);
+        case 'compare':
+            return isCompareOperator(value.operator) && typeof value.value === 'string';
+        case 'text':
+            return isTextOperator(value.operator) && typeof value.value === 'string' && typeof value.caseSensitive === 'boolean';
+        case 'empty':
+            return value.empty === null || typeof value.empty === 'boolean';
+        default:
+            return false;
+    }
+};
+
+export const isFilterActive = (filter: ColumnFilter | undefined, type: ColumnType) =>
+    !!filter && createPredicate(filter, type) !== null;
+
+// Human-readable form, e.g. "between 10 and 20" or "contains 'abc'"
+export const describeFilter = (filter: ColumnFilter, type: ColumnType): string => {
+    switch (filter.mode) {
+        case 'values':
+            return filter.values.map(value => value === null ? '(empty)' : formatValue(value, type)).join(', ');
+        case 'range':
+            if (filter.min !== null && filter.max !== null) {
+                return `between ${formatValue(filter.min, type)} and ${formatValue(filter.max, type)}`;
+            }
+            if (filter.min !== null) return `>= ${formatValue(filter.min, type)}`;
+            if (filter.max !== null) return `<= ${formatValue(filter.max, type)}`;
+            return '';
+        case 'compare':
+            return `${filter.operator} ${filter.value}`;
+        case 'text':
+            return `${TEXT_OPERATOR_LABELS[filter.operator]} '${filter.value}'${filter.caseSensitive ? ' (case sensitive)' : ''}`;
+        case 'empty':
+            if (filter.empty === null) return '';
+            return filter.empty ? 'is empty' : 'is not empty';
+    }
+};
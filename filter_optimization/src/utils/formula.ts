@@ -0,0 +1,546 @@
+import { formatValue, type CellValue, type ColumnType, type DataRow, type Schema } from './schema';
+
+// Computed columns: a formula over the other columns, evaluated row by row. Formulas are compiled into
+// closures here and never reach eval, so all a formula can do is read its row and call the functions below.
+//
+//   formula    := or
+//   or         := and ( OR and )*
+//   and        := not ( AND not )*
+//   not        := NOT not | comparison
+//   comparison := sum ( ( = | != | < | <= | > | >= ) sum )?
+//   sum        := product ( ( + | - | & ) product )*
+//   product    := unary ( ( * | / | % ) unary )*
+//   unary      := - unary | primary
+//   primary    := number | string | TRUE | FALSE | NULL | column | NAME '(' formula, ... ')' | '(' formula ')'
+//
+// e.g. `price * quantity`, `IF(stock > 0, 'in stock', 'sold out')`, `YEAR(created) % 100`, `UPPER(LEFT(name, 3))`.
+// Columns with spaces or symbols go in backticks, strings in single or double quotes; & joins anything as text.
+// An empty operand makes the result empty, and so does dividing by zero.
+
+// Integer and float columns are both plain numbers inside a formula
+export type FormulaType = 'number' | 'string' | 'boolean' | 'date';
+
+export interface ComputedColumn {
+    name: string;
+    formula: string;
+}
+
+export interface CompiledFormula {
+    type: FormulaType;
+    // Columns the formula reads
+    columns: string[];
+    evaluate: (row: DataRow) => CellValue;
+}
+
+export interface FormulaParseResult {
+    formula: CompiledFormula | null;
+    error: { message: string; position: number } | null;
+}
+
+// NULL on its own has no type until it meets something that does
+type StaticType = FormulaType | 'null';
+
+interface FormulaNode {
+    type: StaticType;
+    position: number;
+    evaluate: (row: DataRow) => CellValue;
+}
+
+type TokenType = 'number' | 'string' | 'column' | 'word' | 'operator' | 'lparen' | 'rparen' | 'comma';
+
+interface Token {
+    type: TokenType;
+    text: string;
+    position: number;
+}
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'true', 'false', 'null']);
+
+const formulaError = (message: string, position: number) => Object.assign(new Error(message), { position });
+
+const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        const rest = text.slice(i);
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '(' || char === ')' || char === ',') {
+            tokens.push({ type: char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'comma', text: char, position: i });
+            i++;
+        } else if (char === "'" || char === '"' || char === '`') {
+            // Quotes are escaped by doubling them
+            let value = '';
+            let j = i + 1;
+            for (;;) {
+                if (j >= text.length) throw formulaError('Unterminated quote', i);
+                if (text[j] === char) {
+                    if (text[j + 1] === char) {
+                        value += char;
+                        j += 2;
+                        continue;
+                    }
+                    break;
+                }
+                value += text[j++];
+            }
+            tokens.push({ type: char === '`' ? 'column' : 'string', text: value, position: i });
+            i = j + 1;
+        } else {
+            const number = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(rest);
+            if (number) {
+                tokens.push({ type: 'number', text: number[0], position: i });
+                i += number[0].length;
+                continue;
+            }
+            const operator = /^(!=|<>|>=|<=|=|>|<|[-+*/%&])/.exec(rest);
+            if (operator) {
+                tokens.push({ type: 'operator', text: operator[1] === '<>' ? '!=' : operator[1], position: i });
+                i += operator[1].length;
+                continue;
+            }
+            const word = /^[A-Za-z_][\w.]*/.exec(rest);
+            if (!word) throw formulaError(`Unexpected "${char}"`, i);
+            tokens.push({ type: 'word', text: word[0], position: i });
+            i += word[0].length;
+        }
+    }
+    return tokens;
+};
+
+export const formulaTypeOf = (type: ColumnType): FormulaType =>
+    type === 'integer' || type === 'float' ? 'number' : type;
+
+// The column type a formula's results get; numbers are integers unless some result has a fraction
+export const columnTypeOf = (type: FormulaType, values: CellValue[]): ColumnType =>
+    type !== 'number' ? type : values.every(value => typeof value !== 'number' || Number.isInteger(value)) ? 'integer' : 'float';
+
+const displayType = (type: StaticType) => type === 'null' ? 'empty' : type;
+
+const expectType = (node: FormulaNode, expected: FormulaType, context: string) => {
+    if (node.type !== expected && node.type !== 'null') {
+        throw formulaError(`${context} needs ${expected === 'number' ? 'a number' : `a ${expected}`}, got ${displayType(node.type)}`, node.position);
+    }
+};
+
+// Branches of IF, COALESCE and friends must agree on one type; empty ones fit any
+const commonType = (nodes: FormulaNode[], context: string): StaticType => {
+    let type: StaticType = 'null';
+    nodes.forEach(node => {
+        if (node.type === 'null') return;
+        if (type !== 'null' && node.type !== type) {
+            throw formulaError(`${context} mixes ${type} and ${node.type}`, node.position);
+        }
+        type = node.type;
+    });
+    return type;
+};
+
+const MS_PER_DAY = 86400000;
+
+// Results that are not real numbers (0/0, SQRT(-1), overflow) come out empty
+const finite = (value: number): CellValue => Number.isFinite(value) ? value : null;
+
+const textOf = (value: CellValue, type: StaticType) =>
+    formatValue(value, type === 'date' ? 'date' : 'string');
+
+interface FormulaFunction {
+    // Argument types in order; with variadic the last one repeats. 'any' takes every type
+    args: (FormulaType | 'any')[];
+    optional?: number;
+    variadic?: boolean;
+    // A fixed result type, or one worked out from the arguments
+    result: FormulaType | ((args: FormulaNode[], name: string) => StaticType);
+    // Called with the argument values; unless handlesEmpty is set, any empty argument makes the result empty first
+    apply: (values: CellValue[], args: FormulaNode[]) => CellValue;
+    handlesEmpty?: boolean;
+}
+
+const numberFunction = (apply: (value: number) => number): FormulaFunction =>
+    ({ args: ['number'], result: 'number', apply: ([value]) => finite(apply(value as number)) });
+
+const textFunction = (apply: (value: string) => CellValue, result: FormulaType = 'string'): FormulaFunction =>
+    ({ args: ['string'], result, apply: ([value]) => apply(value as string) });
+
+// Dates are epoch milliseconds in UTC, the way they were read from the file
+const datePartFunction = (read: (date: Date) => number): FormulaFunction =>
+    ({ args: ['date'], result: 'number', apply: ([value]) => read(new Date(value as number)) });
+
+const FUNCTIONS: { [name: string]: FormulaFunction } = {
+    // Logic
+    IF: {
+        args: ['boolean', 'any', 'any'],
+        result: ([, then, otherwise], name) => commonType([then, otherwise], name),
+        // An empty condition counts as false
+        apply: ([condition, then, otherwise]) => condition === true ? then : otherwise,
+        handlesEmpty: true
+    },
+    COALESCE: {
+        args: ['any'],
+        variadic: true,
+        result: (args, name) => commonType(args, name),
+        apply: values => values.find(value => value !== null) ?? null,
+        handlesEmpty: true
+    },
+    ISEMPTY: { args: ['any'], result: 'boolean', apply: ([value]) => value === null, handlesEmpty: true },
+
+    // Numbers
+    ABS: numberFunction(Math.abs),
+    FLOOR: numberFunction(Math.floor),
+    CEIL: numberFunction(Math.ceil),
+    SQRT: numberFunction(Math.sqrt),
+    ROUND: {
+        args: ['number', 'number'],
+        optional: 1,
+        result: 'number',
+        apply: ([value, digits = 0]) => {
+            const factor = 10 ** (digits as number);
+            return finite(Math.round((value as number) * factor) / factor);
+        }
+    },
+    POWER: { args: ['number', 'number'], result: 'number', apply: ([base, exponent]) => finite((base as number) ** (exponent as number)) },
+    MIN: { args: ['number'], variadic: true, result: 'number', apply: values => Math.min(...values as number[]) },
+    MAX: { args: ['number'], variadic: true, result: 'number', apply: values => Math.max(...values as number[]) },
+
+    // Text
+    LEN: textFunction(value => value.length, 'number'),
+    UPPER: textFunction(value => value.toUpperCase()),
+    LOWER: textFunction(value => value.toLowerCase()),
+    TRIM: textFunction(value => value.trim()),
+    LEFT: { args: ['string', 'number'], result: 'string', apply: ([value, count]) => (value as string).slice(0, Math.max(0, count as number)) },
+    RIGHT: {
+        args: ['string', 'number'],
+        result: 'string',
+        apply: ([value, count]) => (count as number) > 0 ? (value as string).slice(-(count as number)) : ''
+    },
+    // Positions count from 1, like in spreadsheets
+    SUBSTR: {
+        args: ['string', 'number', 'number'],
+        optional: 1,
+        result: 'string',
+        apply: ([value, start, length]) => {
+            const from = Math.max(0, (start as number) - 1);
+            return (value as string).slice(from, length === undefined ? undefined : from + Math.max(0, length as number));
+        }
+    },
+    CONTAINS: { args: ['string', 'string'], result: 'boolean', apply: ([value, part]) => (value as string).includes(part as string) },
+    STARTSWITH: { args: ['string', 'string'], result: 'boolean', apply: ([value, part]) => (value as string).startsWith(part as string) },
+    ENDSWITH: { args: ['string', 'string'], result: 'boolean', apply: ([value, part]) => (value as string).endsWith(part as string) },
+    REPLACE: {
+        args: ['string', 'string', 'string'],
+        result: 'string',
+        apply: ([value, find, replacement]) => find === '' ? value : (value as string).split(find as string).join(replacement as string)
+    },
+    // Empty arguments are left out rather than emptying the whole result
+    CONCAT: {
+        args: ['any'],
+        variadic: true,
+        result: 'string',
+        apply: (values, args) => values.map((value, index) => textOf(value, args[index].type)).join(''),
+        handlesEmpty: true
+    },
+    TEXT: { args: ['any'], result: 'string', apply: ([value], [arg]) => textOf(value, arg.type) },
+
+    // Dates
+    YEAR: datePartFunction(value => value.getUTCFullYear()),
+    MONTH: datePartFunction(value => value.getUTCMonth() + 1),
+    DAY: datePartFunction(value => value.getUTCDate()),
+    // 1 is Monday, 7 is Sunday
+    WEEKDAY: datePartFunction(value => value.getUTCDay() || 7),
+    HOUR: datePartFunction(value => value.getUTCHours()),
+    MINUTE: datePartFunction(value => value.getUTCMinutes()),
+    // Whole days from the first date to the second
+    DAYS: { args: ['date', 'date'], result: 'number', apply: ([from, to]) => Math.floor(((to as number) - (from as number)) / MS_PER_DAY) }
+};
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS);
+
+const ARITHMETIC: { [operator: string]: (a: number, b: number) => CellValue } = {
+    '+': (a, b) => finite(a + b),
+    '-': (a, b) => finite(a - b),
+    '*': (a, b) => finite(a * b),
+    '/': (a, b) => b === 0 ? null : finite(a / b),
+    '%': (a, b) => b === 0 ? null : finite(a % b)
+};
+
+const COMPARISONS: { [operator: string]: (order: number) => boolean } = {
+    '=': order => order === 0,
+    '!=': order => order !== 0,
+    '<': order => order < 0,
+    '<=': order => order <= 0,
+    '>': order => order > 0,
+    '>=': order => order >= 0
+};
+
+export const compileFormula = (text: string, schema: Schema): FormulaParseResult => {
+    let tokens: Token[];
+    let index = 0;
+    const columns = new Set<string>();
+
+    const peek = () => tokens[index];
+    const endPosition = () => text.length;
+    const isKeyword = (token: Token | undefined, keyword: string) =>
+        !!token && token.type === 'word' && token.text.toLowerCase() === keyword;
+    const isOperator = (token: Token | undefined, operators: string[]) =>
+        !!token && token.type === 'operator' && operators.includes(token.text);
+    const expect = (type: TokenType, description: string) => {
+        const token = peek();
+        if (token?.type !== type) throw formulaError(`Expected ${description}`, token ? token.position : endPosition());
+        index++;
+    };
+
+    const readColumn = (token: Token): FormulaNode => {
+        const column = schema[token.text];
+        if (!column) throw formulaError(`Unknown column "${token.text}"`, token.position);
+        columns.add(token.text);
+        const name = token.text;
+        return { type: formulaTypeOf(column.type), position: token.position, evaluate: row => row[name] ?? null };
+    };
+
+    const readCall = (token: Token): FormulaNode => {
+        const name = token.text.toUpperCase();
+        const spec = FUNCTIONS[name];
+        if (!spec) throw formulaError(`Unknown function "${token.text}"`, token.position);
+        expect('lparen', `"(" after ${name}`);
+        const args: FormulaNode[] = [];
+        if (peek()?.type !== 'rparen') {
+            args.push(parseOr());
+            while (peek()?.type === 'comma') {
+                index++;
+                args.push(parseOr());
+            }
+        }
+        expect('rparen', '")"');
+
+        const min = spec.args.length - (spec.optional ?? 0);
+        if (args.length < min || (!spec.variadic && args.length > spec.args.length)) {
+            const count = spec.variadic ? `at least ${min}` : spec.optional ? `${min} to ${spec.args.length}` : `${min}`;
+            throw formulaError(`${name} takes ${count} argument${count === '1' ? '' : 's'}, got ${args.length}`, token.position);
+        }
+        args.forEach((arg, position) => {
+            const expected = spec.args[Math.min(position, spec.args.length - 1)];
+            if (expected !== 'any') expectType(arg, expected, `Argument ${position + 1} of ${name}`);
+        });
+
+        const type = typeof spec.result === 'function' ? spec.result(args, name) : spec.result;
+        return {
+            type,
+            position: token.position,
+            evaluate: row => {
+                const values = args.map(arg => arg.evaluate(row));
+                if (!spec.handlesEmpty && values.includes(null)) return null;
+                return spec.apply(values, args);
+            }
+        };
+    };
+
+    const parsePrimary = (): FormulaNode => {
+        const token = peek();
+        if (!token) throw formulaError('Expected a value', endPosition());
+        index++;
+        switch (token.type) {
+            case 'number': {
+                const value = Number(token.text);
+                return { type: 'number', position: token.position, evaluate: () => value };
+            }
+            case 'string':
+                return { type: 'string', position: token.position, evaluate: () => token.text };
+            case 'column':
+                return readColumn(token);
+            case 'lparen': {
+                const inner = parseOr();
+                expect('rparen', '")"');
+                return inner;
+            }
+            case 'word': {
+                const keyword = token.text.toLowerCase();
+                if (keyword === 'true' || keyword === 'false') {
+                    return { type: 'boolean', position: token.position, evaluate: () => keyword === 'true' };
+                }
+                if (keyword === 'null') return { type: 'null', position: token.position, evaluate: () => null };
+                if (KEYWORDS.has(keyword)) throw formulaError(`Expected a value, found ${token.text.toUpperCase()}`, token.position);
+                return peek()?.type === 'lparen' ? readCall(token) : readColumn(token);
+            }
+            default:
+                throw formulaError(`Unexpected "${token.text}"`, token.position);
+        }
+    };
+
+    const parseUnary = (): FormulaNode => {
+        const token = peek();
+        if (!isOperator(token, ['-'])) return parsePrimary();
+        index++;
+        const operand = parseUnary();
+        expectType(operand, 'number', 'Negation');
+        return {
+            type: 'number',
+            position: token.position,
+            evaluate: row => {
+                const value = operand.evaluate(row);
+                return value === null ? null : -(value as number);
+            }
+        };
+    };
+
+    const binary = (left: FormulaNode, operator: Token, right: FormulaNode): FormulaNode => {
+        if (operator.text === '&') {
+            return {
+                type: 'string',
+                position: operator.position,
+                evaluate: row => textOf(left.evaluate(row), left.type) + textOf(right.evaluate(row), right.type)
+            };
+        }
+        expectType(left, 'number', `Operator ${operator.text}`);
+        expectType(right, 'number', `Operator ${operator.text}`);
+        const apply = ARITHMETIC[operator.text];
+        return {
+            type: 'number',
+            position: operator.position,
+            evaluate: row => {
+                const a = left.evaluate(row);
+                const b = right.evaluate(row);
+                return a === null || b === null ? null : apply(a as number, b as number);
+            }
+        };
+    };
+
+    const parseProduct = (): FormulaNode => {
+        let node = parseUnary();
+        while (isOperator(peek(), ['*', '/', '%'])) {
+            const operator = tokens[index++];
+            node = binary(node, operator, parseUnary());
+        }
+        return node;
+    };
+
+    const parseSum = (): FormulaNode => {
+        let node = parseProduct();
+        while (isOperator(peek(), ['+', '-', '&'])) {
+            const operator = tokens[index++];
+            node = binary(node, operator, parseProduct());
+        }
+        return node;
+    };
+
+    const parseComparison = (): FormulaNode => {
+        const left = parseSum();
+        const operator = peek();
+        if (!isOperator(operator, Object.keys(COMPARISONS))) return left;
+        index++;
+        const right = parseSum();
+        const type = commonType([left, right], `Comparison ${operator.text}`);
+        if (type === 'boolean' && operator.text !== '=' && operator.text !== '!=') {
+            throw formulaError(`Booleans can only be compared with = and !=`, operator.position);
+        }
+        const test = COMPARISONS[operator.text];
+        return {
+            type: 'boolean',
+            position: operator.position,
+            evaluate: row => {
+                const a = left.evaluate(row);
+                const b = right.evaluate(row);
+                if (a === null || b === null) return null;
+                return test(a < b ? -1 : a > b ? 1 : 0);
+            }
+        };
+    };
+
+    const parseNot = (): FormulaNode => {
+        const token = peek();
+        if (!isKeyword(token, 'not')) return parseComparison();
+        index++;
+        const operand = parseNot();
+        expectType(operand, 'boolean', 'NOT');
+        return {
+            type: 'boolean',
+            position: token.position,
+            evaluate: row => {
+                const value = operand.evaluate(row);
+                return value === null ? null : !value;
+            }
+        };
+    };
+
+    // Either side settles the answer on its own when it can (false AND empty is false)
+    const parseLogical = (operator: 'and' | 'or', parseOperand: () => FormulaNode): FormulaNode => {
+        let node = parseOperand();
+        while (isKeyword(peek(), operator)) {
+            const token = tokens[index++];
+            const left = node;
+            const right = parseOperand();
+            expectType(left, 'boolean', operator.toUpperCase());
+            expectType(right, 'boolean', operator.toUpperCase());
+            const decisive = operator === 'or';
+            node = {
+                type: 'boolean',
+                position: token.position,
+                evaluate: row => {
+                    const a = left.evaluate(row);
+                    if (a === decisive) return decisive;
+                    const b = right.evaluate(row);
+                    if (b === decisive) return decisive;
+                    return a === null || b === null ? null : !decisive;
+                }
+            };
+        }
+        return node;
+    };
+
+    const parseAnd = () => parseLogical('and', parseNot);
+    const parseOr = (): FormulaNode => parseLogical('or', parseAnd);
+
+    try {
+        tokens = tokenize(text);
+        if (tokens.length === 0) throw formulaError('Enter a formula', 0);
+        const root = parseOr();
+        if (index < tokens.length) throw formulaError(`Unexpected "${tokens[index].text}"`, tokens[index].position);
+        if (root.type === 'null') throw formulaError('The formula is always empty', root.position);
+        return { formula: { type: root.type, columns: [...columns], evaluate: root.evaluate }, error: null };
+    } catch (error) {
+        const { message, position } = error as Error & { position?: number };
+        return { formula: null, error: { message, position: position ?? 0 } };
+    }
+};
+
+// The columns a computed column's formula may read: everything except itself and the computed columns after it,
+// which keeps formulas from depending on each other in a circle
+export const formulaSchema = (schema: Schema, computed: ComputedColumn[], name: string): Schema => {
+    const position = computed.findIndex(column => column.name === name);
+    const later = new Set(computed.slice(position === -1 ? computed.length : position).map(column => column.name));
+    later.add(name);
+    const available: Schema = {};
+    Object.values(schema).forEach(column => {
+        if (!later.has(column.name)) available[column.name] = column;
+    });
+    return available;
+};
+
+// Fills in every computed column, in definition order so each can read the ones before it. When appending,
+// rows are new ones joining data that was already computed, and the existing column types are only ever widened.
+// A formula that no longer type-checks (a column it reads changed type) leaves its column empty.
+export const computeColumns = (rows: DataRow[], schema: Schema, computed: ComputedColumn[], appending = false) => {
+    const nextRows = computed.length > 0 ? rows.map(row => ({ ...row })) : rows;
+    const nextSchema = formulaSchema(schema, computed, computed[0]?.name ?? '');
+
+    computed.forEach(({ name, formula }) => {
+        const compiled = compileFormula(formula, nextSchema).formula;
+        const values = nextRows.map(row => {
+            const value = compiled ? compiled.evaluate(row) : null;
+            row[name] = value;
+            return value;
+        });
+        const previous = schema[name];
+        let type = compiled ? columnTypeOf(compiled.type, values) : previous?.type ?? 'string';
+        if (appending && previous?.type === 'float' && type === 'integer') type = 'float';
+        const nullable = values.includes(null) || (appending && !!previous?.nullable);
+        nextSchema[name] = { name, type, inferredType: type, nullable };
+    });
+    return { rows: nextRows, schema: nextSchema };
+};
+
+// Computed columns whose formulas read the given column
+export const formulaReaders = (schema: Schema, computed: ComputedColumn[], column: string) =>
+    computed.filter(({ name, formula }) =>
+        name !== column && compileFormula(formula, formulaSchema(schema, computed, name)).formula?.columns.includes(column))
+        .map(({ name }) => name);
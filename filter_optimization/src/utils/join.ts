@@ -0,0 +1,109 @@
+import { coerceValue, formatValue, type CellValue, type DataRow, type Schema } from './schema';
+
+export type JoinKind = 'inner' | 'left' | 'full';
+
+export const JOIN_KIND_LABELS: Record<JoinKind, string> = {
+    inner: 'Inner join (matching rows only)',
+    left: 'Left join (every left row)',
+    full: 'Full join (every row of both)'
+};
+
+export interface JoinSide {
+    name: string;
+    data: DataRow[];
+    columns: string[];
+    schema: Schema;
+    key: string;
+}
+
+export interface JoinResult {
+    data: DataRow[];
+    columns: string[];
+    schema: Schema;
+}
+
+// Keys are matched on their display form, so an integer 7 on one side meets a string "7" on the other.
+// Empty keys never match anything.
+const keyOf = (value: CellValue, side: JoinSide) =>
+    value === null ? null : formatValue(value, side.schema[side.key]?.type ?? 'string');
+
+// The left side keeps its column names; a right column that collides gets the right dataset's name
+// appended, then a number if even that is taken. The right key is folded into the left one.
+const joinedColumnNames = (left: JoinSide, right: JoinSide): Map<string, string> => {
+    const taken = new Set(left.columns);
+    const names = new Map<string, string>();
+    right.columns.forEach(column => {
+        if (column === right.key) return;
+        let name = column;
+        if (taken.has(name)) {
+            name = `${column} (${right.name})`;
+            for (let n = 2; taken.has(name); n++) name = `${column} (${right.name} ${n})`;
+        }
+        taken.add(name);
+        names.set(column, name);
+    });
+    return names;
+};
+
+export const joinDatasets = (left: JoinSide, right: JoinSide, kind: JoinKind): JoinResult => {
+    const rightNames = joinedColumnNames(left, right);
+    const columns = [...left.columns, ...rightNames.values()];
+
+    // Columns from a side that may be missing in a row become nullable
+    const schema: Schema = {};
+    left.columns.forEach(column => {
+        schema[column] = { ...left.schema[column], nullable: left.schema[column].nullable || kind === 'full' };
+    });
+    rightNames.forEach((name, column) => {
+        schema[name] = { ...right.schema[column], name, nullable: right.schema[column].nullable || kind !== 'inner' };
+    });
+
+    const rightRows = new Map<string, number[]>();
+    right.data.forEach((row, index) => {
+        const key = keyOf(row[right.key] ?? null, right);
+        if (key === null) return;
+        const rows = rightRows.get(key);
+        if (rows) {
+            rows.push(index);
+        } else {
+            rightRows.set(key, [index]);
+        }
+    });
+
+    const emptyRight: DataRow = {};
+    rightNames.forEach(name => { emptyRight[name] = null; });
+    const withRight = (target: DataRow, row: DataRow) => {
+        rightNames.forEach((name, column) => { target[name] = row[column] ?? null; });
+        return target;
+    };
+
+    const data: DataRow[] = [];
+    const matchedRight = new Uint8Array(right.data.length);
+    left.data.forEach(row => {
+        const key = keyOf(row[left.key] ?? null, left);
+        const matches = key === null ? undefined : rightRows.get(key);
+        if (matches) {
+            matches.forEach(index => {
+                matchedRight[index] = 1;
+                data.push(withRight({ ...row }, right.data[index]));
+            });
+        } else if (kind !== 'inner') {
+            data.push({ ...row, ...emptyRight });
+        }
+    });
+
+    if (kind === 'full') {
+        // Right rows nobody matched, with their key read into the left key column's type
+        const keyType = left.schema[left.key]?.type ?? 'string';
+        right.data.forEach((row, index) => {
+            if (matchedRight[index]) return;
+            const joined: DataRow = {};
+            left.columns.forEach(column => { joined[column] = null; });
+            const key = keyOf(row[right.key] ?? null, right);
+            joined[left.key] = key === null ? null : coerceValue(key, keyType);
+            data.push(withRight(joined, row));
+        });
+    }
+
+    return { data, columns, schema };
+};
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { applyRetypedColumns, coerceRows, coerceValue, createRowTyper, formatValue, inferSchema, retypeColumn, sourceTextOf, type DataRow } from './schema';
+
+// The worker's first batch is at least this many rows
+const FIRST_BATCH_ROWS = 20000;
+
+const columns = ['code', 'flag', 'day', 'amount'];
+
+const firstBatch = Array.from({ length: FIRST_BATCH_ROWS }, (_, index) => [
+    index === 0 ? '007' : String(index),
+    index % 2 === 0 ? 'yes' : 'no',
+    index === 0 ? '1/5/2024' : '2024-01-06',
+    String(index)
+]);
+// Each column widens to text here, and amount widens to float
+const secondBatch = [
+    ['A-1', 'maybe', 'soon', '1.5'],
+    ['42', 'yes', '2024-02-01', '3']
+];
+
+// What typing the whole source in one go gives, the reference for every batched load
+const typedAtOnce = (rows: string[][]) => coerceRows(columns, rows, inferSchema(columns, rows));
+
+describe('createRowTyper', () => {
+    it('re-reads rows already delivered from their raw text when a later batch widens a column', () => {
+        const typer = createRowTyper(columns);
+        const first = typer.add(firstBatch);
+        expect(first.schema.code.type).toBe('integer');
+        expect(first.schema.flag.type).toBe('boolean');
+        expect(first.schema.day.type).toBe('date');
+        expect(first.retypedColumns).toEqual({});
+        expect(first.rows[0]).toEqual({ code: 7, flag: true, day: Date.UTC(2024, 0, 5), amount: 0 });
+
+        const second = typer.add(secondBatch);
+        expect(Object.keys(second.retypedColumns).sort()).toEqual(['amount', 'code', 'day', 'flag']);
+        expect(second.retypedColumns.code).toHaveLength(FIRST_BATCH_ROWS);
+
+        const data = applyRetypedColumns(first.rows, second.retypedColumns).concat(second.rows);
+        expect(data[0]).toEqual({ code: '007', flag: 'yes', day: '1/5/2024', amount: 0 });
+        expect(data).toEqual(typedAtOnce([...firstBatch, ...secondBatch]));
+    });
+
+    it('sends nothing to re-read for columns that kept their type', () => {
+        const typer = createRowTyper(columns);
+        typer.add(firstBatch.slice(0, 10));
+        const next = typer.add([['11', 'no', '2024-03-01', '11']]);
+        expect(next.retypedColumns).toEqual({});
+    });
+
+    it('stops tracking a column once it is text', () => {
+        const typer = createRowTyper(['note']);
+        typer.add([['1'], ['x']]);
+        // Nothing can widen text, so a later batch never re-reads it
+        expect(typer.add([['2']]).retypedColumns).toEqual({});
+        expect(typer.schema().note.type).toBe('string');
+    });
+
+    it('keeps tracking a column of blanks, which can still become anything', () => {
+        const typer = createRowTyper(['zip']);
+        const first = typer.add([[''], ['']]);
+        expect(first.schema.zip.type).toBe('string');
+        const second = typer.add([['00501']]);
+        expect(second.schema.zip.type).toBe('integer');
+        const third = typer.add([['K1A 0B1']]);
+        const data = applyRetypedColumns([...first.rows, ...second.rows], third.retypedColumns).concat(third.rows);
+        expect(data.map(row => row.zip)).toEqual([null, null, '00501', 'K1A 0B1']);
+    });
+
+    it('hands out the source text of each batch until the column reaches text', () => {
+        const typer = createRowTyper(['zip', 'note']);
+        expect(typer.add([['00501', '1']]).sourceText).toEqual({ zip: ['00501'], note: ['1'] });
+        expect(typer.add([['02134', 'x']]).sourceText).toEqual({ zip: ['02134'] });
+    });
+
+    it('agrees with typing everything at once however the rows are batched', () => {
+        const rows = [...firstBatch.slice(0, 50), ...secondBatch, ['5', 'no', '2024-01-07', '-2e3']];
+        [1, 7, 25, rows.length].forEach(size => {
+            const typer = createRowTyper(columns);
+            let data: DataRow[] = [];
+            for (let start = 0; start < rows.length; start += size) {
+                const batch = typer.add(rows.slice(start, start + size));
+                data = applyRetypedColumns(data, batch.retypedColumns).concat(batch.rows);
+            }
+            expect(data).toEqual(typedAtOnce(rows));
+        });
+    });
+});
+
+describe('dates', () => {
+    it('reads every format without a zone as UTC', () => {
+        expect(coerceValue('1/5/2024', 'date')).toBe(Date.UTC(2024, 0, 5));
+        expect(coerceValue('2024-01-05', 'date')).toBe(Date.UTC(2024, 0, 5));
+        expect(coerceValue('2024-01-05 10:00', 'date')).toBe(Date.UTC(2024, 0, 5, 10));
+        expect(coerceValue('2024-01-05T10:00:30.25', 'date')).toBe(Date.UTC(2024, 0, 5, 10, 0, 30, 250));
+    });
+
+    it('honours an explicit zone', () => {
+        expect(coerceValue('2024-01-05T10:00Z', 'date')).toBe(Date.UTC(2024, 0, 5, 10));
+        expect(coerceValue('2024-01-05T10:00+05:30', 'date')).toBe(Date.UTC(2024, 0, 5, 4, 30));
+        expect(coerceValue('2024-01-05T10:00-0800', 'date')).toBe(Date.UTC(2024, 0, 5, 18));
+    });
+
+    it('rejects days and times that do not exist', () => {
+        ['2/30/2024', '2024-13-01', '0/1/2024', '2024-01-05T24:00'].forEach(raw => {
+            expect(coerceValue(raw, 'date')).toBeNull();
+        });
+    });
+
+    it('displays date-only values without a time', () => {
+        expect(formatValue(coerceValue('1/5/2024', 'date'), 'date')).toBe('2024-01-05');
+        expect(formatValue(coerceValue('2024-01-05 10:00', 'date'), 'date')).toBe('2024-01-05T10:00:00.000Z');
+    });
+});
+
+describe('retypeColumn', () => {
+    const rows = [['00501', '1.50'], ['', '2'], ['90210', '1e3']];
+    const columns = ['zip', 'price'];
+    const schema = inferSchema(columns, rows);
+    const data = coerceRows(columns, rows, schema);
+    const sourceText = sourceTextOf(columns, rows, schema);
+
+    it('re-reads the source text, so leading zeros and the way numbers were written survive', () => {
+        expect(schema.zip.type).toBe('integer');
+        const zip = retypeColumn(data, schema, 'zip', 'string', sourceText.zip);
+        expect(zip.data.map(row => row.zip)).toEqual(['00501', null, '90210']);
+        expect(zip.schema.zip).toMatchObject({ type: 'string', inferredType: 'integer', nullable: true });
+
+        const price = retypeColumn(data, schema, 'price', 'string', sourceText.price);
+        expect(price.data.map(row => row.price)).toEqual(['1.50', '2', '1e3']);
+    });
+
+    it('reads the display form when there is no source text for every row', () => {
+        expect(retypeColumn(data, schema, 'zip', 'string').data.map(row => row.zip)).toEqual(['501', null, '90210']);
+        expect(retypeColumn(data, schema, 'zip', 'string', ['00501']).data[0].zip).toBe('501');
+    });
+});
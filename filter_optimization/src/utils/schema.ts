@@ -0,0 +1,266 @@
+export type ColumnType = 'integer' | 'float' | 'string' | 'boolean' | 'date';
+
+export const COLUMN_TYPES: ColumnType[] = ['integer', 'float', 'string', 'boolean', 'date'];
+
+// Dates are stored as epoch milliseconds so they compare and filter like numbers
+export type CellValue = number | string | boolean | null;
+
+export interface DataRow {
+    [key: string]: CellValue;
+}
+
+export interface ColumnSchema {
+    name: string;
+    type: ColumnType;
+    inferredType: ColumnType;
+    nullable: boolean;
+}
+
+export interface Schema {
+    [column: string]: ColumnSchema;
+}
+
+const NULL_TOKENS = new Set(['', 'null', 'na', 'n/a', 'nan']);
+const BOOLEAN_TOKENS: { [token: string]: boolean } = { true: true, false: false, yes: true, no: false };
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const FLOAT_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+// yyyy-mm-dd with an optional time and zone, or m/d/yyyy
+const DATE_PATTERN = /^(?:(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?(Z|[-+]\d{2}:?\d{2})?)?|(\d{1,2})\/(\d{1,2})\/(\d{4}))$/;
+
+export const isNullToken = (raw: string) => NULL_TOKENS.has(raw.trim().toLowerCase());
+
+// Minutes east of UTC for a zone like Z, +05:30 or -0800
+const zoneOffset = (zone: string) => {
+    if (zone === 'Z') return 0;
+    const minutes = Number(zone.slice(1, 3)) * 60 + Number(zone.slice(-2));
+    return zone.startsWith('-') ? -minutes : minutes;
+};
+
+// Every format without a zone is read as UTC, like bare ISO dates are by the spec, so a value means the
+// same instant in every timezone and date-only values still display without a time
+const parseDate = (raw: string): number | null => {
+    const match = DATE_PATTERN.exec(raw);
+    if (!match) return null;
+    const [, isoYear, isoMonth, isoDay, hours = '0', minutes = '0', seconds = '0', fraction = '', zone, month, day, year] = match;
+    const date = year === undefined
+        ? [Number(isoYear), Number(isoMonth), Number(isoDay)]
+        : [Number(year), Number(month), Number(day)];
+    const time = [Number(hours), Number(minutes), Number(seconds)];
+    if (time[0] > 23 || time[1] > 59 || time[2] > 59) return null;
+
+    const milliseconds = Number(fraction.slice(1, 4).padEnd(3, '0'));
+    const utc = Date.UTC(date[0], date[1] - 1, date[2], time[0], time[1], time[2], milliseconds);
+    // Date.UTC rolls over out-of-range days, so 2/30/2024 would quietly become March 1
+    const check = new Date(utc);
+    if (check.getUTCFullYear() !== date[0] || check.getUTCMonth() !== date[1] - 1 || check.getUTCDate() !== date[2]) return null;
+    return zone === undefined ? utc : utc - zoneOffset(zone) * 60_000;
+};
+
+const fitsType = (raw: string, type: ColumnType) => {
+    switch (type) {
+        case 'boolean':
+            return raw.toLowerCase() in BOOLEAN_TOKENS;
+        case 'integer':
+            return INTEGER_PATTERN.test(raw) && Number.isSafeInteger(Number(raw));
+        case 'float':
+            return FLOAT_PATTERN.test(raw);
+        case 'date':
+            return parseDate(raw) !== null;
+        case 'string':
+            return true;
+    }
+};
+
+// Candidate types from most to least specific; a column keeps the first one every value fits
+const INFERENCE_ORDER: ColumnType[] = ['boolean', 'integer', 'float', 'date', 'string'];
+
+// Remembers which types every value seen so far fits, so inference can run batch by batch
+const createTypeTracker = () => {
+    let candidates = INFERENCE_ORDER;
+    let nullable = false;
+    let seenValue = false;
+
+    return {
+        add: (value: string) => {
+            // Only 'string' left and already nullable: no value can change the answer
+            if (candidates.length === 1 && nullable) return;
+            const raw = value.trim();
+            if (isNullToken(raw)) {
+                nullable = true;
+                return;
+            }
+            seenValue = true;
+            if (!fitsType(raw, candidates[0])) {
+                candidates = candidates.filter(type => fitsType(raw, type));
+            }
+        },
+        // A column with nothing but blanks has no evidence for anything stricter than text
+        result: (): { type: ColumnType; nullable: boolean } => ({ type: seenValue ? candidates[0] : 'string', nullable }),
+        // Only text is left, so no later value can change the type
+        settled: () => candidates.length === 1
+    };
+};
+
+export const createSchemaInferrer = (columns: string[]) => {
+    const trackers = columns.map(() => createTypeTracker());
+
+    const schema = (): Schema => {
+        const result: Schema = {};
+        columns.forEach((name, index) => {
+            const { type, nullable } = trackers[index].result();
+            result[name] = { name, type, inferredType: type, nullable };
+        });
+        return result;
+    };
+
+    // Returns the columns whose type changed because of these rows
+    const update = (rows: string[][]) => {
+        const before = trackers.map(tracker => tracker.result().type);
+        rows.forEach(row => {
+            trackers.forEach((tracker, index) => tracker.add(row[index] ?? ''));
+        });
+        return columns.filter((_, index) => trackers[index].result().type !== before[index]);
+    };
+
+    const settled = () => columns.filter((_, index) => trackers[index].settled());
+
+    return { schema, update, settled };
+};
+
+export const inferSchema = (columns: string[], rows: string[][]): Schema => {
+    const inferrer = createSchemaInferrer(columns);
+    inferrer.update(rows);
+    return inferrer.schema();
+};
+
+// Invalid values for the column type become null rather than a made-up default like 0
+export const coerceValue = (value: string, type: ColumnType): CellValue => {
+    const raw = value.trim();
+    if (isNullToken(raw)) return null;
+    switch (type) {
+        case 'boolean':
+            return raw.toLowerCase() in BOOLEAN_TOKENS ? BOOLEAN_TOKENS[raw.toLowerCase()] : null;
+        case 'integer':
+            return INTEGER_PATTERN.test(raw) ? Number(raw) : null;
+        case 'float':
+            return FLOAT_PATTERN.test(raw) ? Number(raw) : null;
+        case 'date':
+            return parseDate(raw);
+        case 'string':
+            return value;
+    }
+};
+
+export const coerceRows = (columns: string[], rows: string[][], schema: Schema): DataRow[] => {
+    const types = columns.map(col => schema[col]?.type ?? 'string');
+    return rows.map(row => {
+        const dataRow: DataRow = {};
+        columns.forEach((col, index) => {
+            dataRow[col] = coerceValue(row[index] ?? '', types[index]);
+        });
+        return dataRow;
+    });
+};
+
+// New values for the first rows of each column a later batch widened, in the order the rows were delivered
+export interface RetypedColumns {
+    [column: string]: CellValue[];
+}
+
+// The cells of columns read as something other than text, as the source wrote them, row by row. Text columns
+// hold their source text as values already.
+export interface SourceText {
+    [column: string]: string[];
+}
+
+// The source text of the given rows for every column not read as text
+export const sourceTextOf = (columns: string[], rows: string[][], schema: Schema): SourceText => {
+    const text: SourceText = {};
+    columns.forEach((column, index) => {
+        if (schema[column]?.type !== 'string') text[column] = rows.map(row => row[index] ?? '');
+    });
+    return text;
+};
+
+// Types rows batch by batch while inference is still settling. The raw text of every column that could still
+// widen is kept, so a widened column is coerced again from what the source said, not from its display form
+// ("007" stays "007" when an integer column turns into text). A column that reached text can change no further,
+// so its raw text is let go; until then each batch also hands out its own rows' text for later type overrides.
+export const createRowTyper = (columns: string[]) => {
+    const inferrer = createSchemaInferrer(columns);
+    const rawCells: (string[] | null)[] = columns.map(() => []);
+
+    const add = (rows: string[][]) => {
+        const changed = new Set(inferrer.update(rows));
+        const settled = new Set(inferrer.settled());
+        const schema = inferrer.schema();
+        const retypedColumns: RetypedColumns = {};
+        const sourceText: SourceText = {};
+        columns.forEach((column, index) => {
+            const raw = rawCells[index];
+            if (!raw) return;
+            const type = schema[column].type;
+            if (changed.has(column) && raw.length > 0) retypedColumns[column] = raw.map(value => coerceValue(value, type));
+            // A column of nothing but blanks so far reads as text too, but can still become anything
+            if (settled.has(column)) {
+                rawCells[index] = null;
+            } else {
+                sourceText[column] = rows.map(row => row[index] ?? '');
+                raw.push(...sourceText[column]);
+            }
+        });
+        return { rows: coerceRows(columns, rows, schema), schema, retypedColumns, sourceText };
+    };
+
+    return { schema: inferrer.schema, add };
+};
+
+export const formatValue = (value: CellValue, type: ColumnType): string => {
+    if (value === null) return '';
+    if (type === 'date' && typeof value === 'number') {
+        const iso = new Date(value).toISOString();
+        return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+    }
+    return String(value);
+};
+
+// Swap in the values a later batch re-read for rows already delivered
+export const applyRetypedColumns = (data: DataRow[], retypedColumns: RetypedColumns): DataRow[] => {
+    const columns = Object.keys(retypedColumns);
+    if (columns.length === 0) return data;
+    return data.map((row, index) => {
+        const next = { ...row };
+        columns.forEach(column => {
+            if (index < retypedColumns[column].length) next[column] = retypedColumns[column][index];
+        });
+        return next;
+    });
+};
+
+// Switch a column to another type, re-reading each value from the source text when there is some for every row,
+// so "00501" read as an integer comes back as "00501" in text. Rows that never had any, such as those of a join,
+// are read from their display form.
+export const retypeColumn = (data: DataRow[], schema: Schema, column: string, type: ColumnType, source?: string[]) => {
+    const previous = schema[column];
+    const text = source && source.length === data.length ? source : null;
+    let nullable = false;
+    const nextData = data.map((row, index) => {
+        const value = coerceValue(text ? text[index] : formatValue(row[column], previous.type), type);
+        if (value === null) nullable = true;
+        return { ...row, [column]: value };
+    });
+    return {
+        data: nextData,
+        schema: { ...schema, [column]: { ...previous, type, nullable } }
+    };
+};
+
+// Nulls sort last, everything else in its natural order
+export const compareValues = (a: CellValue, b: CellValue): number => {
+    if (a === b) return 0;
+    if (a === null) return 1;
+    if (b === null) return -1;
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (typeof a === 'boolean' && typeof b === 'boolean') return a ? 1 : -1;
+    return String(a).localeCompare(String(b));
+};
@@ -0,0 +1,22 @@
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+    column: string;
+    direction: SortDirection;
+}
+
+// A plain click sorts by that column alone; shift-click adds it as a further key.
+// Either way a column cycles ascending → descending → unsorted.
+export const toggleSort = (sort: SortKey[], column: string, additive: boolean): SortKey[] => {
+    const current = sort.find(key => key.column === column);
+    const next: SortKey | null = !current
+        ? { column, direction: 'asc' }
+        : current.direction === 'asc' ? { column, direction: 'desc' } : null;
+
+    if (!additive) return next ? [next] : [];
+    if (!current) return [...sort, next as SortKey];
+    return next
+        ? sort.map(key => key.column === column ? next : key)
+        : sort.filter(key => key.column !== column);
+};
+
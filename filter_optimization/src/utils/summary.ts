@@ -0,0 +1,118 @@
+import { compareValues, type CellValue, type ColumnType, type DataRow, type Schema } from './schema';
+
+export type Aggregate = 'count' | 'sum' | 'mean' | 'min' | 'max' | 'median' | 'distinct';
+
+export const AGGREGATE_LABELS: Record<Aggregate, string> = {
+    count: 'Count',
+    sum: 'Sum',
+    mean: 'Mean',
+    min: 'Min',
+    max: 'Max',
+    median: 'Median',
+    distinct: 'Distinct'
+};
+
+export interface ColumnSummary {
+    column: string;
+    type: ColumnType;
+    // Non-empty cells; empty ones are counted separately and left out of every other statistic
+    count: number;
+    empty: number;
+    sum: number | null;
+    mean: number | null;
+    min: CellValue;
+    max: CellValue;
+    median: number | null;
+    distinct: number;
+}
+
+export interface GroupSummary {
+    key: CellValue;
+    rowCount: number;
+    value: CellValue;
+}
+
+const isNumeric = (type: ColumnType) => type === 'integer' || type === 'float';
+
+// Dates are epoch milliseconds, so their mean and median are dates too; a sum of dates means nothing
+export const aggregatesFor = (type: ColumnType): Aggregate[] => {
+    if (isNumeric(type)) return ['count', 'sum', 'mean', 'min', 'max', 'median', 'distinct'];
+    if (type === 'date') return ['count', 'mean', 'min', 'max', 'median', 'distinct'];
+    return ['count', 'min', 'max', 'distinct'];
+};
+
+const median = (numbers: Float64Array) => {
+    if (numbers.length === 0) return null;
+    numbers.sort();
+    const middle = numbers.length >> 1;
+    return numbers.length % 2 === 1 ? numbers[middle] : (numbers[middle - 1] + numbers[middle]) / 2;
+};
+
+// One pass collects everything; numeric values go into a typed array so the median sort stays cheap
+const summarizeValues = (values: CellValue[], column: string, type: ColumnType): ColumnSummary => {
+    const numbers = new Float64Array(values.length);
+    const distinct = new Set<CellValue>();
+    let count = 0;
+    let sum = 0;
+    let min: CellValue = null;
+    let max: CellValue = null;
+
+    values.forEach(value => {
+        if (value === null) return;
+        if (typeof value === 'number') {
+            numbers[count] = value;
+            sum += value;
+        }
+        count++;
+        distinct.add(value);
+        if (min === null || compareValues(value, min) < 0) min = value;
+        if (max === null || compareValues(value, max) > 0) max = value;
+    });
+
+    const hasNumbers = isNumeric(type) || type === 'date';
+    return {
+        column,
+        type,
+        count,
+        empty: values.length - count,
+        sum: isNumeric(type) && count > 0 ? sum : null,
+        mean: hasNumbers && count > 0 ? sum / count : null,
+        min,
+        max,
+        median: hasNumbers ? median(numbers.subarray(0, count)) : null,
+        distinct: distinct.size
+    };
+};
+
+export const summarizeColumns = (rows: DataRow[], columns: string[], schema: Schema): ColumnSummary[] =>
+    columns.map(column => summarizeValues(rows.map(row => row[column] ?? null), column, schema[column]?.type ?? 'string'));
+
+export const aggregateValues = (values: CellValue[], aggregate: Aggregate, type: ColumnType): CellValue => {
+    const summary = summarizeValues(values, '', type);
+    return summary[aggregate];
+};
+
+// Rows bucketed by the group column's value, each bucket reduced with the aggregate; groups come out in value order
+export const groupBy = (
+    rows: DataRow[],
+    groupColumn: string,
+    valueColumn: string,
+    aggregate: Aggregate,
+    schema: Schema
+): GroupSummary[] => {
+    const groups = new Map<CellValue, CellValue[]>();
+    rows.forEach(row => {
+        const key = row[groupColumn] ?? null;
+        let values = groups.get(key);
+        if (!values) {
+            values = [];
+            groups.set(key, values);
+        }
+        values.push(row[valueColumn] ?? null);
+    });
+
+    const valueType = schema[valueColumn]?.type ?? 'string';
+    return [...groups.entries()]
+        .sort(([a], [b]) => compareValues(a, b))
+        .map(([key, values]) => ({ key, rowCount: values.length, value: aggregateValues(values, aggregate, valueType) }));
+};
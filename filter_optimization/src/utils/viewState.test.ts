@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createPredicate, type ColumnFilter } from './filters';
+import { decodeView, encodeView, parseViewsFile, toViewState } from './viewState';
+
+const view = (filters: { [column: string]: unknown }) => ({ filters, query: '', sort: [] });
+
+describe('toViewState', () => {
+    it('keeps filters whose operators the app knows', () => {
+        const filters = {
+            price: { mode: 'compare', operator: '>=', value: '10' },
+            name: { mode: 'text', operator: 'startsWith', value: 'a', caseSensitive: false }
+        };
+        expect(toViewState(view(filters))?.filters).toEqual(filters);
+    });
+
+    it('drops filters with an unknown operator instead of passing them on', () => {
+        const state = toViewState(view({
+            price: { mode: 'compare', operator: '~', value: '10' },
+            name: { mode: 'text', operator: 'sounds like', value: 'a', caseSensitive: false },
+            city: { mode: 'text', operator: 'toString', value: 'a', caseSensitive: false },
+            ok: { mode: 'empty', empty: true }
+        }));
+        expect(Object.keys(state?.filters ?? {})).toEqual(['ok']);
+    });
+
+    it('drops filters with an unknown mode or missing fields', () => {
+        const state = toViewState(view({
+            a: { mode: 'toString' },
+            b: { mode: 'compare', value: '1' },
+            c: { mode: 'range', min: '1', max: null },
+            d: 'values'
+        }));
+        expect(state?.filters).toEqual({});
+    });
+
+    it('survives a crafted link', () => {
+        const link = encodeView({ ...toViewState(view({}))!, filters: { x: { mode: 'compare', operator: 'eq', value: '1' } as unknown as ColumnFilter } });
+        expect(decodeView(link)?.filters).toEqual({});
+    });
+
+    it('reports views dropped from an imported file', () => {
+        const { views, error } = parseViewsFile(JSON.stringify([
+            { name: 'good', view: view({ a: { mode: 'compare', operator: '<', value: '3' } }) },
+            { name: 'no view' }
+        ]));
+        expect(views.map(saved => saved.name)).toEqual(['good']);
+        expect(error).toBe('1 invalid view(s) were skipped');
+    });
+});
+
+describe('createPredicate', () => {
+    it('refuses an operator that skipped validation rather than matching nothing', () => {
+        const filter = { mode: 'compare', operator: '~', value: '1' } as unknown as ColumnFilter;
+        expect(() => createPredicate(filter, 'integer')).toThrow('Unknown compare operator');
+    });
+});
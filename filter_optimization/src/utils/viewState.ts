@@ -0,0 +1,163 @@
+import { isColumnFilter, type ColumnFilters } from './filters';
+import type { SortKey } from './sorting';
+
+// Continuous scrolling over every matching row, or classic fixed-size pages
+export type TableMode = 'scroll' | 'paged';
+
+// The shareable part of the app state: what is filtered, how it is sorted and laid out, and where the reader is.
+// The query is kept in its text form, which is compact and gets fresh node ids when parsed back.
+export interface ViewState {
+    filters: ColumnFilters;
+    query: string;
+    sort: SortKey[];
+    currentPage: number;
+    tableMode: TableMode;
+    pageSize: number;
+    columnOrder: string[];
+    hiddenColumns: string[];
+    columnWidths: { [column: string]: number };
+}
+
+export interface SavedView {
+    name: string;
+    savedAt: string;
+    view: ViewState;
+}
+
+export interface ViewsFileResult {
+    views: SavedView[];
+    error: string | null;
+}
+
+const VIEW_PARAM = 'view';
+const STORAGE_KEY = 'filter_optimization.savedViews';
+const FILE_VERSION = 1;
+
+type JsonObject = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is JsonObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isSortKey = (value: unknown): value is SortKey =>
+    isObject(value) && typeof value.column === 'string' && (value.direction === 'asc' || value.direction === 'desc');
+
+// Anything that arrives from a URL, localStorage or a file is checked field by field;
+// unusable fields fall back to defaults instead of rejecting the whole view
+export const toViewState = (value: unknown): ViewState | null => {
+    if (!isObject(value)) return null;
+
+    const filters: ColumnFilters = {};
+    if (isObject(value.filters)) {
+        Object.entries(value.filters).forEach(([column, filter]) => {
+            if (isColumnFilter(filter)) filters[column] = filter;
+        });
+    }
+    const widths: { [column: string]: number } = {};
+    if (isObject(value.columnWidths)) {
+        Object.entries(value.columnWidths).forEach(([column, width]) => {
+            if (typeof width === 'number' && width > 0) widths[column] = width;
+        });
+    }
+    const positive = (number: unknown, fallback: number) =>
+        typeof number === 'number' && Number.isInteger(number) && number > 0 ? number : fallback;
+
+    return {
+        filters,
+        query: typeof value.query === 'string' ? value.query : '',
+        sort: Array.isArray(value.sort) ? value.sort.filter(isSortKey) : [],
+        currentPage: positive(value.currentPage, 1),
+        tableMode: value.tableMode === 'paged' ? 'paged' : 'scroll',
+        pageSize: positive(value.pageSize, 100),
+        columnOrder: isStringArray(value.columnOrder) ? value.columnOrder : [],
+        hiddenColumns: isStringArray(value.hiddenColumns) ? value.hiddenColumns : [],
+        columnWidths: widths
+    };
+};
+
+// Columns a dataset must have for the view to mean the same thing there
+export const requiredColumns = (view: ViewState) =>
+    [...new Set([...Object.keys(view.filters), ...view.sort.map(key => key.column)])];
+
+// ---- URL ----
+
+// Base64url of the JSON keeps the parameter free of characters that need escaping
+export const encodeView = (view: ViewState): string => {
+    let binary = '';
+    new TextEncoder().encode(JSON.stringify(view)).forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeView = (text: string): ViewState | null => {
+    try {
+        const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+        const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+        return toViewState(JSON.parse(new TextDecoder().decode(bytes)));
+    } catch {
+        return null;
+    }
+};
+
+export const readViewFromUrl = (): ViewState | null => {
+    const encoded = new URLSearchParams(window.location.search).get(VIEW_PARAM);
+    return encoded ? decodeView(encoded) : null;
+};
+
+export const writeViewToUrl = (view: ViewState) => {
+    const url = new URL(window.location.href);
+    url.searchParams.set(VIEW_PARAM, encodeView(view));
+    window.history.replaceState(window.history.state, '', url);
+};
+
+// ---- Saved views ----
+
+const toSavedViews = (value: unknown): SavedView[] => {
+    if (!Array.isArray(value)) return [];
+    const views: SavedView[] = [];
+    value.forEach(item => {
+        if (!isObject(item) || typeof item.name !== 'string' || item.name.trim() === '') return;
+        const view = toViewState(item.view);
+        if (!view) return;
+        views.push({ name: item.name.trim(), savedAt: typeof item.savedAt === 'string' ? item.savedAt : new Date().toISOString(), view });
+    });
+    return views;
+};
+
+export const loadSavedViews = (): SavedView[] => {
+    try {
+        return toSavedViews(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]'));
+    } catch {
+        return [];
+    }
+};
+
+export const storeSavedViews = (views: SavedView[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+};
+
+// Views with the same name are replaced, everything else keeps its place
+export const mergeSavedViews = (existing: SavedView[], incoming: SavedView[]): SavedView[] => {
+    const merged = existing.filter(view => !incoming.some(other => other.name === view.name));
+    return [...merged, ...incoming];
+};
+
+export const exportViewsFile = (views: SavedView[]) =>
+    JSON.stringify({ version: FILE_VERSION, views }, null, 2);
+
+export const parseViewsFile = (text: string): ViewsFileResult => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        return { views: [], error: 'The file is not valid JSON' };
+    }
+    // A bare array of views is accepted as well as the exported wrapper
+    const list = isObject(parsed) ? parsed.views : parsed;
+    if (!Array.isArray(list)) return { views: [], error: 'The file does not contain a list of views' };
+    const views = toSavedViews(list);
+    if (views.length === 0) return { views: [], error: 'The file does not contain any usable views' };
+    const skipped = list.length - views.length;
+    return { views, error: skipped > 0 ? `${skipped} invalid view(s) were skipped` : null };
+};
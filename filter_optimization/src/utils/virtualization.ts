@@ -0,0 +1,68 @@
+// Row offsets for a virtualized list whose rows start at an estimated height and are corrected
+// once measured. A Fenwick tree keeps both updates and offset lookups at O(log n) for millions of rows.
+export interface HeightIndex {
+    count: number;
+    heightOf: (index: number) => number;
+    setHeight: (index: number, height: number) => boolean;
+    offsetOf: (index: number) => number;
+    indexAt: (offset: number) => number;
+    totalHeight: () => number;
+}
+
+export const createHeightIndex = (count: number, estimatedHeight: number): HeightIndex => {
+    const heights = new Float64Array(count).fill(estimatedHeight);
+    const tree = new Float64Array(count + 1);
+
+    // Linear-time build: every node adds itself into its parent once
+    for (let i = 1; i <= count; i++) {
+        tree[i] += estimatedHeight;
+        const parent = i + (i & -i);
+        if (parent <= count) tree[parent] += tree[i];
+    }
+
+    let highestBit = 1;
+    while (highestBit * 2 <= count) highestBit *= 2;
+
+    const add = (index: number, delta: number) => {
+        for (let i = index + 1; i <= count; i += i & -i) tree[i] += delta;
+    };
+
+    // Sum of the heights of rows before index
+    const offsetOf = (index: number) => {
+        let total = 0;
+        for (let i = Math.min(index, count); i > 0; i -= i & -i) total += tree[i];
+        return total;
+    };
+
+    // Row that contains the given vertical offset
+    const indexAt = (offset: number) => {
+        if (count === 0) return 0;
+        let position = 0;
+        let remaining = offset;
+        for (let step = highestBit; step > 0; step >>= 1) {
+            const next = position + step;
+            if (next <= count && tree[next] <= remaining) {
+                position = next;
+                remaining -= tree[next];
+            }
+        }
+        return Math.min(position, count - 1);
+    };
+
+    // Returns whether the height actually changed, so callers can skip a re-render
+    const setHeight = (index: number, height: number) => {
+        if (index < 0 || index >= count || heights[index] === height) return false;
+        add(index, height - heights[index]);
+        heights[index] = height;
+        return true;
+    };
+
+    return {
+        count,
+        heightOf: index => heights[index],
+        setHeight,
+        offsetOf,
+        indexAt,
+        totalHeight: () => offsetOf(count)
+    };
+};
@@ -0,0 +1,123 @@
+import { crc32, inflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { createExportWriter } from './exporters';
+import type { Schema } from './schema';
+import { createZip } from './zip';
+
+interface ReadEntry {
+    name: string;
+    crc: number;
+    text: string;
+}
+
+// Reads the archive the way an unzip tool does: from the end record to the central directory, then each
+// local header it points at, checking that both headers agree and the checksum matches the contents
+const readZip = async (blob: Blob): Promise<ReadEntry[]> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const decoder = new TextDecoder();
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    const count = view.getUint16(end + 10, true);
+    expect(view.getUint16(end + 8, true)).toBe(count);
+    const directorySize = view.getUint32(end + 12, true);
+    const directoryStart = view.getUint32(end + 16, true);
+    expect(directoryStart + directorySize).toBe(end);
+
+    const entries: ReadEntry[] = [];
+    let at = directoryStart;
+    for (let index = 0; index < count; index++) {
+        expect(view.getUint32(at, true)).toBe(0x02014b50);
+        const nameLength = view.getUint16(at + 28, true);
+        const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+        const crc = view.getUint32(at + 16, true);
+        const compressedSize = view.getUint32(at + 20, true);
+        const size = view.getUint32(at + 24, true);
+        const local = view.getUint32(at + 42, true);
+
+        expect(view.getUint32(local, true)).toBe(0x04034b50);
+        // UTF-8 names flag and deflate method
+        expect(view.getUint16(local + 6, true)).toBe(0x0800);
+        expect(view.getUint16(local + 8, true)).toBe(8);
+        expect(view.getUint32(local + 14, true)).toBe(crc);
+        expect(view.getUint32(local + 18, true)).toBe(compressedSize);
+        expect(view.getUint32(local + 22, true)).toBe(size);
+        expect(decoder.decode(bytes.subarray(local + 30, local + 30 + nameLength))).toBe(name);
+
+        const dataStart = local + 30 + nameLength;
+        const contents = inflateRawSync(bytes.subarray(dataStart, dataStart + compressedSize));
+        expect(contents.length).toBe(size);
+        expect(crc32(contents)).toBe(crc);
+
+        entries.push({ name, crc, text: decoder.decode(contents) });
+        at += 46 + nameLength;
+    }
+    return entries;
+};
+
+describe('createZip', () => {
+    it('writes entries any unzip tool can read back', async () => {
+        const large = 'row,value\n'.repeat(20000);
+        const entries = await readZip(await createZip([
+            { name: 'hello.txt', data: new Blob(['Hello, zip']) },
+            { name: 'dossier/données.csv', data: new Blob([large]) },
+            { name: 'empty', data: new Blob([]) }
+        ]));
+
+        expect(entries.map(entry => entry.name)).toEqual(['hello.txt', 'dossier/données.csv', 'empty']);
+        expect(entries.map(entry => entry.text)).toEqual(['Hello, zip', large, '']);
+        // The well-known CRC-32 check value
+        expect((await readZip(await createZip([{ name: 'check', data: new Blob(['123456789']) }])))[0].crc).toBe(0xcbf43926);
+    });
+});
+
+describe('XLSX export', () => {
+    const schema: Schema = {
+        name: { name: 'name', type: 'string', inferredType: 'string', nullable: true },
+        amount: { name: 'amount', type: 'float', inferredType: 'float', nullable: false },
+        paid: { name: 'paid', type: 'boolean', inferredType: 'boolean', nullable: false },
+        due: { name: 'due', type: 'date', inferredType: 'date', nullable: false }
+    };
+
+    const exportSheet = async (rows: (string | number | boolean | null)[][]) => {
+        const writer = createExportWriter('xlsx', Object.keys(schema), schema);
+        writer.write(rows);
+        const entries = await readZip(await writer.finish());
+        return { entries, sheet: entries.find(entry => entry.name === 'xl/worksheets/sheet1.xml')?.text ?? '' };
+    };
+
+    it('packages a workbook whose parts reference each other', async () => {
+        const { entries } = await exportSheet([]);
+        expect(entries.map(entry => entry.name).sort()).toEqual([
+            '[Content_Types].xml',
+            '_rels/.rels',
+            'xl/_rels/workbook.xml.rels',
+            'xl/styles.xml',
+            'xl/workbook.xml',
+            'xl/worksheets/sheet1.xml'
+        ]);
+        const types = entries.find(entry => entry.name === '[Content_Types].xml')?.text ?? '';
+        expect(types).toContain('PartName="/xl/worksheets/sheet1.xml"');
+    });
+
+    it('writes text as inline strings, escaped, with the same text repeated per cell', async () => {
+        const { sheet } = await exportSheet([
+            ['Fish & "Chips" <b>', 1, true, Date.UTC(2024, 0, 5)],
+            ['Fish & "Chips" <b>', 2.5, false, Date.UTC(2024, 0, 5, 12)],
+            ['bell\u0007 tab\t', 3, true, Date.UTC(1970, 0, 1)]
+        ]);
+        const escaped = '<c t="inlineStr"><is><t xml:space="preserve">Fish &amp; &quot;Chips&quot; &lt;b&gt;</t></is></c>';
+        expect(sheet.split(escaped)).toHaveLength(3);
+        expect(sheet).not.toContain('<b>');
+        // Characters XML cannot carry are dropped, whitespace is kept
+        expect(sheet).toContain('<t xml:space="preserve">bell tab\t</t>');
+    });
+
+    it('writes numbers, booleans and dates as values Excel can compute with', async () => {
+        const { sheet } = await exportSheet([[null, 2.5, true, Date.UTC(2024, 0, 5, 12)], ['x', 1, false, Date.UTC(1970, 0, 1)]]);
+        expect(sheet).toContain('<row r="1"><c t="inlineStr" s="3"><is><t xml:space="preserve">name</t></is></c>');
+        expect(sheet).toContain('<row r="2"><c/><c><v>2.5</v></c><c t="b"><v>1</v></c><c s="2"><v>45296.5</v></c></row>');
+        expect(sheet).toContain('<c t="b"><v>0</v></c><c s="1"><v>25569</v></c></row>');
+    });
+});
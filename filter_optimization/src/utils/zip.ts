@@ -0,0 +1,98 @@
+// Minimal ZIP writer for the XLSX export: deflated entries, UTF-8 names, no ZIP64 (entries stay under 4 GB)
+export interface ZipEntry {
+    name: string;
+    data: Blob;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const updateCrc = (crc: number, bytes: Uint8Array) => {
+    let c = crc;
+    for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    return c;
+};
+
+// Streams the entry through the browser's deflate, checksumming the uncompressed bytes on the way
+const deflate = async (data: Blob) => {
+    const compressor = new CompressionStream('deflate-raw');
+    const compressed = new Response(compressor.readable).blob();
+    const writer = compressor.writable.getWriter();
+    const reader = data.stream().getReader();
+    let crc = 0xffffffff;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        crc = updateCrc(crc, value);
+        await writer.write(value);
+    }
+    await writer.close();
+    return { crc: (crc ^ 0xffffffff) >>> 0, data: await compressed };
+};
+
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const { time, date } = dosDateTime(new Date());
+    const parts: BlobPart[] = [];
+    const directory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const { crc, data } = await deflate(entry.data);
+
+        // Fields shared by the local header and the central directory record
+        const common = (view: DataView, at: number) => {
+            view.setUint16(at, 20, true);
+            view.setUint16(at + 2, 0x0800, true);
+            view.setUint16(at + 4, 8, true);
+            view.setUint16(at + 6, time, true);
+            view.setUint16(at + 8, date, true);
+            view.setUint32(at + 10, crc, true);
+            view.setUint32(at + 14, data.size, true);
+            view.setUint32(at + 18, entry.data.size, true);
+            view.setUint16(at + 22, name.length, true);
+        };
+
+        const local = new Uint8Array(30 + name.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        common(localView, 4);
+        local.set(name, 30);
+
+        const record = new Uint8Array(46 + name.length);
+        const recordView = new DataView(record.buffer);
+        recordView.setUint32(0, 0x02014b50, true);
+        recordView.setUint16(4, 20, true);
+        common(recordView, 6);
+        recordView.setUint32(42, offset, true);
+        record.set(name, 46);
+
+        parts.push(local, data);
+        directory.push(record);
+        offset += local.length + data.size;
+    }
+
+    const directorySize = directory.reduce((total, record) => total + record.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, directorySize, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+};
@@ -0,0 +1,72 @@
+/// <reference lib="webworker" />
+import { createCSVStream, createStreamDecoder, type ParseIssue, type ParseMeta, type ParseOptions } from '../utils/csvParser';
+import { createRowTyper, type DataRow, type RetypedColumns, type Schema, type SourceText } from '../utils/schema';
+
+export interface CSVWorkerRequest {
+    file: File;
+    options: ParseOptions;
+}
+
+export type CSVWorkerMessage =
+    | { type: 'header'; columns: string[]; schema: Schema }
+    | { type: 'rows'; rows: DataRow[]; schema: Schema; retypedColumns: RetypedColumns; sourceText: SourceText }
+    | { type: 'progress'; loadedBytes: number; rowCount: number }
+    | { type: 'done'; meta: ParseMeta; warnings: ParseIssue[]; errors: ParseIssue[] }
+    | { type: 'error'; message: string };
+
+const CHUNK_BYTES = 1024 * 1024;
+// Batches grow with the dataset so appending to state stays linear overall
+const MIN_BATCH_ROWS = 20000;
+
+const post = (message: CSVWorkerMessage) => self.postMessage(message);
+
+const ingest = async ({ file, options }: CSVWorkerRequest) => {
+    const decoder = createStreamDecoder(options.encoding);
+    const stream = createCSVStream(options);
+    let typer: ReturnType<typeof createRowTyper> | null = null;
+    let pending: string[][] = [];
+    let sentRows = 0;
+
+    // Types widen as evidence arrives; the typer re-reads the rows already sent and the main thread swaps them in
+    const flush = () => {
+        if (!typer || pending.length === 0) return;
+        post({ type: 'rows', ...typer.add(pending) });
+        sentRows += pending.length;
+        pending = [];
+    };
+
+    const accept = (rows: string[][]) => {
+        if (!typer) {
+            const columns = stream.columns();
+            if (!columns) return;
+            typer = createRowTyper(columns);
+            post({ type: 'header', columns, schema: typer.schema() });
+        }
+
+        pending = pending.concat(rows);
+        if (pending.length >= Math.max(MIN_BATCH_ROWS, sentRows / 2)) flush();
+    };
+
+    for (let offset = 0; offset < file.size; offset += CHUNK_BYTES) {
+        const bytes = new Uint8Array(await file.slice(offset, offset + CHUNK_BYTES).arrayBuffer());
+        const last = offset + CHUNK_BYTES >= file.size;
+        accept(stream.push(decoder.decode(bytes, last)));
+        if (decoder.errors.length > 0) break;
+        post({ type: 'progress', loadedBytes: Math.min(file.size, offset + CHUNK_BYTES), rowCount: sentRows + pending.length });
+    }
+
+    if (decoder.errors.length === 0) accept(stream.finish());
+    flush();
+
+    const report = stream.report();
+    post({
+        type: 'done',
+        meta: { delimiter: report.delimiter, linebreak: report.linebreak, encoding: decoder.encoding(), rowCount: report.rowCount },
+        warnings: [...decoder.warnings, ...report.warnings],
+        errors: [...decoder.errors, ...report.errors]
+    });
+};
+
+self.onmessage = (event: MessageEvent<CSVWorkerRequest>) => {
+    ingest(event.data).catch((error: Error) => post({ type: 'error', message: error.message }));
+};
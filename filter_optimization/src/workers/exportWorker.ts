@@ -0,0 +1,46 @@
+/// <reference lib="webworker" />
+import { createExportWriter, type ExportFormat, type ExportWriter } from '../utils/exporters';
+import type { CellValue, Schema } from '../utils/schema';
+
+// Rows are sent in batches so the main thread never copies a whole large result in one go
+export type ExportWorkerRequest =
+    | { type: 'start'; format: ExportFormat; columns: string[]; schema: Schema }
+    | { type: 'rows'; rows: CellValue[][] }
+    | { type: 'finish' };
+
+export type ExportWorkerMessage =
+    | { type: 'progress'; rowCount: number }
+    | { type: 'done'; blob: Blob }
+    | { type: 'error'; message: string };
+
+const post = (message: ExportWorkerMessage) => self.postMessage(message);
+
+let writer: ExportWriter | null = null;
+let rowCount = 0;
+
+const handle = async (request: ExportWorkerRequest) => {
+    switch (request.type) {
+        case 'start':
+            writer = createExportWriter(request.format, request.columns, request.schema);
+            rowCount = 0;
+            break;
+        case 'rows':
+            if (!writer) throw new Error('Export was not started');
+            writer.write(request.rows);
+            rowCount += request.rows.length;
+            post({ type: 'progress', rowCount });
+            break;
+        case 'finish':
+            if (!writer) throw new Error('Export was not started');
+            post({ type: 'done', blob: await writer.finish() });
+            writer = null;
+            break;
+    }
+};
+
+self.onmessage = (event: MessageEvent<ExportWorkerRequest>) => {
+    handle(event.data).catch((error: Error) => {
+        writer = null;
+        post({ type: 'error', message: error.message });
+    });
+};